@@ -0,0 +1,32 @@
+-- Stop sequencing for delivery batches, additive only.
+--
+-- Adds stop order, coordinates and leg distance to delivery items, the kitchen
+-- and route length to batches, coordinates to kitchens, and a GeocodeCache
+-- table. Nothing existing changes meaning: an item with a null stop_sequence
+-- sorts after sequenced ones in created_at order, which is exactly the order
+-- every existing batch is already in.
+
+ALTER TABLE "DeliveryBatch" ADD COLUMN IF NOT EXISTS "kitchen_id"         TEXT;
+ALTER TABLE "DeliveryBatch" ADD COLUMN IF NOT EXISTS "route_distance_m"   DOUBLE PRECISION;
+ALTER TABLE "DeliveryBatch" ADD COLUMN IF NOT EXISTS "route_optimized_at" TIMESTAMP(3);
+
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "latitude"       DOUBLE PRECISION;
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "longitude"      DOUBLE PRECISION;
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "stop_sequence"  INTEGER;
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "leg_distance_m" DOUBLE PRECISION;
+
+ALTER TABLE "Kitchen" ADD COLUMN IF NOT EXISTS "latitude"  DOUBLE PRECISION;
+ALTER TABLE "Kitchen" ADD COLUMN IF NOT EXISTS "longitude" DOUBLE PRECISION;
+
+-- New table, so its unique key cannot fail on existing rows.
+CREATE TABLE IF NOT EXISTS "GeocodeCache" (
+  "id"          TEXT NOT NULL,
+  "address_key" TEXT NOT NULL,
+  "latitude"    DOUBLE PRECISION,
+  "longitude"   DOUBLE PRECISION,
+  "provider"    TEXT,
+  "created_at"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "GeocodeCache_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GeocodeCache_address_key_key" ON "GeocodeCache"("address_key");
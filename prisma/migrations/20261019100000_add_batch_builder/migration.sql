@@ -0,0 +1,10 @@
+-- Batch builder links, additive only.
+--
+-- Adds the meal a batch was built for, and the order behind each of its items.
+-- Both columns are nullable and nothing existing sets them: batches made by
+-- hand keep a null meal_type, and their items a null order_id.
+
+ALTER TABLE "DeliveryBatch" ADD COLUMN IF NOT EXISTS "meal_type" TEXT;
+
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "order_id" TEXT;
+CREATE INDEX IF NOT EXISTS "DeliveryItem_order_id_idx" ON "DeliveryItem"("order_id");
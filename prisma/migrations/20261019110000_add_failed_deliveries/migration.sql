@@ -0,0 +1,11 @@
+-- Failed-delivery outcomes for driver stops, additive only.
+--
+-- Adds a failed count to batches, and to each stop why and when it failed and
+-- whether it is a reattempt. Existing items are all pending or delivered, so
+-- failed_count starts at zero everywhere and no backfill is needed.
+
+ALTER TABLE "DeliveryBatch" ADD COLUMN IF NOT EXISTS "failed_count" INTEGER DEFAULT 0;
+
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "failure_reason" TEXT;
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "failed_at"      TIMESTAMP(3);
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "reattempt"      BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,9 @@
+-- Exactly-once day counting for orders, additive only.
+--
+-- Adds Order.counted_at, stamped when a delivery counts the order's day.
+-- Existing orders stay NULL, i.e. "not yet counted by the new path". That is
+-- deliberate: there is no record of which historical orders record-delivery
+-- counted, and back-stamping all of them would block a legitimate count for
+-- today's orders that are mid-round during the deploy. The guard covers orders
+-- counted from this deploy on.
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "counted_at" TIMESTAMP(3);
@@ -0,0 +1,14 @@
+-- Proof-of-delivery retention, additive only.
+--
+-- Adds the merchant's two photo retention periods, and dispute and purge stamps
+-- on each stop. The defaults apply to every existing merchant, so from the
+-- first nightly run after deploy photos are kept 14 days (90 for failed or
+-- disputed stops) instead of one. Photos already wiped under the old 24-hour
+-- rule are not recoverable.
+
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "pod_retention_days"         INTEGER NOT NULL DEFAULT 14;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "pod_dispute_retention_days" INTEGER NOT NULL DEFAULT 90;
+
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "disputed_at"     TIMESTAMP(3);
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "dispute_note"    TEXT;
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "photo_purged_at" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- One-stop-away push guard for delivery stops, additive only.
+--
+-- Adds DeliveryItem.eta_notified_at, set when the customer is told the driver
+-- is one stop away. Null on every existing row; stops that are already closed
+-- are never considered for the push, so there is nothing to backfill.
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "eta_notified_at" TIMESTAMP(3);
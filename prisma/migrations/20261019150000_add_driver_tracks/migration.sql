@@ -0,0 +1,27 @@
+-- Compacted driver routes, additive only.
+--
+-- Adds the DriverTrack table: a driver's pings for a day, compacted to one
+-- route. The table starts empty: raw DriverLocation rows older than a day were
+-- already being deleted, so there is no history to backfill, and the first
+-- nightly run compacts whatever is left.
+CREATE TABLE IF NOT EXISTS "DriverTrack" (
+    "id" TEXT NOT NULL,
+    "driver_id" TEXT NOT NULL,
+    "batch_id" TEXT,
+    "track_date" TEXT NOT NULL,
+    "points" JSONB NOT NULL,
+    "point_count" INTEGER NOT NULL DEFAULT 0,
+    "raw_point_count" INTEGER NOT NULL DEFAULT 0,
+    "distance_m" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DriverTrack_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "DriverTrack_created_by_idx" ON "DriverTrack"("created_by");
+CREATE INDEX IF NOT EXISTS "DriverTrack_batch_id_idx" ON "DriverTrack"("batch_id");
+CREATE INDEX IF NOT EXISTS "DriverTrack_driver_id_track_date_idx" ON "DriverTrack"("driver_id", "track_date");
@@ -0,0 +1,31 @@
+-- Driver access code rotation, expiry, device binding and login log, additive only.
+--
+-- Adds code expiry, rotation, a token version and device binding to drivers,
+-- and a DriverLogin table of sign-ins. Existing codes keep working unchanged:
+-- no expiry, no binding, token_version 0 — and driver tokens issued before this
+-- deploy carry no version, which the middleware reads as 0, so nobody is signed
+-- out by the deploy itself.
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "access_code_expires_at" TIMESTAMP(3);
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "access_code_rotated_at" TIMESTAMP(3);
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "token_version" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "device_binding" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "bound_device_id" TEXT;
+
+CREATE TABLE IF NOT EXISTS "DriverLogin" (
+    "id" TEXT NOT NULL,
+    "driver_id" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "failure_reason" TEXT,
+    "device_id" TEXT,
+    "device_name" TEXT,
+    "platform" TEXT,
+    "ip" TEXT,
+    "user_agent" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DriverLogin_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "DriverLogin_created_by_idx" ON "DriverLogin"("created_by");
+CREATE INDEX IF NOT EXISTS "DriverLogin_driver_id_created_at_idx" ON "DriverLogin"("driver_id", "created_at");
@@ -0,0 +1,10 @@
+-- Delivery windows and driver pay rates for the driver report, additive only.
+--
+-- Adds the merchant's lunch and dinner delivery windows and driver pay per drop
+-- and per km. All null: a merchant who has not set a window sees no on-time
+-- figure rather than one measured against a guess, and unset rates pay out
+-- zero.
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "lunch_delivery_window" TEXT;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "dinner_delivery_window" TEXT;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "driver_pay_per_drop" DOUBLE PRECISION;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "driver_pay_per_km" DOUBLE PRECISION;
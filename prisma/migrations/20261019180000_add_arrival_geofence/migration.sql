@@ -0,0 +1,7 @@
+-- Geofenced arrival for delivery stops, additive only.
+--
+-- Adds DeliveryItem.arrived_at and the merchant's arrival radius in metres.
+-- arrived_at is null on existing stops — there were no pings close enough to
+-- say otherwise — and every merchant starts on the 75 m default radius.
+ALTER TABLE "DeliveryItem" ADD COLUMN IF NOT EXISTS "arrived_at" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "arrival_radius_m" INTEGER NOT NULL DEFAULT 75;
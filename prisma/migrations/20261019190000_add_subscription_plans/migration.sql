@@ -0,0 +1,30 @@
+-- Merchant plan catalogue and the customer's plan reference, additive only.
+--
+-- Adds the SubscriptionPlan table and Customer.plan_id. No customer is moved
+-- onto a plan: nothing reliable says which hand-typed payment_amount was meant
+-- to be "the same" plan as another, so existing customers keep plan_id null and
+-- renew on their own terms until the merchant assigns one.
+CREATE TABLE IF NOT EXISTS "SubscriptionPlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "meal_type" TEXT NOT NULL,
+    "menu_style" TEXT DEFAULT 'Set Menu',
+    "days" INTEGER NOT NULL DEFAULT 30,
+    "price" DOUBLE PRECISION NOT NULL,
+    "skip_weekends" BOOLEAN NOT NULL DEFAULT false,
+    "default_attribute_values" JSONB,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "show_on_portal" BOOLEAN NOT NULL DEFAULT true,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubscriptionPlan_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SubscriptionPlan_created_by_idx" ON "SubscriptionPlan"("created_by");
+
+ALTER TABLE "Customer" ADD COLUMN IF NOT EXISTS "plan_id" TEXT;
+CREATE INDEX IF NOT EXISTS "Customer_plan_id_idx" ON "Customer"("plan_id");
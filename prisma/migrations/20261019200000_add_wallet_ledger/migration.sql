@@ -0,0 +1,31 @@
+-- Customer wallet ledger, additive only.
+--
+-- Adds the WalletEntry table. Every customer with a non-zero tiffin_balance
+-- gets one opening_balance entry for it, so the ledger sums to the cached value
+-- from the first read. The entry id is derived from the customer id, which
+-- makes re-running this a no-op.
+CREATE TABLE IF NOT EXISTS "WalletEntry" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "entry_type" TEXT NOT NULL,
+    "meals" INTEGER NOT NULL DEFAULT 0,
+    "amount" DOUBLE PRECISION,
+    "reason" TEXT,
+    "reference_type" TEXT,
+    "reference_id" TEXT,
+    "posted_by" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "WalletEntry_customer_id_created_at_idx" ON "WalletEntry"("customer_id", "created_at");
+CREATE INDEX IF NOT EXISTS "WalletEntry_created_by_idx" ON "WalletEntry"("created_by");
+
+INSERT INTO "WalletEntry" ("id", "customer_id", "entry_type", "meals", "reason", "posted_by", "created_by")
+SELECT 'opening_' || "id", "id", 'opening_balance', "tiffin_balance",
+       'Balance before the wallet ledger', 'system', "created_by"
+  FROM "Customer"
+ WHERE COALESCE("tiffin_balance", 0) <> 0
+ON CONFLICT ("id") DO NOTHING;
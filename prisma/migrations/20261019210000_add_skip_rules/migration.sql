@@ -0,0 +1,24 @@
+-- Recurring skip rules, additive only.
+--
+-- Adds the SkipRule table of a customer's repeating skips. Nothing to backfill:
+-- one-off skips stay TiffinSkip rows.
+CREATE TABLE IF NOT EXISTS "SkipRule" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "meal_type" TEXT,
+    "start_date" TEXT,
+    "end_date" TEXT,
+    "interval_weeks" INTEGER NOT NULL DEFAULT 1,
+    "anchor_date" TEXT NOT NULL,
+    "carried_through" TEXT,
+    "reason" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SkipRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SkipRule_customer_id_idx" ON "SkipRule"("customer_id");
+CREATE INDEX IF NOT EXISTS "SkipRule_created_by_idx" ON "SkipRule"("created_by");
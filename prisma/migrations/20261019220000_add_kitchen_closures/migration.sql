@@ -0,0 +1,19 @@
+-- Kitchen closure calendar, additive only.
+--
+-- Adds the KitchenClosure table of dates the kitchen does not cook. Closures
+-- are read wherever a day off is decided, so an empty table changes nothing.
+CREATE TABLE IF NOT EXISTS "KitchenClosure" (
+    "id" TEXT NOT NULL,
+    "start_date" TEXT NOT NULL,
+    "end_date" TEXT NOT NULL,
+    "reason" TEXT,
+    "notified_at" TIMESTAMP(3),
+    "notify_summary" JSONB,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KitchenClosure_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "KitchenClosure_created_by_idx" ON "KitchenClosure"("created_by");
@@ -0,0 +1,9 @@
+-- Skip cutoffs and late skips, additive only.
+--
+-- Adds the merchant's skip cutoffs and late-skip policy, and
+-- TiffinSkip.is_late. No merchant has a cutoff until they set one, so every
+-- existing skip stays on time.
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "skip_cutoffs" JSONB;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "late_skip_policy" TEXT NOT NULL DEFAULT 'reject';
+
+ALTER TABLE "TiffinSkip" ADD COLUMN IF NOT EXISTS "is_late" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,24 @@
+-- Scheduled customer pauses, additive only.
+--
+-- Adds the CustomerPause table of scheduled pauses. Pauses already in force
+-- stay on the Customer columns; the pause job adopts each into an active row
+-- the first time it runs, so they get the resume reminder too.
+CREATE TABLE IF NOT EXISTS "CustomerPause" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "start_date" TEXT NOT NULL,
+    "resume_date" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "reason" TEXT,
+    "started_at" TIMESTAMP(3),
+    "ended_at" TIMESTAMP(3),
+    "reminder_sent_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerPause_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CustomerPause_customer_id_idx" ON "CustomerPause"("customer_id");
+CREATE INDEX IF NOT EXISTS "CustomerPause_created_by_status_idx" ON "CustomerPause"("created_by", "status");
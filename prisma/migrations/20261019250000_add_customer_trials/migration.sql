@@ -0,0 +1,28 @@
+-- Customer trial funnel, additive only.
+--
+-- Adds the CustomerTrial table, a row per trial. Trials already running get
+-- their row from the trial job the first time it runs; trials that ended before
+-- this have no row and stay out of the funnel.
+CREATE TABLE IF NOT EXISTS "CustomerTrial" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "registration_source" TEXT,
+    "plan_id" TEXT,
+    "started_on" TEXT NOT NULL,
+    "ends_on" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "offer_sent_at" TIMESTAMP(3),
+    "converted_at" TIMESTAMP(3),
+    "converted_plan_id" TEXT,
+    "ended_at" TIMESTAMP(3),
+    "drop_off_reason" TEXT,
+    "drop_off_note" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerTrial_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CustomerTrial_customer_id_idx" ON "CustomerTrial"("customer_id");
+CREATE INDEX IF NOT EXISTS "CustomerTrial_created_by_started_on_idx" ON "CustomerTrial"("created_by", "started_on");
@@ -0,0 +1,62 @@
+-- Churn-risk scores and win-back campaigns, additive only.
+--
+-- Adds ChurnRiskScore, one per customer, and the WinBackCampaign and
+-- WinBackRecipient tables. Scores fill in on the first nightly run; until then
+-- the at-risk list is empty.
+CREATE TABLE IF NOT EXISTS "ChurnRiskScore" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "level" TEXT NOT NULL,
+    "reasons" JSONB NOT NULL,
+    "scored_on" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChurnRiskScore_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ChurnRiskScore_customer_id_key" ON "ChurnRiskScore"("customer_id");
+CREATE INDEX IF NOT EXISTS "ChurnRiskScore_created_by_level_idx" ON "ChurnRiskScore"("created_by", "level");
+
+CREATE TABLE IF NOT EXISTS "WinBackCampaign" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "template" TEXT,
+    "message" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "lapsed_within_days" INTEGER NOT NULL,
+    "recipients" INTEGER NOT NULL DEFAULT 0,
+    "sent" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "sent_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WinBackCampaign_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "WinBackCampaign_created_by_idx" ON "WinBackCampaign"("created_by");
+
+CREATE TABLE IF NOT EXISTS "WinBackRecipient" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "customer_name" TEXT,
+    "status" TEXT NOT NULL,
+    "whatsapp_sent" BOOLEAN NOT NULL DEFAULT false,
+    "email_sent" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "renewed_at" TIMESTAMP(3),
+    "renewal_amount" DOUBLE PRECISION,
+    "created_by" TEXT NOT NULL,
+
+    CONSTRAINT "WinBackRecipient_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "WinBackRecipient_campaign_id_idx" ON "WinBackRecipient"("campaign_id");
+CREATE INDEX IF NOT EXISTS "WinBackRecipient_customer_id_idx" ON "WinBackRecipient"("customer_id");
+CREATE INDEX IF NOT EXISTS "WinBackRecipient_created_by_sent_at_idx" ON "WinBackRecipient"("created_by", "sent_at");
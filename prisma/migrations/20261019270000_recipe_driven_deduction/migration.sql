@@ -0,0 +1,11 @@
+-- Recipe-driven inventory deduction, additive only.
+--
+-- Links menu items to a recipe, and records where each ConsumptionLog row came
+-- from. Menu items start with no recipe, so the daily job keeps using each meal
+-- type's recipe, or usage_per_tiffin, until the merchant links dishes to
+-- recipes.
+ALTER TABLE "MenuItem" ADD COLUMN IF NOT EXISTS "recipe_id" TEXT;
+
+ALTER TABLE "ConsumptionLog" ADD COLUMN IF NOT EXISTS "source" TEXT;
+
+CREATE INDEX IF NOT EXISTS "ConsumptionLog_created_by_date_idx" ON "ConsumptionLog"("created_by", "date");
@@ -0,0 +1,12 @@
+-- Ingredient unit conversions, additive only.
+--
+-- Adds Ingredient.unit_conversions, and a stock_quantity in the ingredient's
+-- unit on purchases and wastage. Existing purchases and wastage were recorded
+-- in the ingredient's unit, so their stock_quantity is their quantity.
+ALTER TABLE "Ingredient" ADD COLUMN IF NOT EXISTS "unit_conversions" JSONB;
+
+ALTER TABLE "Purchase" ADD COLUMN IF NOT EXISTS "stock_quantity" DOUBLE PRECISION;
+ALTER TABLE "Wastage" ADD COLUMN IF NOT EXISTS "stock_quantity" DOUBLE PRECISION;
+
+UPDATE "Purchase" SET "stock_quantity" = "quantity" WHERE "stock_quantity" IS NULL;
+UPDATE "Wastage" SET "stock_quantity" = "quantity" WHERE "stock_quantity" IS NULL;
@@ -0,0 +1,32 @@
+-- Ingredient stock ledger, additive only.
+--
+-- Adds the StockMovement table. Every ingredient with stock gets one
+-- opening_balance movement for it, so the ledger sums to current_stock from the
+-- first read. The movement id is derived from the ingredient id, which makes
+-- re-running this a no-op.
+CREATE TABLE IF NOT EXISTS "StockMovement" (
+    "id" TEXT NOT NULL,
+    "ingredient_id" TEXT NOT NULL,
+    "movement_type" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit_cost" DOUBLE PRECISION,
+    "balance_after" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT,
+    "reference_type" TEXT,
+    "reference_id" TEXT,
+    "posted_by" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "StockMovement_ingredient_id_created_at_idx" ON "StockMovement"("ingredient_id", "created_at");
+CREATE INDEX IF NOT EXISTS "StockMovement_created_by_idx" ON "StockMovement"("created_by");
+
+INSERT INTO "StockMovement" ("id", "ingredient_id", "movement_type", "quantity", "unit_cost", "balance_after", "reason", "posted_by", "created_by")
+SELECT 'opening_' || "id", "id", 'opening_balance', "current_stock", "cost_per_unit", "current_stock",
+       'Stock before the stock ledger', 'system', "created_by"
+  FROM "Ingredient"
+ WHERE COALESCE("current_stock", 0) <> 0
+ON CONFLICT ("id") DO NOTHING;
@@ -0,0 +1,54 @@
+-- Stock-take sessions, additive only.
+--
+-- Adds the StockTake and StockTakeLine tables. Nothing to backfill: a
+-- stock-take starts when a merchant opens one.
+CREATE TABLE IF NOT EXISTS "StockTake" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+    "lines_counted" INTEGER NOT NULL DEFAULT 0,
+    "variance_value" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "wastage_value" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "opened_by" TEXT,
+    "closed_by" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTake_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "StockTake_created_by_status_idx" ON "StockTake"("created_by", "status");
+
+CREATE TABLE IF NOT EXISTS "StockTakeLine" (
+    "id" TEXT NOT NULL,
+    "stock_take_id" TEXT NOT NULL,
+    "ingredient_id" TEXT NOT NULL,
+    "ingredient_name" TEXT NOT NULL,
+    "unit" TEXT,
+    "counted_quantity" DOUBLE PRECISION,
+    "counted_unit" TEXT,
+    "counted_stock" DOUBLE PRECISION,
+    "expected_stock" DOUBLE PRECISION,
+    "variance" DOUBLE PRECISION,
+    "cost_per_unit" DOUBLE PRECISION,
+    "variance_value" DOUBLE PRECISION,
+    "wastage_quantity" DOUBLE PRECISION,
+    "wastage_value" DOUBLE PRECISION,
+    "note" TEXT,
+    "counted_at" TIMESTAMP(3),
+    "counted_by" TEXT,
+    "movement_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTakeLine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "StockTakeLine_stock_take_id_ingredient_id_key" ON "StockTakeLine"("stock_take_id", "ingredient_id");
+CREATE INDEX IF NOT EXISTS "StockTakeLine_created_by_idx" ON "StockTakeLine"("created_by");
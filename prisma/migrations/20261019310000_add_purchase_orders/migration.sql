@@ -0,0 +1,52 @@
+-- Reorder points and supplier purchase orders, additive only.
+--
+-- Adds a reorder point, reorder quantity and preferred supplier to ingredients,
+-- the PurchaseOrder and PurchaseOrderLine tables, and
+-- Purchase.purchase_order_id. No ingredient has a reorder point yet, so nothing
+-- is drafted until merchants set them.
+ALTER TABLE "Ingredient" ADD COLUMN IF NOT EXISTS "reorder_point" DOUBLE PRECISION;
+ALTER TABLE "Ingredient" ADD COLUMN IF NOT EXISTS "reorder_quantity" DOUBLE PRECISION;
+ALTER TABLE "Ingredient" ADD COLUMN IF NOT EXISTS "preferred_supplier_id" TEXT;
+
+ALTER TABLE "Purchase" ADD COLUMN IF NOT EXISTS "purchase_order_id" TEXT;
+
+CREATE TABLE IF NOT EXISTS "PurchaseOrder" (
+    "id" TEXT NOT NULL,
+    "po_number" TEXT NOT NULL,
+    "supplier_id" TEXT NOT NULL,
+    "supplier_name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "expected_date" TEXT,
+    "notes" TEXT,
+    "total_cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sent_via" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "received_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PurchaseOrder_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PurchaseOrder_created_by_po_number_key" ON "PurchaseOrder"("created_by", "po_number");
+CREATE INDEX IF NOT EXISTS "PurchaseOrder_created_by_status_idx" ON "PurchaseOrder"("created_by", "status");
+
+CREATE TABLE IF NOT EXISTS "PurchaseOrderLine" (
+    "id" TEXT NOT NULL,
+    "purchase_order_id" TEXT NOT NULL,
+    "ingredient_id" TEXT NOT NULL,
+    "ingredient_name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT,
+    "cost_per_unit" DOUBLE PRECISION,
+    "received_quantity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PurchaseOrderLine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PurchaseOrderLine_purchase_order_id_ingredient_id_key" ON "PurchaseOrderLine"("purchase_order_id", "ingredient_id");
+CREATE INDEX IF NOT EXISTS "PurchaseOrderLine_created_by_idx" ON "PurchaseOrderLine"("created_by");
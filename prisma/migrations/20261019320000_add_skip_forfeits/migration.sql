@@ -0,0 +1,6 @@
+-- When a late skip used its day up, additive only.
+--
+-- Existing late skips stay null. That is deliberate: the days they forfeited
+-- were counted without a record, and stamping them now cannot tell which one
+-- of a date's skips did it. Only forfeits from here on are marked.
+ALTER TABLE "TiffinSkip" ADD COLUMN IF NOT EXISTS "forfeited_at" TIMESTAMP(3);
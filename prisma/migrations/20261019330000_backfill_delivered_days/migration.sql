@@ -0,0 +1,27 @@
+-- Delivered days for customers whose deliveries were never counted, backfill only.
+--
+-- Sets Customer.delivered_days for customers still on 0. Until the day
+-- accounting (lib/subscriptionDays.ts) only /functions/record-delivery counted
+-- delivered days, so a merchant who marked rounds or let drivers deliver has
+-- every customer on 0, and days_remaining = paid − delivered would move each
+-- end date out by all the days already eaten. The days left are taken as the
+-- service days from today to the stored end_date — weekdays only for customers
+-- who skip weekends — or the stored days_remaining where there is no end date,
+-- and the rest of paid_days were delivered. Skips, pauses and closures ahead
+-- are left to the nightly recompute, which moves the end date past them as it
+-- always has. Customers already counting deliveries keep what they have.
+UPDATE "Customer"
+   SET "delivered_days" = GREATEST(
+         COALESCE(NULLIF("paid_days", 0), CASE WHEN "is_trial" THEN 3 ELSE 30 END)
+         - CASE
+             WHEN "end_date" IS NOT NULL THEN (
+               SELECT COUNT(*)::INTEGER
+                 FROM generate_series(CURRENT_DATE, "end_date"::DATE, INTERVAL '1 day') AS d
+                WHERE NOT (COALESCE("skip_weekends", false) AND EXTRACT(DOW FROM d) IN (0, 6))
+             )
+             ELSE GREATEST("days_remaining", 0)
+           END,
+         0)
+ WHERE COALESCE("delivered_days", 0) = 0
+   AND "is_deleted" = false
+   AND ("end_date" IS NOT NULL OR "days_remaining" IS NOT NULL);
@@ -1,10 +1,22 @@
 import cron from 'node-cron';
 import { prisma } from './lib/prisma';
-import { runAutoPaymentReminders, runTrialExpiryCheck, runAutoResumePausedCustomers } from './routes/functions';
+import { runAutoPaymentReminders, runTrialExpiryCheck } from './routes/functions';
 import { deleteFromCloudinary, extractPublicId } from './lib/cloudinary';
 import { stripe } from './services/stripe';
 import { FEATURES } from './lib/features';
 import { sendEmail } from './services/email';
+import { escapeHtml } from './lib/html';
+import { proofRetentionUntil } from './lib/deliveries';
+import { runDriverLocationCompaction } from './lib/driverTracks';
+import { paidDaysOf, recomputeCustomerDays } from './lib/subscriptionDays';
+import { runPauseSchedule } from './lib/pauses';
+import { runTrialOffers } from './lib/trials';
+import { runChurnRiskScoring } from './lib/churnRisk';
+import { recordWinBackRenewals } from './lib/winBack';
+import { deductDay } from './lib/inventory';
+import { runPurchaseOrderDrafts } from './lib/purchaseOrders';
+import { todayInTimezone } from './lib/weekend';
+import { sendPushToUser } from './services/pushNotification';
 
 /**
  * A scheduled unit of work, defined once and triggered two ways.
@@ -33,16 +45,29 @@ export const DAILY_JOBS: ScheduledJob[] = [
     skip: () => (FEATURES.AUTO_PAYMENTS ? null : 'AUTO_PAYMENTS is off'),
     run: runAutoPaymentReminders,
   },
+  // Before the expiry check: the offer goes out on the last trial day, and
+  // the check expires the trial the morning after.
+  { name: 'trial-offers', run: runTrialOffers },
   { name: 'trial-expiry-check', run: runTrialExpiryCheck },
   { name: 'merchant-trial-expiry', run: runMerchantTrialExpiry },
   { name: 'subscription-expiry', run: runSubscriptionExpiry },
   { name: 'customer-days-maintenance', run: runCustomerDaysMaintenance },
   { name: 'inventory-deduction', run: () => runInventoryDeduction() },
-  { name: 'auto-resume-paused-customers', run: runAutoResumePausedCustomers },
+  // After the deduction, so today's usage is what pushes stock to the reorder point.
+  { name: 'purchase-order-drafts', run: runPurchaseOrderDrafts },
+  { name: 'customer-pauses', run: runPauseSchedule },
 ];
 
 export const NIGHTLY_JOBS: ScheduledJob[] = [
+  // Raw pings are only deleted once compacted, so this owns their pruning.
+  { name: 'driver-location-compaction', run: runDriverLocationCompaction },
   { name: 'delivery-photo-cleanup', run: runDeliveryPhotoCleanup },
+  // Again at night as well as in the daily run: 22:00 UTC is past midnight
+  // from the Gulf eastwards, so pauses starting "today" there are in force
+  // before the morning batches are built, rather than at 05:00 UTC.
+  { name: 'customer-pauses', run: runPauseSchedule },
+  { name: 'churn-risk-scoring', run: runChurnRiskScoring },
+  { name: 'win-back-renewals', run: async () => ({ renewed: await recordWinBackRenewals() }) },
 ];
 
 export const SCHEDULES = {
@@ -114,20 +139,45 @@ export function startCronJobs() {
   console.log('Cron jobs started (in-process)');
 }
 
+/**
+ * Proof-of-delivery retention.
+ *
+ * This used to delete every delivery photo after 24 hours, which meant a
+ * customer disputing a delivery a week later was arguing against nothing. Each
+ * merchant now sets how long proof is kept (User.pod_retention_days), and failed
+ * or disputed stops keep theirs for the longer dispute window — the rule lives
+ * in proofRetentionUntil() so the proof endpoint can report the same date.
+ *
+ * Only the photo is removed. The GPS point and timestamps are a few bytes on
+ * the item row and stay, so the proof bundle degrades to "no photo" rather
+ * than to nothing.
+ */
 export async function runDeliveryPhotoCleanup() {
-  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const now = new Date();
+  // Nothing is ever kept for less than a day, so younger rows are not read.
+  const oldest = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
-  // Clean up delivery photos from Cloudinary
   const items = await prisma.deliveryItem.findMany({
     where: {
       delivery_photo: { not: '' },
-      delivered_at: { lt: cutoff },
+      created_at: { lt: oldest },
     },
   });
 
+  const merchants = await prisma.user.findMany({
+    where: { id: { in: [...new Set(items.map((i) => i.created_by))] } },
+    select: { id: true, pod_retention_days: true, pod_dispute_retention_days: true },
+  });
+  const merchantById = new Map(merchants.map((m) => [m.id, m]));
+
   let cleaned = 0;
+  let retained = 0;
   for (const item of items) {
     if (!item.delivery_photo) continue;
+    if (proofRetentionUntil(item, merchantById.get(item.created_by) ?? {}) > now) {
+      retained++;
+      continue;
+    }
 
     // Delete from Cloudinary if it's a Cloudinary URL
     if (item.delivery_photo.includes('cloudinary.com')) {
@@ -143,17 +193,12 @@ export async function runDeliveryPhotoCleanup() {
 
     await prisma.deliveryItem.update({
       where: { id: item.id },
-      data: { delivery_photo: '' },
+      data: { delivery_photo: '', photo_purged_at: now },
     });
     cleaned++;
   }
 
-  // Clean up old driver locations (older than 1 day)
-  const locationResult = await prisma.driverLocation.deleteMany({
-    where: { created_at: { lt: cutoff } },
-  });
-
-  return { photosCleared: cleaned, totalPhotos: items.length, locationsDeleted: locationResult.count };
+  return { photosCleared: cleaned, photosRetained: retained, totalPhotos: items.length };
 }
 
 /**
@@ -166,15 +211,17 @@ export async function runDeliveryPhotoCleanup() {
  * should not mutate business state, so it runs here once a day instead.
  */
 export async function runCustomerDaysMaintenance() {
-  const now = new Date();
+  // Only customers still being served. An inactive or lapsed customer's end
+  // date is history: projecting their unused days from today would carry it
+  // forward every night.
   const customers = await prisma.customer.findMany({
-    where: { is_deleted: false, end_date: { not: null } },
+    where: { is_deleted: false, active: true, end_date: { not: null } },
   });
 
   // Notification is keyed by the merchant's email, while Customer.created_by
   // holds their user id — resolve once rather than per customer.
   const merchants = await prisma.user.findMany({
-    select: { id: true, email: true, currency: true, business_name: true },
+    select: { id: true, email: true, currency: true, business_name: true, timezone: true },
   });
   const emailByUserId = new Map(merchants.map((m) => [m.id, m.email]));
   const merchantById = new Map(merchants.map((m) => [m.id, m]));
@@ -190,20 +237,27 @@ export async function runCustomerDaysMaintenance() {
   const digests = new Map<string, { notificationIds: string[]; rows: typeof customers }>();
 
   for (const customer of customers) {
-    if (!customer.end_date) continue;
+    // Every paid day delivered: the subscription is over, and there is no end
+    // date left to project.
+    if ((customer.delivered_days || 0) >= paidDaysOf(customer)) {
+      await prisma.customer.update({ where: { id: customer.id }, data: { active: false, days_remaining: 0 } });
+      deactivated++;
+      continue;
+    }
 
-    // Same calculation the Dashboard used: whole days until end_date.
-    const daysRemaining = Math.floor(
-      (new Date(customer.end_date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    // Service days left, the same number every other writer derives
+    // (lib/subscriptionDays.ts). This used to count calendar days to end_date,
+    // which disagreed with the delivered-days count for anyone who skipped
+    // weekends, and whichever of the two ran last was what the customer saw.
+    const result = await recomputeCustomerDays(customer.id, {
+      timezone: merchantById.get(customer.created_by)?.timezone ?? null,
+    });
+    if (!result) continue;
+    const daysRemaining = result.account.days_remaining;
+    if (Object.keys(result.changed).length > 0) daysUpdated++;
 
     const data: Record<string, any> = {};
 
-    if (daysRemaining !== customer.days_remaining) {
-      data.days_remaining = daysRemaining;
-      daysUpdated++;
-    }
-
     if (daysRemaining <= 0 && customer.active) {
       data.active = false;
       deactivated++;
@@ -310,16 +364,6 @@ export async function runCustomerDaysMaintenance() {
   return { scanned: customers.length, daysUpdated, deactivated, remindersFlagged, emailsSent, emailsFailed };
 }
 
-/** Customer names and business names go into an HTML email; escape them. */
-function escapeHtml(value: string) {
-  return String(value)
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 /**
  * Expire subscriptions whose paid-for period has actually ended.
  *
@@ -437,98 +481,67 @@ export async function runMerchantTrialExpiry() {
  * ConsumptionLog rows and Critical Stock, Today's Cost and Total Consumed were
  * permanently zero.
  *
- * Rather than require a recipe per dish (one recipe exists across all
- * merchants), each ingredient carries usage_per_tiffin and this multiplies it
- * by the meal count the app already knows from today's orders.
+ * Each merchant's day is deducted from the recipes on that day's menu, less
+ * anything a batch or delivery already took, with usage_per_tiffin covering
+ * meals that have no recipe (lib/inventory.ts). The day is the merchant's own
+ * today unless a date is given.
  */
 export async function runInventoryDeduction(dateStr?: string) {
-  const day = dateStr || new Date().toISOString().slice(0, 10);
-
-  const tracked = await prisma.ingredient.findMany({
-    where: { usage_per_tiffin: { not: null, gt: 0 } },
-  });
-  if (tracked.length === 0) return { merchants: 0, ingredients: 0, note: 'no ingredients tracked' };
-
-  // Meals, not orders: a "Lunch + Dinner" customer is one order row but two
-  // tiffins, and the kitchen cooks for both.
-  const orders = await prisma.order.findMany({
-    where: { order_date: day },
-    select: { created_by: true, meal_type: true },
+  const owners = await prisma.ingredient.findMany({ select: { created_by: true }, distinct: ['created_by'] });
+  if (owners.length === 0) return { merchants: 0, note: 'no ingredients tracked' };
+  const merchants = await prisma.user.findMany({
+    where: { id: { in: owners.map((o) => o.created_by) } },
+    select: { id: true, email: true, timezone: true },
   });
 
-  const mealsByMerchant = new Map<string, number>();
-  for (const o of orders) {
-    const mt = (o.meal_type || '').toLowerCase();
-    const meals =
-      (mt.includes('breakfast') ? 1 : 0) +
-      (mt.includes('lunch') ? 1 : 0) +
-      (mt.includes('dinner') ? 1 : 0);
-    mealsByMerchant.set(o.created_by, (mealsByMerchant.get(o.created_by) || 0) + (meals || 1));
-  }
-
-  // Group ingredients per merchant so each merchant gets one consumption entry
-  // for the day rather than one per ingredient — ConsumptionLog carries the
-  // per-ingredient detail in ingredients_used.
-  const byMerchant = new Map<string, typeof tracked>();
-  for (const ing of tracked) {
-    if (!byMerchant.has(ing.created_by)) byMerchant.set(ing.created_by, []);
-    byMerchant.get(ing.created_by)!.push(ing);
-  }
-
-  let merchantsDone = 0;
-  let ingredientsDeducted = 0;
-
-  for (const [merchantId, ingredients] of byMerchant) {
-    const meals = mealsByMerchant.get(merchantId) || 0;
-    if (meals === 0) continue;
-
-    // Idempotent: re-running on the same day must not deduct twice.
-    const pending = ingredients.filter((i) => i.last_deducted_date !== day);
-    if (pending.length === 0) continue;
-
-    const used: any[] = [];
-    let totalCost = 0;
-
-    for (const ing of pending) {
-      const quantity = (ing.usage_per_tiffin || 0) * meals;
-      const newStock = Math.max(0, (ing.current_stock || 0) - quantity);
-      const cost = quantity * (ing.cost_per_unit || 0);
-
-      await prisma.ingredient.update({
-        where: { id: ing.id },
-        data: {
-          current_stock: newStock,
-          total_value: newStock * (ing.cost_per_unit || 0),
-          last_deducted_date: day,
-        },
-      });
-
-      used.push({
-        ingredient_id: ing.id,
-        name: ing.name,
-        quantity,
-        unit: ing.unit,
-        cost,
-        remaining_stock: newStock,
-      });
-      totalCost += cost;
-      ingredientsDeducted++;
+  const totals = { merchants: 0, recipes: 0, servings: 0, fallback_meals: 0, fallback_ingredients: 0, unit_errors: 0 };
+  for (const merchant of merchants) {
+    try {
+      const date = dateStr || todayInTimezone(merchant.timezone);
+      const result = await deductDay(merchant.id, date);
+      if (result.unit_errors.length > 0) {
+        totals.unit_errors += result.unit_errors.length;
+        await notifyUnitErrors(merchant, date, result.unit_errors);
+      }
+      if (result.recipes === 0 && result.fallback_ingredients === 0) continue;
+      totals.merchants++;
+      totals.recipes += result.recipes;
+      totals.servings += result.servings;
+      totals.fallback_meals += result.fallback_meals;
+      totals.fallback_ingredients += result.fallback_ingredients;
+    } catch (err) {
+      console.error(`[Inventory] Deduction failed for merchant ${merchant.id}:`, err);
     }
-
-    await prisma.consumptionLog.create({
-      data: {
-        date: day,
-        recipe_name: 'Daily tiffin production',
-        quantity_prepared: meals,
-        ingredients_used: used,
-        total_cost: totalCost,
-        cost_per_meal: meals > 0 ? totalCost / meals : 0,
-        created_by: merchantId,
-      },
-    });
-
-    merchantsDone++;
   }
+  return { ...totals, date: dateStr || null };
+}
 
-  return { merchants: merchantsDone, ingredients: ingredientsDeducted, date: day };
+/**
+ * Tell the merchant which recipes the deduction could not take from stock.
+ * Their servings stay owed, so the next run after the recipe is fixed takes
+ * them.
+ */
+async function notifyUnitErrors(
+  merchant: { id: string; email: string },
+  date: string,
+  errors: { recipe: string; meal: string; servings: number; error: string }[]
+) {
+  const names = [...new Set(errors.map((e) => e.recipe))];
+  const message = `Stock was not deducted for ${names.join(', ')} on ${date}: a recipe unit does not convert to its ingredient's. `
+    + errors.map((e) => `${e.meal} × ${e.servings}: ${e.error}`).join(' ');
+  await prisma.notification.create({
+    data: {
+      user_email: merchant.email,
+      title: 'Recipe Units Need Fixing',
+      message,
+      type: 'recipe_units',
+      notification_type: 'info',
+    },
+  });
+  sendPushToUser(
+    merchant.id,
+    'Recipe units need fixing',
+    `Stock was not deducted for ${names.length} recipe${names.length === 1 ? '' : 's'}. Check the units in ${names.join(', ')}.`,
+    { type: 'recipe_units' }
+  ).catch(() => {});
 }
@@ -0,0 +1,210 @@
+// Churn risk: which active customers look like they are on their way out.
+//
+// A merchant found out a customer had left when runCustomerDaysMaintenance
+// switched them off at zero days — too late to do anything but send a payment
+// link. The signs are usually there weeks before, in data the app already
+// keeps: skips piling up, a pause, a payment link left unpaid, a run of failed
+// deliveries, a customer who has stopped opening the portal.
+//
+// The nightly job scores every active customer from those signals. Each signal
+// adds points with a reason the merchant can read ("6 days skipped in the last
+// 30 days"), the total is capped at 100, and the level is what the dashboard
+// filters on. The weights are a judgement, not a model: they put a customer
+// with two unrelated warning signs above one with a single loud one.
+
+import { prisma } from './prisma';
+import { todayInTimezone } from './weekend';
+import { addDaysToDateStr } from './subscriptionDays';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskReason = { signal: string; points: number; detail: string };
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+export function isRiskLevel(value: unknown): value is RiskLevel {
+  return typeof value === 'string' && (RISK_LEVELS as string[]).includes(value);
+}
+
+/** How far back the signals look. */
+const WINDOW_DAYS = 30;
+const PAUSE_WINDOW_DAYS = 60;
+const DAY_MS = 86_400_000;
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 50) return 'high';
+  if (score >= 30) return 'medium';
+  return 'low';
+}
+
+export interface RiskSignals {
+  /** Days with a skip in the window. */
+  skip_days: number;
+  /** Paused now, or pauses started in the last PAUSE_WINDOW_DAYS. */
+  paused_now: boolean;
+  recent_pauses: number;
+  payment_status: string | null;
+  /** Payment links that expired unpaid in the window. */
+  unpaid_links: number;
+  /** An overdue reminder went out this cycle. */
+  overdue_reminder: boolean;
+  failed_deliveries: number;
+  last_login_at: Date | null;
+}
+
+/** Score one customer's signals. Pure, so the weights can be read in one place. */
+export function scoreSignals(signals: RiskSignals, now: Date): { score: number; reasons: RiskReason[] } {
+  const reasons: RiskReason[] = [];
+  const add = (signal: string, points: number, detail: string) => reasons.push({ signal, points, detail });
+
+  if (signals.skip_days >= 6) add('skips', 30, `${signals.skip_days} days skipped in the last ${WINDOW_DAYS} days`);
+  else if (signals.skip_days >= 3) add('skips', 20, `${signals.skip_days} days skipped in the last ${WINDOW_DAYS} days`);
+
+  if (signals.paused_now) add('pauses', 20, 'Paused now');
+  else if (signals.recent_pauses >= 2) add('pauses', 25, `${signals.recent_pauses} pauses in the last ${PAUSE_WINDOW_DAYS} days`);
+  else if (signals.recent_pauses === 1) add('pauses', 15, `Paused in the last ${PAUSE_WINDOW_DAYS} days`);
+
+  // One payment heading, however many ways it shows: an overdue customer has
+  // usually also ignored a link and a reminder, and that is one problem.
+  let payment = 0;
+  const paymentDetail: string[] = [];
+  if (signals.payment_status === 'Overdue') { payment += 30; paymentDetail.push('payment overdue'); }
+  if (signals.unpaid_links > 0) {
+    payment += signals.unpaid_links >= 2 ? 25 : 15;
+    paymentDetail.push(`${signals.unpaid_links} payment link${signals.unpaid_links === 1 ? '' : 's'} left unpaid`);
+  }
+  if (signals.overdue_reminder) { payment += 15; paymentDetail.push('sent an overdue reminder'); }
+  if (payment > 0) {
+    const detail = paymentDetail.join(', ');
+    add('payments', Math.min(payment, 35), detail.charAt(0).toUpperCase() + detail.slice(1));
+  }
+
+  if (signals.failed_deliveries >= 3) add('deliveries', 25, `${signals.failed_deliveries} failed deliveries in the last ${WINDOW_DAYS} days`);
+  else if (signals.failed_deliveries >= 1) add('deliveries', 15, `${signals.failed_deliveries} failed deliver${signals.failed_deliveries === 1 ? 'y' : 'ies'} in the last ${WINDOW_DAYS} days`);
+
+  // Only customers who have used the portal can stop using it; most never log in.
+  if (signals.last_login_at) {
+    const idle = Math.floor((now.getTime() - signals.last_login_at.getTime()) / DAY_MS);
+    if (idle > 45) add('portal', 15, `Has not opened the portal in ${idle} days`);
+    else if (idle > 21) add('portal', 10, `Has not opened the portal in ${idle} days`);
+  }
+
+  reasons.sort((a, b) => b.points - a.points);
+  return { score: Math.min(100, reasons.reduce((sum, r) => sum + r.points, 0)), reasons };
+}
+
+/** Count each customer's rows in a list, by customer_id. */
+function countBy<T extends { customer_id: string }>(rows: T[], key?: (row: T) => string) {
+  const seen = new Map<string, Set<string>>();
+  rows.forEach((row, i) => {
+    if (!seen.has(row.customer_id)) seen.set(row.customer_id, new Set());
+    seen.get(row.customer_id)!.add(key ? key(row) : String(i));
+  });
+  return (customerId: string) => seen.get(customerId)?.size ?? 0;
+}
+
+/**
+ * Score one merchant's active customers and store the results. Scores of
+ * customers who are no longer active are removed, so the list only ever shows
+ * customers there is still time to keep.
+ */
+export async function scoreMerchantCustomers(merchantId: string, timezone: string | null) {
+  const today = todayInTimezone(timezone);
+  const now = new Date();
+  const windowStart = addDaysToDateStr(today, -WINDOW_DAYS);
+  const since = new Date(now.getTime() - WINDOW_DAYS * DAY_MS);
+
+  const customers = await prisma.customer.findMany({
+    where: { created_by: merchantId, is_deleted: false, active: true, is_trial: { not: true } },
+    select: {
+      id: true, is_paused: true, payment_status: true, reminder_after_sent: true, last_login_at: true,
+    },
+  });
+  const ids = customers.map((c) => c.id);
+
+  const [skips, pauses, links, failed] = await Promise.all([
+    prisma.tiffinSkip.findMany({
+      where: { customer_id: { in: ids }, status: { not: 'cancelled' }, skip_date: { gte: windowStart, lte: today } },
+      select: { customer_id: true, skip_date: true },
+    }),
+    prisma.customerPause.findMany({
+      where: {
+        customer_id: { in: ids },
+        status: { in: ['active', 'completed'] },
+        start_date: { gte: addDaysToDateStr(today, -PAUSE_WINDOW_DAYS) },
+      },
+      select: { customer_id: true },
+    }),
+    prisma.paymentLink.findMany({
+      where: { customer_id: { in: ids }, status: 'pending', expires_at: { gte: since, lt: now } },
+      select: { customer_id: true },
+    }),
+    prisma.deliveryItem.findMany({
+      where: { customer_id: { in: ids }, created_by: merchantId, failed_at: { gte: since } },
+      select: { customer_id: true, batch_id: true },
+    }),
+  ]);
+  const skipDays = countBy(skips, (s) => s.skip_date);
+  const recentPauses = countBy(pauses);
+  const unpaidLinks = countBy(links);
+  const failedDeliveries = countBy(failed, (f) => f.batch_id);
+
+  const levels: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0 };
+  for (const customer of customers) {
+    const { score, reasons } = scoreSignals(
+      {
+        skip_days: skipDays(customer.id),
+        paused_now: !!customer.is_paused,
+        recent_pauses: recentPauses(customer.id),
+        payment_status: customer.payment_status,
+        unpaid_links: unpaidLinks(customer.id),
+        overdue_reminder: !!customer.reminder_after_sent,
+        failed_deliveries: failedDeliveries(customer.id),
+        last_login_at: customer.last_login_at,
+      },
+      now
+    );
+    const level = riskLevel(score);
+    levels[level]++;
+    await prisma.churnRiskScore.upsert({
+      where: { customer_id: customer.id },
+      create: { customer_id: customer.id, score, level, reasons, scored_on: today, created_by: merchantId },
+      update: { score, level, reasons, scored_on: today },
+    });
+  }
+
+  const removed = await prisma.churnRiskScore.deleteMany({
+    where: { created_by: merchantId, customer_id: { notIn: ids } },
+  });
+  return { scored: customers.length, removed: removed.count, ...levels };
+}
+
+/**
+ * The nightly job: every merchant with active customers — or with scores
+ * left from customers who have all since left — one at a time.
+ */
+export async function runChurnRiskScoring() {
+  const [withCustomers, withScores] = await Promise.all([
+    prisma.customer.findMany({ where: { is_deleted: false, active: true }, select: { created_by: true }, distinct: ['created_by'] }),
+    prisma.churnRiskScore.findMany({ select: { created_by: true }, distinct: ['created_by'] }),
+  ]);
+  const merchantIds = [...new Set([...withCustomers, ...withScores].map((r) => r.created_by))];
+  const merchants = await prisma.user.findMany({
+    where: { id: { in: merchantIds } },
+    select: { id: true, timezone: true },
+  });
+
+  const totals = { merchants: 0, scored: 0, removed: 0, high: 0, medium: 0 };
+  for (const merchant of merchants) {
+    try {
+      const result = await scoreMerchantCustomers(merchant.id, merchant.timezone);
+      totals.merchants++;
+      totals.scored += result.scored;
+      totals.removed += result.removed;
+      totals.high += result.high;
+      totals.medium += result.medium;
+    } catch (err) {
+      console.error(`[ChurnRisk] Failed for merchant ${merchant.id}:`, err);
+    }
+  }
+  return { success: true, ...totals };
+}
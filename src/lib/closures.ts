@@ -0,0 +1,81 @@
+// Kitchen closures: days the merchant's whole kitchen is shut — Eid, Diwali,
+// the owner's own week off.
+//
+// Before this the only way to close was to pause every customer one by one,
+// then resume them one by one, and anyone missed got an order nobody cooked. A
+// closure belongs to the merchant rather than the customer, so it is stored
+// once and read wherever a day off is decided: dayOffReason() in
+// lib/subscriptionDays.ts treats a closed day like a paused one, which keeps
+// the day out of should-deliver-today and the batch builder and pushes every
+// active customer's end date past it.
+
+import { prisma } from './prisma';
+
+export interface ClosureRow {
+  start_date: string;
+  end_date: string;
+}
+
+/** How long one closure may run. Longer than this is a pause, not a holiday. */
+export const MAX_CLOSURE_DAYS = 60;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isClosedOn(closures: ClosureRow[], dateStr: string): boolean {
+  return closures.some((c) => dateStr >= c.start_date && dateStr <= c.end_date);
+}
+
+/** The merchant's closures that end on or after `fromDate`, earliest first. */
+export async function loadClosures(merchantId: string, fromDate: string) {
+  return prisma.kitchenClosure.findMany({
+    where: { created_by: merchantId, end_date: { gte: fromDate } },
+    orderBy: { start_date: 'asc' },
+  });
+}
+
+/** The closure covering a date, if any, for a "kitchen closed" answer with its reason. */
+export async function closureOn(merchantId: string, dateStr: string) {
+  return prisma.kitchenClosure.findFirst({
+    where: { created_by: merchantId, start_date: { lte: dateStr }, end_date: { gte: dateStr } },
+  });
+}
+
+/**
+ * Check a closure as the merchant sent it. Closures start today at the
+ * earliest — a past day has been cooked and counted — and may not overlap
+ * another one, so removing one closure never reopens days another still covers.
+ */
+export async function validateClosure(
+  body: any,
+  merchantId: string,
+  today: string
+): Promise<{ ok: true; closure: ClosureRow & { reason: string | null } } | { ok: false; error: string }> {
+  const start = body?.start_date;
+  const end = body?.end_date || start;
+  if (typeof start !== 'string' || !DATE_RE.test(start) || typeof end !== 'string' || !DATE_RE.test(end)) {
+    return { ok: false, error: 'start_date and end_date must be YYYY-MM-DD' };
+  }
+  if (start < today) return { ok: false, error: 'A closure cannot start in the past' };
+  if (end < start) return { ok: false, error: 'end_date must be on or after start_date' };
+  const days = Math.round((Date.parse(end) - Date.parse(start)) / 86_400_000) + 1;
+  if (days > MAX_CLOSURE_DAYS) return { ok: false, error: `A closure can be at most ${MAX_CLOSURE_DAYS} days` };
+
+  const overlapping = await prisma.kitchenClosure.findFirst({
+    where: { created_by: merchantId, start_date: { lte: end }, end_date: { gte: start } },
+  });
+  if (overlapping) {
+    return { ok: false, error: `Overlaps the closure from ${overlapping.start_date} to ${overlapping.end_date}` };
+  }
+
+  const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 200) : null;
+  return { ok: true, closure: { start_date: start, end_date: end, reason } };
+}
+
+/** "25 Dec" or "25 Dec – 27 Dec", for messages to customers. */
+export function describeClosure(closure: ClosureRow): string {
+  const fmt = (d: string) =>
+    new Date(`${d}T00:00:00.000Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  return closure.start_date === closure.end_date
+    ? fmt(closure.start_date)
+    : `${fmt(closure.start_date)} – ${fmt(closure.end_date)}`;
+}
@@ -0,0 +1,220 @@
+// Shared rules for who gets a delivery stop, and what the stop carries.
+//
+// The manual flow (POST /api/delivery_items through the entities router) and
+// the batch builder (/functions/build-delivery-batches) must produce identical
+// items — same live address per meal, same attribute snapshot — or a label
+// printed from an auto-built run would disagree with one the merchant added by
+// hand. Both go through snapshotCustomerForItem() for that reason.
+
+import { prisma } from './prisma';
+import { isWeekendDate } from './weekend';
+
+/** The Customer fields the delivery rules read. A full Prisma row satisfies it. */
+export interface DeliveryCustomer {
+  full_name: string;
+  phone_number: string | null;
+  address: string | null;
+  breakfast_address: string | null;
+  lunch_address: string | null;
+  dinner_address: string | null;
+  area: string | null;
+  meal_type: string | null;
+  roti_quantity: number | null;
+  rice_type: string | null;
+  special_notes: string | null;
+  attribute_values: unknown;
+  skip_weekends: boolean | null;
+  is_paused: boolean | null;
+  status: string | null;
+  pause_start_date: string | null;
+  pause_resume_date: string | null;
+  pause_start: Date | null;
+  pause_end: Date | null;
+}
+
+/** The Customer fields that decide whether a date is a day off. */
+export type DayOffFields = Pick<
+  DeliveryCustomer,
+  'skip_weekends' | 'is_paused' | 'status' | 'pause_start_date' | 'pause_resume_date' | 'pause_start' | 'pause_end'
+>;
+
+/** The meal-specific address if the customer has one, else their main address. */
+export function liveAddressFor(customer: DeliveryCustomer, mealType: string | null | undefined): string | null {
+  const meal = String(mealType ?? customer.meal_type ?? '').toLowerCase();
+  if (meal.includes('breakfast') && customer.breakfast_address) return customer.breakfast_address;
+  if (meal.includes('lunch') && customer.lunch_address) return customer.lunch_address;
+  if (meal.includes('dinner') && customer.dinner_address) return customer.dinner_address;
+  return customer.address;
+}
+
+/**
+ * What a DeliveryItem copies from the customer at creation. A snapshot, not a
+ * reference: a label printed at 10:00 must not change because the customer
+ * edited their address at 10:05.
+ */
+export function snapshotCustomerForItem(customer: DeliveryCustomer, mealType: string | null | undefined) {
+  return {
+    customer_name: customer.full_name,
+    customer_phone: customer.phone_number,
+    customer_address: liveAddressFor(customer, mealType),
+    area: customer.area,
+    roti_quantity: customer.roti_quantity,
+    rice_type: customer.rice_type,
+    special_notes: customer.special_notes,
+    attribute_values: (customer.attribute_values ?? undefined) as any,
+  };
+}
+
+/**
+ * Whether a skip row takes out the given run. A skip's meal_type is either a
+ * single meal ("Lunch") or, when the portal defaulted it, the customer's whole
+ * plan ("Lunch + Dinner") — which skips every meal in it. Null skips the day.
+ */
+export function skipCoversMeal(skipMealType: string | null | undefined, meal: string): boolean {
+  if (!skipMealType) return true;
+  return skipMealType.toLowerCase().includes(meal.toLowerCase());
+}
+
+/**
+ * Whether the customer is paused on a "YYYY-MM-DD" date. The portal writes
+ * pause_start_date / pause_resume_date (resume day exclusive — it is the first
+ * day food arrives again); older rows carry pause_start / pause_end instead.
+ * is_paused with no dates at all is an open-ended pause.
+ */
+export function isPausedOn(customer: DayOffFields, dateStr: string): boolean {
+  if (customer.is_paused) {
+    if (!customer.pause_start_date && !customer.pause_resume_date) return true;
+    const started = !customer.pause_start_date || customer.pause_start_date <= dateStr;
+    const notResumed = !customer.pause_resume_date || dateStr < customer.pause_resume_date;
+    if (started && notResumed) return true;
+  }
+  if (customer.status === 'paused' && customer.pause_start && customer.pause_end) {
+    const start = customer.pause_start.toISOString().split('T')[0];
+    const end = customer.pause_end.toISOString().split('T')[0];
+    if (dateStr >= start && dateStr <= end) return true;
+  }
+  return false;
+}
+
+/** True when the customer's weekend-skip setting takes this date out. */
+export function isWeekendSkipped(customer: DayOffFields, dateStr: string): boolean {
+  return !!customer.skip_weekends && isWeekendDate(dateStr);
+}
+
+// ─── Stop outcomes ──────────────────────────────────────────────
+//
+// A stop is open until it is delivered or has failed for good. A failure the
+// driver flags for reattempt stays open — it is still on the run, just later —
+// so it does not count towards completing the batch.
+
+/**
+ * Why a stop failed. A fixed list rather than free text so the merchant can
+ * count them ("gate locked" six times this week at the same tower is a
+ * conversation with the customer); the driver's own words go in notes.
+ */
+export const FAILURE_REASONS: Record<string, string> = {
+  customer_not_home: 'Customer not home',
+  gate_locked: 'Gate or building locked',
+  wrong_address: 'Wrong or incomplete address',
+  customer_unreachable: 'Customer not answering',
+  refused: 'Customer refused delivery',
+  access_denied: 'No access (security, parking)',
+  damaged: 'Tiffin damaged in transit',
+  other: 'Other',
+};
+
+export const OPEN_ITEM_STATUSES = ['pending', 'reattempt'];
+
+/**
+ * Recount a batch from its items after any stop changes state. Counting rather
+ * than incrementing means a double tap or a retried request cannot drift the
+ * totals. Completed once every stop is either delivered or failed for good.
+ */
+export async function refreshBatchProgress(batchId: string) {
+  const [total, delivered, failed] = await Promise.all([
+    prisma.deliveryItem.count({ where: { batch_id: batchId } }),
+    prisma.deliveryItem.count({ where: { batch_id: batchId, status: 'delivered' } }),
+    prisma.deliveryItem.count({ where: { batch_id: batchId, status: 'failed' } }),
+  ]);
+  const closed = delivered + failed;
+  return prisma.deliveryBatch.update({
+    where: { id: batchId },
+    data: {
+      delivered_count: delivered,
+      failed_count: failed,
+      status: total > 0 && closed >= total ? 'completed' : closed > 0 ? 'in_progress' : 'pending',
+    },
+  });
+}
+
+/**
+ * Which run — "Lunch" or "Dinner" — a stop belongs to, for stamping its Order.
+ * The batch says so when the builder made it; otherwise the item's own meal
+ * decides when it names exactly one of the two. Breakfast has no stamp column.
+ */
+export function runMealFor(
+  item: { meal_type: string | null },
+  batch: { meal_type?: string | null }
+): 'Lunch' | 'Dinner' | null {
+  if (batch.meal_type === 'Lunch' || batch.meal_type === 'Dinner') return batch.meal_type;
+  const meal = (item.meal_type || '').toLowerCase();
+  const lunch = meal.includes('lunch');
+  const dinner = meal.includes('dinner');
+  if (lunch && !dinner) return 'Lunch';
+  if (dinner && !lunch) return 'Dinner';
+  return null;
+}
+
+/**
+ * The Order a stop delivers. Builder-made items carry order_id; items made by
+ * hand are matched on customer and date to an order whose plan includes the
+ * stop's meals — its run, or every meal a "Lunch + Dinner" or Breakfast item
+ * names — or failing that one of them. A stop never takes another meal's
+ * order: a Dinner stop for a customer with only a Lunch order that day links
+ * to nothing, rather than stamping the Lunch run. A stop with no meal at all
+ * links only when the day has a single order.
+ */
+export async function findLinkedOrder(
+  item: { order_id: string | null; customer_id: string; created_by: string; meal_type: string | null },
+  batch: { delivery_date: string; meal_type?: string | null }
+) {
+  if (item.order_id) {
+    return prisma.order.findFirst({ where: { id: item.order_id, created_by: item.created_by } });
+  }
+  const candidates = await prisma.order.findMany({
+    where: { created_by: item.created_by, customer_id: item.customer_id, order_date: batch.delivery_date },
+  });
+  const names = (mealType: string | null, meal: string) => (mealType || '').toLowerCase().includes(meal.toLowerCase());
+  const run = runMealFor(item, batch);
+  const meals = run ? [run] : ['Breakfast', 'Lunch', 'Dinner'].filter((m) => names(item.meal_type, m));
+  if (meals.length === 0) return candidates.length === 1 ? candidates[0] : null;
+  return candidates.find((o) => meals.every((m) => names(o.meal_type, m)))
+    || candidates.find((o) => meals.some((m) => names(o.meal_type, m)))
+    || null;
+}
+
+// ─── Proof of delivery ──────────────────────────────────────────
+
+export const DEFAULT_POD_RETENTION_DAYS = 14;
+export const DEFAULT_POD_DISPUTE_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a stop's photo may be deleted. Failed, reattempted and disputed stops
+ * keep proof for the merchant's longer dispute window; everything else for the
+ * ordinary one. Measured from the last thing that happened to the stop, so a
+ * dispute raised on day 13 of a 14-day window still gets the full long window.
+ */
+export function proofRetentionUntil(
+  item: { status: string | null; delivered_at: Date | null; failed_at: Date | null; disputed_at: Date | null; created_at: Date },
+  merchant: { pod_retention_days?: number | null; pod_dispute_retention_days?: number | null }
+): Date {
+  const contested = !!item.disputed_at || item.status === 'failed' || item.status === 'reattempt';
+  const days = contested
+    ? merchant.pod_dispute_retention_days ?? DEFAULT_POD_DISPUTE_RETENTION_DAYS
+    : merchant.pod_retention_days ?? DEFAULT_POD_RETENTION_DAYS;
+  const times = [item.delivered_at, item.failed_at, item.disputed_at, item.created_at]
+    .filter((d): d is Date => !!d)
+    .map((d) => d.getTime());
+  return new Date(Math.max(...times) + days * DAY_MS);
+}
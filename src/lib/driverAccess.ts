@@ -0,0 +1,124 @@
+// Driver access codes: minting, rotation, and the login record.
+//
+// A driver signs in to the /driver app with nothing but an access code, and the
+// lookup spans every merchant — so the code is the whole credential. It used to
+// be one static value per driver, valid forever on any phone: a driver who left
+// and kept the WhatsApp message could still open the run list. Codes can now be
+// rotated and revoked, carry an optional expiry, and optionally bind to the
+// first device that uses them.
+//
+// Rotation, revocation and deactivation all bump Driver.token_version, which is
+// carried in the driver JWT as `tv`. The middleware rejects a token whose `tv`
+// no longer matches, so the old code's sessions end immediately rather than at
+// the JWT's 12-hour expiry.
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no look-alikes
+const CODE_LENGTH = 8;
+
+/**
+ * A fresh access code: 8 characters from a CSPRNG. 32 symbols divides 256, so
+ * taking each byte modulo the alphabet is unbiased.
+ */
+export function mintAccessCode(): string {
+  return Array.from(crypto.randomBytes(CODE_LENGTH))
+    .map((b) => CODE_ALPHABET[b % CODE_ALPHABET.length])
+    .join('');
+}
+
+export function isAccessCodeExpired(driver: { access_code_expires_at: Date | null }, now = new Date()): boolean {
+  return !!driver.access_code_expires_at && driver.access_code_expires_at <= now;
+}
+
+/**
+ * Parse an expiry from a request: `expires_at` (ISO date) wins, else
+ * `expires_in_days`. Returns null for "never", undefined to leave the current
+ * value alone, or an error string.
+ */
+export function parseCodeExpiry(body: { expires_at?: unknown; expires_in_days?: unknown }): Date | null | undefined | string {
+  if (body.expires_at === null || body.expires_in_days === null) return null;
+  if (body.expires_at !== undefined && body.expires_at !== '') {
+    const at = new Date(String(body.expires_at));
+    if (isNaN(at.getTime())) return 'expires_at must be a valid date';
+    if (at <= new Date()) return 'expires_at must be in the future';
+    return at;
+  }
+  if (body.expires_in_days !== undefined && body.expires_in_days !== '') {
+    const days = Number(body.expires_in_days);
+    if (!Number.isInteger(days) || days < 1 || days > 365) return 'expires_in_days must be a whole number from 1 to 365';
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+export interface LoginAttempt {
+  driver_id: string;
+  created_by: string;
+  success: boolean;
+  failure_reason?: string | null;
+  device_id?: string | null;
+  device_name?: string | null;
+  platform?: string | null;
+  ip?: string | null;
+  user_agent?: string | null;
+}
+
+/**
+ * Record a sign-in attempt against a known driver. Attempts with a code that
+ * matches nobody are not stored: there is no merchant to show them to, and the
+ * rate limiter on /api/driver/auth already bounds guessing. Never throws — a
+ * failed audit write must not lock a driver out at the start of a run.
+ */
+export async function recordDriverLogin(attempt: LoginAttempt) {
+  const clip = (v: string | null | undefined, n: number) => (v ? String(v).slice(0, n) : null);
+  try {
+    await prisma.driverLogin.create({
+      data: {
+        driver_id: attempt.driver_id,
+        created_by: attempt.created_by,
+        success: attempt.success,
+        failure_reason: attempt.failure_reason ?? null,
+        device_id: clip(attempt.device_id, 200),
+        device_name: clip(attempt.device_name, 200),
+        platform: clip(attempt.platform, 50),
+        ip: clip(attempt.ip, 100),
+        user_agent: clip(attempt.user_agent, 500),
+      },
+    });
+  } catch (err: any) {
+    console.error('[Driver Login] Failed to record attempt:', err?.message || err);
+  }
+}
+
+/**
+ * Issue a new code and end every session on the old one. The device binding is
+ * cleared too: a rotation is usually a new phone or a new driver, and either
+ * way the first device to sign in with the new code is the one to trust.
+ */
+export async function rotateAccessCode(driverId: string, expiresAt: Date | null | undefined) {
+  return prisma.driver.update({
+    where: { id: driverId },
+    data: {
+      access_code: mintAccessCode(),
+      access_code_rotated_at: new Date(),
+      ...(expiresAt !== undefined ? { access_code_expires_at: expiresAt } : {}),
+      bound_device_id: null,
+      token_version: { increment: 1 },
+    },
+  });
+}
+
+/** Remove the code entirely. The driver cannot sign in until a new one is issued. */
+export async function revokeAccessCode(driverId: string) {
+  return prisma.driver.update({
+    where: { id: driverId },
+    data: {
+      access_code: null,
+      access_code_expires_at: null,
+      bound_device_id: null,
+      token_version: { increment: 1 },
+    },
+  });
+}
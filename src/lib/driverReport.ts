@@ -0,0 +1,246 @@
+// Driver performance and payout, per driver over a date range.
+//
+// Merchants pay drivers per drop and had no numbers to pay from. Everything
+// here is derived from rows that already exist — batches, their items and the
+// driver's location track — so the report can be run for any past range, not
+// only from the day it shipped.
+
+import { prisma } from './prisma';
+import { runMealFor } from './deliveries';
+import { batchTrackDistances } from './driverTracks';
+
+export interface DeliveryWindow {
+  /** Minutes after local midnight. */
+  start: number;
+  end: number;
+}
+
+/** Parse "HH:MM-HH:MM" (24-hour, same day). Null if malformed or end ≤ start. */
+export function parseDeliveryWindow(value: unknown): DeliveryWindow | null {
+  if (typeof value !== 'string') return null;
+  const m = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(value);
+  if (!m) return null;
+  const [h1, m1, h2, m2] = m.slice(1).map(Number);
+  if (h1 > 23 || h2 > 23 || m1 > 59 || m2 > 59) return null;
+  const start = h1 * 60 + m1;
+  const end = h2 * 60 + m2;
+  return end > start ? { start, end } : null;
+}
+
+/** Calendar date and minutes-after-midnight of an instant in a timezone. */
+function localClock(at: Date, timezone: string): { date: string; minutes: number } {
+  const format = (tz: string) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: tz,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(at);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || '00';
+    return {
+      date: `${get('year')}-${get('month')}-${get('day')}`,
+      minutes: Number(get('hour')) * 60 + Number(get('minute')),
+    };
+  };
+  try {
+    return format(timezone);
+  } catch {
+    return format('UTC');
+  }
+}
+
+/**
+ * On time means delivered by the end of the promised window on the batch's
+ * delivery date. Early counts as on time — a lunch tiffin at 11:15 for a
+ * 11:30–13:30 window is not a complaint — but is counted separately so a
+ * merchant can see a driver racing through a run.
+ */
+function punctuality(deliveredAt: Date, deliveryDate: string, window: DeliveryWindow, timezone: string) {
+  const local = localClock(deliveredAt, timezone);
+  if (local.date < deliveryDate) return 'early';
+  if (local.date > deliveryDate) return 'late';
+  if (local.minutes < window.start) return 'early';
+  return local.minutes <= window.end ? 'on_time' : 'late';
+}
+
+interface DriverRow {
+  driver_id: string;
+  driver_name: string;
+  batches: number;
+  stops: number;
+  delivered: number;
+  failed: number;
+  open: number;
+  on_time: number;
+  early: number;
+  late: number;
+  /** Delivered stops measured against a window. */
+  window_measured: number;
+  on_time_rate: number | null;
+  avg_minutes_per_stop: number | null;
+  distance_km: number;
+  pay_drops: number;
+  pay_distance: number;
+  payout: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Build the report. Failed stops are reported but not paid: the per-drop rate
+ * is for a drop. Distance is paid as tracked — compacted tracks plus today's raw
+ * pings, what the batch replay shows, except that a point in two overlapping
+ * runs is counted in one — so a driver whose app was not sending location is
+ * paid for drops only, and the row says distance 0.
+ *
+ * Minutes per stop is the time between the first and last stop the driver
+ * closed on each run, over the number of gaps between them. The drive from the
+ * kitchen to the first stop is not in it; there is no reliable start time for
+ * that leg.
+ */
+export async function buildDriverReport(merchantId: string, from: string, to: string) {
+  const merchant = await prisma.user.findUnique({
+    where: { id: merchantId },
+    select: {
+      timezone: true, currency: true,
+      lunch_delivery_window: true, dinner_delivery_window: true,
+      driver_pay_per_drop: true, driver_pay_per_km: true,
+    },
+  });
+  const timezone = merchant?.timezone || 'UTC';
+  const perDrop = merchant?.driver_pay_per_drop ?? 0;
+  const perKm = merchant?.driver_pay_per_km ?? 0;
+  const windows: Record<'Lunch' | 'Dinner', DeliveryWindow | null> = {
+    Lunch: parseDeliveryWindow(merchant?.lunch_delivery_window),
+    Dinner: parseDeliveryWindow(merchant?.dinner_delivery_window),
+  };
+
+  const batches = await prisma.deliveryBatch.findMany({
+    where: { created_by: merchantId, delivery_date: { gte: from, lte: to } },
+    orderBy: { delivery_date: 'asc' },
+  });
+  const assigned = batches.filter((b) => b.driver_id);
+
+  const [items, drivers] = await Promise.all([
+    prisma.deliveryItem.findMany({
+      where: { created_by: merchantId, batch_id: { in: assigned.map((b) => b.id) } },
+      select: { batch_id: true, status: true, meal_type: true, delivered_at: true, failed_at: true },
+    }),
+    prisma.driver.findMany({
+      where: { created_by: merchantId, id: { in: [...new Set(assigned.map((b) => b.driver_id!))] } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const itemsByBatch = new Map<string, typeof items>();
+  for (const item of items) {
+    if (!itemsByBatch.has(item.batch_id)) itemsByBatch.set(item.batch_id, []);
+    itemsByBatch.get(item.batch_id)!.push(item);
+  }
+  const driverName = new Map(drivers.map((d) => [d.id, d.name]));
+
+  const rows = new Map<string, DriverRow & { stopSpanMs: number; stopGaps: number; distanceM: number }>();
+  const tracked: { id: string; driver_id: string | null; stopTimes: Date[] }[] = [];
+  for (const batch of assigned) {
+    const driverId = batch.driver_id!;
+    if (!rows.has(driverId)) {
+      rows.set(driverId, {
+        driver_id: driverId,
+        driver_name: driverName.get(driverId) || batch.driver_name || 'Unknown driver',
+        batches: 0, stops: 0, delivered: 0, failed: 0, open: 0,
+        on_time: 0, early: 0, late: 0, window_measured: 0, on_time_rate: null,
+        avg_minutes_per_stop: null, distance_km: 0, pay_drops: 0, pay_distance: 0, payout: 0,
+        stopSpanMs: 0, stopGaps: 0, distanceM: 0,
+      });
+    }
+    const row = rows.get(driverId)!;
+    const batchItems = itemsByBatch.get(batch.id) || [];
+    row.batches++;
+    row.stops += batchItems.length;
+
+    const closedTimes: number[] = [];
+    for (const item of batchItems) {
+      if (item.status === 'delivered') {
+        row.delivered++;
+        if (item.delivered_at) {
+          closedTimes.push(item.delivered_at.getTime());
+          const meal = runMealFor(item, batch);
+          const window = meal ? windows[meal] : null;
+          if (window) {
+            row.window_measured++;
+            row[punctuality(item.delivered_at, batch.delivery_date, window, timezone)]++;
+          }
+        }
+      } else if (item.status === 'failed') {
+        row.failed++;
+        if (item.failed_at) closedTimes.push(item.failed_at.getTime());
+      } else {
+        row.open++;
+      }
+    }
+    if (closedTimes.length >= 2) {
+      row.stopSpanMs += Math.max(...closedTimes) - Math.min(...closedTimes);
+      row.stopGaps += closedTimes.length - 1;
+    }
+
+    tracked.push({ id: batch.id, driver_id: driverId, stopTimes: closedTimes.map((t) => new Date(t)) });
+  }
+
+  const distances = await batchTrackDistances(tracked);
+  for (const batch of tracked) rows.get(batch.driver_id!)!.distanceM += distances.get(batch.id) || 0;
+
+  const result: DriverRow[] = [...rows.values()].map(({ stopSpanMs, stopGaps, distanceM, ...row }) => {
+    const km = distanceM / 1000;
+    const payDrops = row.delivered * perDrop;
+    const payDistance = km * perKm;
+    return {
+      ...row,
+      on_time_rate: row.window_measured ? round2((row.on_time + row.early) / row.window_measured) : null,
+      avg_minutes_per_stop: stopGaps ? round2(stopSpanMs / stopGaps / 60000) : null,
+      distance_km: round2(km),
+      pay_drops: round2(payDrops),
+      pay_distance: round2(payDistance),
+      payout: round2(payDrops + payDistance),
+    };
+  }).sort((a, b) => a.driver_name.localeCompare(b.driver_name));
+
+  return {
+    from,
+    to,
+    currency: merchant?.currency || 'USD',
+    timezone,
+    rates: { per_drop: perDrop, per_km: perKm },
+    windows: {
+      lunch: merchant?.lunch_delivery_window || null,
+      dinner: merchant?.dinner_delivery_window || null,
+    },
+    unassigned_batches: batches.length - assigned.length,
+    drivers: result,
+    totals: {
+      batches: result.reduce((s, r) => s + r.batches, 0),
+      delivered: result.reduce((s, r) => s + r.delivered, 0),
+      failed: result.reduce((s, r) => s + r.failed, 0),
+      distance_km: round2(result.reduce((s, r) => s + r.distance_km, 0)),
+      payout: round2(result.reduce((s, r) => s + r.payout, 0)),
+    },
+  };
+}
+
+const CSV_COLUMNS: Array<keyof DriverRow> = [
+  'driver_name', 'batches', 'stops', 'delivered', 'failed', 'open',
+  'on_time', 'early', 'late', 'on_time_rate', 'avg_minutes_per_stop',
+  'distance_km', 'pay_drops', 'pay_distance', 'payout',
+];
+
+function csvCell(value: unknown): string {
+  if (value == null) return '';
+  const text = String(value);
+  // Quote anything with a separator, quote or newline; prefix formula
+  // starters so a driver named "=HYPERLINK(…)" stays text in a spreadsheet.
+  const safe = typeof value === 'string' && /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function driverReportCsv(report: Awaited<ReturnType<typeof buildDriverReport>>): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of report.drivers) lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(','));
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,313 @@
+// Driver location history: nightly compaction and batch replay.
+//
+// Every ping from the driver app is a DriverLocation row — one every few
+// seconds while a run is open — and they were simply deleted after a day, so
+// nobody could ever see where a driver had actually gone. Compaction keeps the
+// shape of each run and drops the bulk: a day's pings per driver and batch
+// become one DriverTrack with a Douglas–Peucker-simplified polyline, and the
+// raw rows are then removed.
+//
+// Track points are stored as [latitude, longitude, epoch-ms] triples. Compact
+// JSON matters here: this table grows by a row per driver per run, forever.
+
+import { prisma } from './prisma';
+import { LatLng, isValidLatLng, pathLengthMeters, simplifyPath } from './geo';
+
+export type TrackPoint = [number, number, number];
+
+/** Points closer than this to the simplified line are dropped. */
+const SIMPLIFY_TOLERANCE_M = 10;
+/** Fixes worse than this are noise — a phone indoors reporting a guess. */
+const MAX_ACCURACY_M = 100;
+/** Pings younger than this are left for the live map and the ETA. */
+const MIN_AGE_MS = 60 * 60 * 1000;
+/** The driver's current location is kept until it is this stale. */
+const ACTIVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+/** An untagged batch's window: from this long before its first closed stop… */
+const WINDOW_BEFORE_MS = 60 * 60 * 1000;
+/** …to this long after its last. */
+const WINDOW_AFTER_MS = 15 * 60 * 1000;
+
+const toTrackPoint = (p: { latitude: number; longitude: number; created_at: Date }): TrackPoint =>
+  [p.latitude, p.longitude, p.created_at.getTime()];
+
+const asLatLng = (p: TrackPoint): LatLng => ({ latitude: p[0], longitude: p[1] });
+
+/** Simplify a time-ordered list of points, always keeping the first and last. */
+export function simplifyTrack(points: TrackPoint[]): TrackPoint[] {
+  return simplifyPath(points.map(asLatLng), SIMPLIFY_TOLERANCE_M).map((i) => points[i]);
+}
+
+function usable(p: { latitude: number; longitude: number; accuracy: number | null }) {
+  return isValidLatLng(p.latitude, p.longitude) && (p.accuracy == null || p.accuracy <= MAX_ACCURACY_M);
+}
+
+/**
+ * Compact raw DriverLocation rows into DriverTracks and delete them.
+ *
+ * Rows from the last hour are left alone (the live map and ETA read them), as
+ * is each driver's current location until it is a day old. A run that spans
+ * the nightly job is merged into the same track the next night: tracks are
+ * keyed by driver, batch and UTC date, and new points are appended and the
+ * whole line re-simplified.
+ *
+ * Distance is measured on the raw points before simplification, since
+ * simplifying cuts corners and would under-report what the driver drove.
+ */
+export async function runDriverLocationCompaction() {
+  const now = Date.now();
+  const settled = new Date(now - MIN_AGE_MS);
+  const stale = new Date(now - ACTIVE_MAX_AGE_MS);
+  const where = {
+    created_at: { lt: settled },
+    OR: [{ is_active: false }, { created_at: { lt: stale } }],
+  };
+
+  const driverIds = (await prisma.driverLocation.findMany({
+    where,
+    distinct: ['driver_id'],
+    select: { driver_id: true },
+  })).map((r) => r.driver_id);
+
+  const drivers = await prisma.driver.findMany({
+    where: { id: { in: driverIds } },
+    select: { id: true, created_by: true },
+  });
+  const merchantByDriver = new Map(drivers.map((d) => [d.id, d.created_by]));
+
+  let tracksWritten = 0;
+  let pointsCompacted = 0;
+  let pointsDeleted = 0;
+
+  // One driver at a time, so memory is bounded by the busiest driver's day
+  // rather than everyone's.
+  for (const driverId of driverIds) {
+    const rows = await prisma.driverLocation.findMany({
+      where: { ...where, driver_id: driverId },
+      orderBy: { created_at: 'asc' },
+    });
+    const merchantId = merchantByDriver.get(driverId);
+
+    // A deleted driver leaves points nobody can own; they are just pruned.
+    if (merchantId) {
+      const groups = new Map<string, typeof rows>();
+      for (const row of rows) {
+        if (!usable(row)) continue;
+        const key = `${row.batch_id ?? ''}|${row.created_at.toISOString().slice(0, 10)}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(row);
+      }
+
+      for (const [key, points] of groups) {
+        const [batchKey, trackDate] = key.split('|');
+        const batchId = batchKey || null;
+        const raw = points.map(toTrackPoint);
+        const distance = pathLengthMeters(raw.map(asLatLng));
+
+        const existing = await prisma.driverTrack.findFirst({
+          where: { driver_id: driverId, batch_id: batchId, track_date: trackDate },
+        });
+        if (existing) {
+          const previous = (existing.points as unknown as TrackPoint[]) || [];
+          const last = previous[previous.length - 1];
+          const bridge = last ? pathLengthMeters([asLatLng(last), asLatLng(raw[0])]) : 0;
+          const merged = simplifyTrack([...previous, ...raw].sort((a, b) => a[2] - b[2]));
+          await prisma.driverTrack.update({
+            where: { id: existing.id },
+            data: {
+              points: merged as any,
+              point_count: merged.length,
+              raw_point_count: existing.raw_point_count + raw.length,
+              distance_m: Math.round(existing.distance_m + bridge + distance),
+              started_at: new Date(Math.min(existing.started_at.getTime(), raw[0][2])),
+              ended_at: new Date(Math.max(existing.ended_at.getTime(), raw[raw.length - 1][2])),
+            },
+          });
+        } else {
+          const simplified = simplifyTrack(raw);
+          await prisma.driverTrack.create({
+            data: {
+              driver_id: driverId,
+              batch_id: batchId,
+              track_date: trackDate,
+              points: simplified as any,
+              point_count: simplified.length,
+              raw_point_count: raw.length,
+              distance_m: Math.round(distance),
+              started_at: new Date(raw[0][2]),
+              ended_at: new Date(raw[raw.length - 1][2]),
+              created_by: merchantId,
+            },
+          });
+        }
+        tracksWritten++;
+        pointsCompacted += raw.length;
+      }
+    }
+
+    // Delete exactly the rows read, by id, so a ping that lands mid-run is
+    // never removed without having been compacted.
+    const ids = rows.map((r) => r.id);
+    for (let i = 0; i < ids.length; i += 1000) {
+      const result = await prisma.driverLocation.deleteMany({ where: { id: { in: ids.slice(i, i + 1000) } } });
+      pointsDeleted += result.count;
+    }
+  }
+
+  return { drivers: driverIds.length, tracksWritten, pointsCompacted, pointsDeleted };
+}
+
+/**
+ * Everything known about where a batch's driver went: compacted tracks plus
+ * any raw pings not yet compacted (today's run), merged and time-ordered.
+ *
+ * Pings are tagged with batch_id only if the driver app sent one. When a batch
+ * has none, the driver's untagged points are used instead, cropped to the
+ * window between an hour before the first stop closed and fifteen minutes
+ * after the last.
+ */
+export async function loadBatchTrack(batch: { id: string; driver_id: string | null }, stopTimes: Date[]) {
+  const tagged = await Promise.all([
+    prisma.driverTrack.findMany({ where: { batch_id: batch.id }, orderBy: { started_at: 'asc' } }),
+    prisma.driverLocation.findMany({ where: { batch_id: batch.id }, orderBy: { created_at: 'asc' } }),
+  ]);
+
+  let tracks = tagged[0];
+  let raw = tagged[1];
+  let source: 'batch' | 'driver_window' = 'batch';
+
+  if (tracks.length === 0 && raw.length === 0 && batch.driver_id && stopTimes.length > 0) {
+    const times = stopTimes.map((t) => t.getTime());
+    const from = new Date(Math.min(...times) - WINDOW_BEFORE_MS);
+    const to = new Date(Math.max(...times) + WINDOW_AFTER_MS);
+    source = 'driver_window';
+    [tracks, raw] = await Promise.all([
+      prisma.driverTrack.findMany({
+        where: { driver_id: batch.driver_id, batch_id: null, started_at: { lte: to }, ended_at: { gte: from } },
+        orderBy: { started_at: 'asc' },
+      }),
+      prisma.driverLocation.findMany({
+        where: { driver_id: batch.driver_id, batch_id: null, created_at: { gte: from, lte: to } },
+        orderBy: { created_at: 'asc' },
+      }),
+    ]);
+    const inWindow = (p: TrackPoint) => p[2] >= from.getTime() && p[2] <= to.getTime();
+    const compacted = tracks.flatMap((t) => (t.points as unknown as TrackPoint[]).filter(inWindow));
+    const live = raw.filter(usable).map(toTrackPoint);
+    return finishTrack(compacted, live, source);
+  }
+
+  const compacted = tracks.flatMap((t) => (t.points as unknown as TrackPoint[]) || []);
+  const live = raw.filter(usable).map(toTrackPoint);
+  return finishTrack(compacted, live, source, tracks.reduce((s, t) => s + t.distance_m, 0));
+}
+
+/**
+ * Tracked distance for many batches at once — the driver report's figure, in
+ * four queries however many batches, rather than loadBatchTrack() for each.
+ *
+ * A batch with no tagged pings takes the driver's untagged ones from its
+ * window, as loadBatchTrack() does. When two of a driver's windows overlap
+ * (a lunch run closing late, a second run starting early), each point goes
+ * to one batch only — the one whose closed stops it is nearest — so the same
+ * kilometres are not counted, and paid, twice.
+ */
+export async function batchTrackDistances(
+  batches: { id: string; driver_id: string | null; stopTimes: Date[] }[]
+): Promise<Map<string, number>> {
+  const distances = new Map<string, number>();
+  if (batches.length === 0) return distances;
+
+  const [tracks, raw] = await Promise.all([
+    prisma.driverTrack.findMany({
+      where: { batch_id: { in: batches.map((b) => b.id) } },
+      select: { batch_id: true, distance_m: true },
+    }),
+    prisma.driverLocation.findMany({
+      where: { batch_id: { in: batches.map((b) => b.id) } },
+      orderBy: { created_at: 'asc' },
+    }),
+  ]);
+  const tagged = new Set<string>();
+  for (const track of tracks) {
+    tagged.add(track.batch_id!);
+    distances.set(track.batch_id!, (distances.get(track.batch_id!) || 0) + track.distance_m);
+  }
+  const liveByBatch = new Map<string, TrackPoint[]>();
+  for (const row of raw) {
+    tagged.add(row.batch_id!);
+    if (!usable(row)) continue;
+    if (!liveByBatch.has(row.batch_id!)) liveByBatch.set(row.batch_id!, []);
+    liveByBatch.get(row.batch_id!)!.push(toTrackPoint(row));
+  }
+  for (const [batchId, live] of liveByBatch) {
+    distances.set(batchId, (distances.get(batchId) || 0) + pathLengthMeters(live.map(asLatLng)));
+  }
+
+  const windows = batches
+    .filter((b) => !tagged.has(b.id) && b.driver_id && b.stopTimes.length > 0)
+    .map((b) => {
+      const times = b.stopTimes.map((t) => t.getTime());
+      const first = Math.min(...times);
+      const last = Math.max(...times);
+      return { id: b.id, driver_id: b.driver_id!, first, last, from: first - WINDOW_BEFORE_MS, to: last + WINDOW_AFTER_MS };
+    });
+  if (windows.length > 0) {
+    const from = new Date(Math.min(...windows.map((w) => w.from)));
+    const to = new Date(Math.max(...windows.map((w) => w.to)));
+    const driverIds = [...new Set(windows.map((w) => w.driver_id))];
+    const [untaggedTracks, untaggedRaw] = await Promise.all([
+      prisma.driverTrack.findMany({
+        where: { driver_id: { in: driverIds }, batch_id: null, started_at: { lte: to }, ended_at: { gte: from } },
+        select: { driver_id: true, points: true },
+      }),
+      prisma.driverLocation.findMany({
+        where: { driver_id: { in: driverIds }, batch_id: null, created_at: { gte: from, lte: to } },
+      }),
+    ]);
+    const pointsOf = [
+      ...untaggedTracks.flatMap((t) => ((t.points as unknown as TrackPoint[]) || []).map((p) => ({ driver_id: t.driver_id, p }))),
+      ...untaggedRaw.filter(usable).map((r) => ({ driver_id: r.driver_id, p: toTrackPoint(r) })),
+    ];
+
+    const byBatch = new Map<string, TrackPoint[]>();
+    for (const { driver_id, p } of pointsOf) {
+      let best: (typeof windows)[number] | null = null;
+      let bestGap = Infinity;
+      for (const w of windows) {
+        if (w.driver_id !== driver_id || p[2] < w.from || p[2] > w.to) continue;
+        const gap = p[2] < w.first ? w.first - p[2] : p[2] > w.last ? p[2] - w.last : 0;
+        if (gap < bestGap) {
+          best = w;
+          bestGap = gap;
+        }
+      }
+      if (!best) continue;
+      if (!byBatch.has(best.id)) byBatch.set(best.id, []);
+      byBatch.get(best.id)!.push(p);
+    }
+    for (const [batchId, points] of byBatch) {
+      const line = simplifyTrack(points.sort((a, b) => a[2] - b[2]));
+      distances.set(batchId, pathLengthMeters(line.map(asLatLng)));
+    }
+  }
+
+  for (const [batchId, distance] of distances) distances.set(batchId, Math.round(distance));
+  return distances;
+}
+
+function finishTrack(compacted: TrackPoint[], live: TrackPoint[], source: 'batch' | 'driver_window', compactedDistance?: number) {
+  const points = simplifyTrack([...compacted, ...live].sort((a, b) => a[2] - b[2]));
+  // Compacted distance was measured on raw points and is the better number;
+  // live points are still raw, so their length is measured directly.
+  const distance = compactedDistance != null
+    ? compactedDistance + pathLengthMeters(live.map(asLatLng))
+    : pathLengthMeters(points.map(asLatLng));
+  return {
+    source,
+    points: points.map(([latitude, longitude, t]) => ({ latitude, longitude, recorded_at: new Date(t).toISOString() })),
+    distance_m: Math.round(distance),
+    started_at: points.length ? new Date(points[0][2]).toISOString() : null,
+    ended_at: points.length ? new Date(points[points.length - 1][2]).toISOString() : null,
+  };
+}
@@ -0,0 +1,273 @@
+// Arrival estimates for customers waiting on a driver.
+//
+// Customers were phoning the kitchen to ask "how long?" because the portal
+// showed a dot on a map and nothing else. This turns the planned stop order
+// (lib/routePlanner.ts) and the driver's recent location pings into a stop
+// count and a rough time. It is an estimate from straight lines and recent
+// speed — no traffic, no routing engine — so it is shown as minutes, never as
+// a clock time to the second.
+
+import { prisma } from './prisma';
+import { LatLng, estimateRoadMeters, haversineMeters, isValidLatLng } from './geo';
+import { OPEN_ITEM_STATUSES } from './deliveries';
+import { geocodeAddress } from '../services/geocoding';
+import { sendPushToCustomer } from '../services/pushNotification';
+
+/** Time at each stop before the driver moves on: park, climb, hand over. */
+export const DWELL_SECONDS_PER_STOP = 120;
+/** Used when there are no usable pings yet — a city delivery average. */
+export const DEFAULT_SPEED_MPS = 20 / 3.6;
+// Speeds outside this band are GPS noise (a driver waiting at a lift reads
+// ~0; a bad fix can read 200 km/h), so estimates are clamped into it.
+const MIN_SPEED_MPS = 8 / 3.6;
+const MAX_SPEED_MPS = 60 / 3.6;
+const SAMPLE_WINDOW_MS = 15 * 60 * 1000;
+
+export interface SpeedSample extends LatLng {
+  speed: number | null;
+  created_at: Date;
+}
+
+export type SpeedSource = 'gps' | 'track' | 'default';
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const clampSpeed = (mps: number) => Math.min(MAX_SPEED_MPS, Math.max(MIN_SPEED_MPS, mps));
+
+/**
+ * Typical moving speed from recent pings. The phone's own speed reading is
+ * preferred; without one, speed is derived from distance over time between
+ * consecutive pings. Stationary readings are dropped rather than averaged in —
+ * a driver standing at a door is not slowing the drive to the next one, and
+ * the dwell allowance already covers the stop.
+ */
+export function estimateSpeed(samples: SpeedSample[]): { mps: number; source: SpeedSource } {
+  const moving = samples.map((s) => s.speed).filter((v): v is number => v != null && v > 1);
+  if (moving.length >= 3) return { mps: clampSpeed(median(moving)), source: 'gps' };
+
+  const ordered = [...samples].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  const derived: number[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const seconds = (ordered[i].created_at.getTime() - ordered[i - 1].created_at.getTime()) / 1000;
+    if (seconds < 5) continue;
+    const mps = haversineMeters(ordered[i - 1], ordered[i]) / seconds;
+    if (mps > 1) derived.push(mps);
+  }
+  if (derived.length >= 2) return { mps: clampSpeed(median(derived)), source: 'track' };
+
+  return { mps: DEFAULT_SPEED_MPS, source: 'default' };
+}
+
+/** The driver's pings from the last fifteen minutes, oldest first. */
+export async function recentSpeedSamples(driverId: string): Promise<SpeedSample[]> {
+  return prisma.driverLocation.findMany({
+    where: { driver_id: driverId, created_at: { gte: new Date(Date.now() - SAMPLE_WINDOW_MS) } },
+    orderBy: { created_at: 'asc' },
+    select: { latitude: true, longitude: true, speed: true, created_at: true },
+  });
+}
+
+export interface StopEta {
+  /** 1-based position in the planned run, or null if the stop is unsequenced. */
+  stop_position: number | null;
+  total_stops: number;
+  /** Open stops the driver will visit first. Null if the stop is unsequenced. */
+  stops_ahead: number | null;
+  distance_remaining_m: number | null;
+  eta_minutes: number | null;
+  eta_at: string | null;
+  /** 'route' through the stops ahead, or 'direct' from the driver when unsequenced. */
+  eta_basis: 'route' | 'direct' | null;
+  speed_source: SpeedSource;
+}
+
+type EtaItem = {
+  id: string;
+  status: string | null;
+  stop_sequence: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  customer_address: string | null;
+};
+
+async function stopPoint(item: EtaItem): Promise<LatLng | null> {
+  if (isValidLatLng(item.latitude, item.longitude)) return { latitude: item.latitude!, longitude: item.longitude! };
+  // Cache only: this runs on a customer's poll, which must never wait on the
+  // one-request-a-second public geocoder.
+  return geocodeAddress(item.customer_address, { allowLookup: false });
+}
+
+/**
+ * Position and ETA for one stop, given every item in its batch and where the
+ * driver is now. The distance is the road estimate from the driver through
+ * each open stop ahead, in planned order, to this one; time adds the dwell of
+ * every stop ahead.
+ */
+export async function etaForStop(
+  target: EtaItem,
+  batchItems: EtaItem[],
+  driverAt: LatLng,
+  speed: { mps: number; source: SpeedSource }
+): Promise<StopEta> {
+  const sequenced = batchItems
+    .filter((i) => i.stop_sequence != null)
+    .sort((a, b) => a.stop_sequence! - b.stop_sequence!);
+  const totalStops = batchItems.length;
+
+  const base: StopEta = {
+    stop_position: target.stop_sequence,
+    total_stops: totalStops,
+    stops_ahead: null,
+    distance_remaining_m: null,
+    eta_minutes: null,
+    eta_at: null,
+    eta_basis: null,
+    speed_source: speed.source,
+  };
+
+  const targetPoint = await stopPoint(target);
+  if (!targetPoint) return base;
+
+  let ahead: EtaItem[] = [];
+  if (target.stop_sequence != null) {
+    ahead = sequenced.filter(
+      (i) => i.stop_sequence! < target.stop_sequence! && OPEN_ITEM_STATUSES.includes(i.status || '')
+    );
+  }
+
+  let distance = 0;
+  let cursor = driverAt;
+  for (const stop of ahead) {
+    const point = await stopPoint(stop);
+    if (!point) continue; // still costs its dwell below
+    distance += estimateRoadMeters(cursor, point);
+    cursor = point;
+  }
+  distance += estimateRoadMeters(cursor, targetPoint);
+
+  const seconds = distance / speed.mps + ahead.length * DWELL_SECONDS_PER_STOP;
+  return {
+    ...base,
+    stops_ahead: target.stop_sequence != null ? ahead.length : null,
+    distance_remaining_m: Math.round(distance),
+    eta_minutes: Math.max(1, Math.round(seconds / 60)),
+    eta_at: new Date(Date.now() + seconds * 1000).toISOString(),
+    eta_basis: target.stop_sequence != null ? 'route' : 'direct',
+  };
+}
+
+/**
+ * Push the customers the driver is about to reach. Called whenever a stop in
+ * the batch closes and on location pings, and notifies each open stop with at
+ * most one stop ahead of it — exactly once, guarded by eta_notified_at. Never
+ * throws: a failed push must not fail the driver's request.
+ */
+export async function notifyUpcomingStops(batchId: string): Promise<number> {
+  try {
+    const batch = await prisma.deliveryBatch.findUnique({ where: { id: batchId } });
+    if (!batch?.driver_id) return 0;
+
+    const open = await prisma.deliveryItem.findMany({
+      where: { batch_id: batchId, status: { in: OPEN_ITEM_STATUSES }, stop_sequence: { not: null } },
+      orderBy: { stop_sequence: 'asc' },
+      take: 2,
+    });
+    const due = open.filter((i) => !i.eta_notified_at);
+    if (due.length === 0) return 0;
+
+    const [location, samples] = await Promise.all([
+      prisma.driverLocation.findFirst({
+        where: { driver_id: batch.driver_id, is_active: true },
+        orderBy: { created_at: 'desc' },
+      }),
+      recentSpeedSamples(batch.driver_id),
+    ]);
+    const speed = estimateSpeed(samples);
+
+    let sent = 0;
+    for (const item of due) {
+      // Claim first, so two pings racing each other push once.
+      const claimed = await prisma.deliveryItem.updateMany({
+        where: { id: item.id, eta_notified_at: null },
+        data: { eta_notified_at: new Date() },
+      });
+      if (claimed.count === 0) continue;
+
+      const eta = location ? await etaForStop(item, open, location, speed) : null;
+      const isNext = item.id === open[0].id;
+      const body = isNext
+        ? `Your tiffin is the next stop${eta?.eta_minutes ? ` — about ${eta.eta_minutes} min away` : ''}.`
+        : `Your driver is one stop away${eta?.eta_minutes ? ` — about ${eta.eta_minutes} min` : ''}.`;
+      await sendPushToCustomer(item.customer_id, 'Your tiffin is nearly there', body, {
+        type: 'delivery_eta',
+        itemId: item.id,
+        batchId,
+      }).catch(() => {});
+      sent++;
+    }
+    return sent;
+  } catch (err: any) {
+    console.error('[ETA] Upcoming-stop push failed:', err?.message || err);
+    return 0;
+  }
+}
+
+// ─── Arrival ────────────────────────────────────────────────────
+//
+// Drivers tap "delivered" late — often in a batch at the end of the run — so
+// delivered_at says when the driver got round to it, not when the food got
+// there. A location ping inside the merchant's radius of a stop stamps
+// arrived_at instead, which is set by where the phone was and cannot be late.
+// Status is not changed: the stop is still open until the driver closes it.
+
+export const DEFAULT_ARRIVAL_RADIUS_M = 75;
+
+/**
+ * Stamp arrived_at on every open stop in the batch within `radiusM` of the
+ * ping, and push each customer once that their tiffin is at the door. A ping
+ * whose reported accuracy is worse than the radius is ignored — it cannot say
+ * which side of the line the driver is on. Never throws.
+ */
+export async function markArrivals(
+  batchId: string,
+  at: LatLng,
+  accuracy: number | null,
+  radiusM: number
+): Promise<number> {
+  try {
+    if (!isValidLatLng(at.latitude, at.longitude)) return 0;
+    if (accuracy != null && accuracy > radiusM) return 0;
+
+    const open = await prisma.deliveryItem.findMany({
+      where: { batch_id: batchId, status: { in: OPEN_ITEM_STATUSES }, arrived_at: null },
+    });
+
+    let arrived = 0;
+    for (const item of open) {
+      const point = await stopPoint(item);
+      if (!point || haversineMeters(at, point) > radiusM) continue;
+
+      // Claim first, as with the ETA push, so overlapping pings push once.
+      const claimed = await prisma.deliveryItem.updateMany({
+        where: { id: item.id, arrived_at: null },
+        data: { arrived_at: new Date() },
+      });
+      if (claimed.count === 0) continue;
+
+      await sendPushToCustomer(item.customer_id, 'Your tiffin is here', 'Your driver is at your door.', {
+        type: 'delivery_arrived',
+        itemId: item.id,
+        batchId,
+      }).catch(() => {});
+      arrived++;
+    }
+    return arrived;
+  } catch (err: any) {
+    console.error('[ETA] Arrival check failed:', err?.message || err);
+    return 0;
+  }
+}
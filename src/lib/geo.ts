@@ -0,0 +1,107 @@
+// Distance arithmetic for delivery routing.
+//
+// There is no routing engine behind this app — no OSRM, no paid directions API
+// — so every distance here is a straight line on the sphere, scaled up to
+// approximate the road. In the grid-and-service-road layout of Dubai and the
+// Indian cities our merchants deliver in, the road is typically 1.2–1.4× the
+// crow-flies distance; 1.3 is the middle of that. It is an estimate for
+// ordering stops and quoting the driver a rough figure, not a navigation
+// distance, and every field that stores one is named *_m with "estimated" in
+// its comment for that reason.
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+/** Multiplier from great-circle distance to an estimated road distance. */
+export const ROAD_FACTOR = 1.3;
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance in metres between two points. */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Estimated road distance in metres: the straight line times ROAD_FACTOR. */
+export function estimateRoadMeters(a: LatLng, b: LatLng): number {
+  return haversineMeters(a, b) * ROAD_FACTOR;
+}
+
+/**
+ * True for a usable coordinate pair. (0, 0) is rejected on purpose: it is what
+ * a GPS or geocoder failure serialises to, and it is in the Gulf of Guinea.
+ */
+export function isValidLatLng(lat: unknown, lng: unknown): boolean {
+  if (typeof lat !== 'number' || typeof lng !== 'number') return false;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+  if (lat === 0 && lng === 0) return false;
+  return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+/**
+ * Douglas–Peucker line simplification, returning the indices of the points to
+ * keep (always including both ends). Points are projected onto a flat plane
+ * around the path's first point, which is accurate to well under a metre over
+ * the few kilometres a delivery run covers. Iterative, so a day of pings
+ * cannot overflow the stack.
+ */
+export function simplifyPath(points: LatLng[], toleranceM: number): number[] {
+  if (points.length <= 2) return points.map((_, i) => i);
+
+  const lat0 = toRad(points[0].latitude);
+  const xy = points.map((p) => ({
+    x: toRad(p.longitude - points[0].longitude) * Math.cos(lat0) * EARTH_RADIUS_M,
+    y: toRad(p.latitude - points[0].latitude) * EARTH_RADIUS_M,
+  }));
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const a = xy[first];
+    const b = xy[last];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.hypot(dx, dy);
+
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const p = xy[i];
+      // Perpendicular distance to the segment's line, or to `a` when the
+      // segment is a point (the driver came back to where they were).
+      const d = len === 0
+        ? Math.hypot(p.x - a.x, p.y - a.y)
+        : Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / len;
+      if (d > maxDist) { maxDist = d; index = i; }
+    }
+
+    if (index !== -1 && maxDist > toleranceM) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  const out: number[] = [];
+  keep.forEach((k, i) => { if (k) out.push(i); });
+  return out;
+}
+
+/** Length of a path in metres, point to point along the sphere. */
+export function pathLengthMeters(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += haversineMeters(points[i - 1], points[i]);
+  return total;
+}
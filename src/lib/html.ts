@@ -0,0 +1,17 @@
+// Escaping for the HTML emails the app sends.
+//
+// Customer names, addresses, business names and supplier lines all reach
+// these emails from forms, and self-registration is public. Interpolated raw,
+// a customer named `<a href="...">Click to verify</a>` renders as a live link
+// inside a legitimate platform email — a phishing hook with the merchant's own
+// branding around it.
+
+/** A value made safe for HTML text or a quoted attribute. Null is empty. */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
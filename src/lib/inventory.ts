@@ -0,0 +1,368 @@
+// Inventory deduction: what the kitchen used, taken off stock once.
+//
+// Three paths took stock off and none knew about the others. The daily job
+// multiplied one flat Ingredient.usage_per_tiffin by the meal count;
+// /functions/batch-cooking deducted a whole Recipe per meal type; and
+// /functions/auto-deduct-on-delivery deducted a serving per delivered order. A
+// kitchen that logged its batch and also ran the daily job paid for every meal
+// twice.
+//
+// They all go through deductRecipe() now, and every deduction is a
+// ConsumptionLog row with its recipe_id, meal_type and source. What a recipe
+// has already had deducted for a day and meal is the sum of those rows, so
+// each path only takes the servings nobody has taken yet: a batch of 40 logged
+// at noon leaves the daily job nothing to do for 40 orders, and 45 orders
+// leaves it 5.
+//
+// The daily job works out what was served from the day's set menu: the active
+// MenuItems for that weekday and meal that are linked to a recipe, each cooked
+// for every order that includes the meal. A meal with no linked dishes falls
+// back to the active Recipe for that meal type, and a meal with neither falls
+// back to usage_per_tiffin, which is where every merchant starts.
+//
+// Recipe quantities are for Recipe.servings servings, so a line is scaled by
+// servings / Recipe.servings, then converted from the line's unit into the
+// ingredient's (lib/units.ts). Stock leaves as consumption movements that point
+// back at their ConsumptionLog row (lib/stock.ts).
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { planMeals } from './proration';
+import { weekdayOfDateStr } from './weekend';
+import { toIngredientUnit } from './units';
+import { postStockMovement, postStockMovementIn } from './stock';
+
+export const CONSUMPTION_SOURCES = ['daily', 'batch_cooking', 'delivery', 'manual'] as const;
+export type ConsumptionSource = (typeof CONSUMPTION_SOURCES)[number];
+
+const MEALS = ['Breakfast', 'Lunch', 'Dinner'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+type Recipe = NonNullable<Awaited<ReturnType<typeof prisma.recipe.findFirst>>>;
+type Ingredient = NonNullable<Awaited<ReturnType<typeof prisma.ingredient.findFirst>>>;
+type RecipeLine = { ingredient_id: string; ingredient_name?: string; quantity: number; unit?: string };
+
+/** A recipe's ingredient lines, skipping any without an ingredient or a quantity. */
+export function recipeLines(recipe: Recipe): RecipeLine[] {
+  const lines = Array.isArray(recipe.ingredients) ? (recipe.ingredients as any[]) : [];
+  return lines.filter((l) => l && l.ingredient_id && Number(l.quantity) > 0)
+    .map((l) => ({ ...l, quantity: Number(l.quantity) }));
+}
+
+/** Meals served on a day from its orders, per meal: "Lunch + Dinner" is one of each. */
+export function mealServings(orders: { meal_type: string | null }[]) {
+  const servings: Record<string, number> = { Breakfast: 0, Lunch: 0, Dinner: 0 };
+  let unknown = 0;
+  for (const order of orders) {
+    const meals = planMeals(order.meal_type);
+    if (meals.length === 0) unknown++;
+    for (const meal of meals) servings[meal]++;
+  }
+  return { servings, unknown };
+}
+
+/**
+ * The recipes cooked for one meal on a day: the dishes on that weekday's set
+ * menu that are linked to a recipe, or else the active recipe for the meal
+ * type. An empty list means the meal cannot be costed from recipes.
+ */
+export async function recipesForMeal(merchantId: string, date: string, meal: string) {
+  const weekday = weekdayOfDateStr(date);
+  if (weekday == null) return { recipes: [] as Recipe[], from: null };
+
+  const items = await prisma.menuItem.findMany({
+    where: {
+      created_by: merchantId,
+      is_active: true,
+      day_of_week: DAY_NAMES[weekday],
+      menu_type: { not: 'ala_carte' },
+      recipe_id: { not: null },
+    },
+    select: { meal_type: true, recipe_id: true },
+  });
+  const ids = [...new Set(
+    items.filter((i) => !i.meal_type || planMeals(i.meal_type).includes(meal)).map((i) => i.recipe_id!)
+  )];
+  if (ids.length > 0) {
+    const recipes = await prisma.recipe.findMany({ where: { id: { in: ids }, created_by: merchantId, is_active: true } });
+    if (recipes.length > 0) return { recipes, from: 'menu' as const };
+  }
+
+  const recipe = await prisma.recipe.findFirst({
+    where: { created_by: merchantId, is_active: true, meal_type: { equals: meal, mode: 'insensitive' } },
+    orderBy: { updated_at: 'desc' },
+  });
+  return recipe ? { recipes: [recipe], from: 'meal_recipe' as const } : { recipes: [] as Recipe[], from: null };
+}
+
+/** Servings of a recipe already deducted for a day and meal, in total and by source. */
+export async function servingsDeducted(merchantId: string, date: string, recipeId: string, mealType: string | null) {
+  const logs = await prisma.consumptionLog.findMany({
+    where: { created_by: merchantId, date, recipe_id: recipeId, meal_type: mealType },
+    select: { quantity_prepared: true, source: true },
+  });
+  const bySource: Record<string, number> = {};
+  let total = 0;
+  for (const log of logs) {
+    const n = log.quantity_prepared || 0;
+    total += n;
+    bySource[log.source || 'unknown'] = (bySource[log.source || 'unknown'] || 0) + n;
+  }
+  return { total, bySource };
+}
+
+/**
+ * Deduct `servings` of a recipe and log it. The caller decides how many
+ * servings are still owed (servingsDeducted); this takes exactly what it is
+ * given. Lines whose ingredient is gone are reported, not fatal. A line whose
+ * unit does not convert to its ingredient's stops the whole deduction: the
+ * error is returned for the merchant to fix the recipe, and nothing is logged,
+ * so the servings are still owed once it is fixed.
+ */
+export async function deductRecipe(opts: {
+  merchantId: string;
+  recipe: Recipe;
+  servings: number;
+  date: string;
+  mealType: string | null;
+  source: ConsumptionSource;
+}) {
+  const { merchantId, recipe, servings, date, mealType, source } = opts;
+  const perServing = 1 / (recipe.servings || 1);
+  const lines = recipeLines(recipe);
+  const ingredients = new Map(
+    (await prisma.ingredient.findMany({
+      where: { id: { in: lines.map((l) => l.ingredient_id) }, created_by: merchantId },
+    })).map((i) => [i.id, i])
+  );
+
+  const planned: { ingredient: Ingredient; quantity: number }[] = [];
+  const missing: string[] = [];
+  const unitErrors: string[] = [];
+  for (const line of lines) {
+    const ingredient = ingredients.get(line.ingredient_id);
+    if (!ingredient) {
+      missing.push(line.ingredient_name || line.ingredient_id);
+      continue;
+    }
+    const converted = toIngredientUnit(line.quantity * perServing * servings, line.unit, ingredient);
+    if (!converted.ok) {
+      unitErrors.push(`${ingredient.name}: ${converted.error}`);
+      continue;
+    }
+    planned.push({ ingredient, quantity: round4(converted.quantity) });
+  }
+  if (unitErrors.length > 0) {
+    return { ok: false as const, error: `${recipe.name} has units that do not convert. ${unitErrors.join('; ')}` };
+  }
+
+  const used = planned.map(({ ingredient, quantity }) => ({
+    ingredient_id: ingredient.id,
+    ingredient: ingredient.name,
+    deducted: quantity,
+    unit: ingredient.unit,
+    cost: quantity * (ingredient.cost_per_unit || 0),
+  }));
+  const totalCost = used.reduce((sum, u) => sum + u.cost, 0);
+
+  const log = await prisma.consumptionLog.create({
+    data: {
+      date,
+      recipe_id: recipe.id,
+      recipe_name: recipe.name,
+      meal_type: mealType,
+      quantity_prepared: servings,
+      ingredients_used: used,
+      total_cost: totalCost,
+      cost_per_meal: servings > 0 ? totalCost / servings : 0,
+      source,
+      created_by: merchantId,
+    },
+  });
+
+  const deductions = [];
+  for (const line of used) {
+    const { balance } = await postStockMovement({
+      ingredient_id: line.ingredient_id,
+      created_by: merchantId,
+      movement_type: 'consumption',
+      quantity: -line.deducted,
+      reason: `${recipe.name} × ${servings}`,
+      reference_type: 'consumption_log',
+      reference_id: log.id,
+    });
+    deductions.push({ ...line, remaining: balance });
+  }
+  return { ok: true as const, log, deductions, missing, total_cost: totalCost };
+}
+
+/**
+ * The daily deduction for one merchant's day. Recipe meals take only the
+ * servings no batch or delivery has taken; the usage_per_tiffin fallback runs
+ * at most once per ingredient per day (Ingredient.last_deducted_date). A
+ * recipe whose units do not convert is left undeducted and listed in
+ * `unit_errors` for the merchant.
+ */
+export async function deductDay(merchantId: string, date: string) {
+  const orders = await prisma.order.findMany({
+    where: { created_by: merchantId, order_date: date },
+    select: { meal_type: true },
+  });
+  const { servings, unknown } = mealServings(orders);
+
+  const result = {
+    recipes: 0,
+    servings: 0,
+    fallback_meals: 0,
+    fallback_ingredients: 0,
+    total_cost: 0,
+    unit_errors: [] as { recipe_id: string; recipe: string; meal: string; servings: number; error: string }[],
+  };
+  const fallbackMeals: string[] = [];
+  let fallbackCount = unknown;
+
+  for (const meal of MEALS) {
+    const wanted = servings[meal];
+    if (wanted === 0) continue;
+    const { recipes } = await recipesForMeal(merchantId, date, meal);
+    if (recipes.length === 0) {
+      fallbackMeals.push(meal);
+      fallbackCount += wanted;
+      continue;
+    }
+    for (const recipe of recipes) {
+      const owed = wanted - (await servingsDeducted(merchantId, date, recipe.id, meal)).total;
+      if (owed <= 0) continue;
+      const deducted = await deductRecipe({ merchantId, recipe, servings: owed, date, mealType: meal, source: 'daily' });
+      if (!deducted.ok) {
+        result.unit_errors.push({ recipe_id: recipe.id, recipe: recipe.name, meal, servings: owed, error: deducted.error });
+        continue;
+      }
+      result.recipes++;
+      result.servings += owed;
+      result.total_cost += deducted.total_cost;
+    }
+  }
+
+  if (fallbackCount > 0) {
+    const tracked = await prisma.ingredient.findMany({
+      where: {
+        created_by: merchantId,
+        usage_per_tiffin: { not: null, gt: 0 },
+        OR: [{ last_deducted_date: null }, { last_deducted_date: { not: date } }],
+      },
+    });
+    if (tracked.length > 0) {
+      const used = tracked.map((ingredient) => {
+        const quantity = round4((ingredient.usage_per_tiffin || 0) * fallbackCount);
+        return { ingredient_id: ingredient.id, name: ingredient.name, quantity, unit: ingredient.unit, cost: quantity * (ingredient.cost_per_unit || 0) };
+      });
+      const totalCost = used.reduce((sum, u) => sum + u.cost, 0);
+      const log = await prisma.consumptionLog.create({
+        data: {
+          date,
+          recipe_name: 'Daily tiffin production',
+          meal_type: fallbackMeals.length > 0 ? fallbackMeals.join(' + ') : null,
+          quantity_prepared: fallbackCount,
+          ingredients_used: used,
+          total_cost: totalCost,
+          cost_per_meal: totalCost / fallbackCount,
+          source: 'daily',
+          created_by: merchantId,
+        },
+      });
+      for (const line of used) {
+        await postStockMovement({
+          ingredient_id: line.ingredient_id,
+          created_by: merchantId,
+          movement_type: 'consumption',
+          quantity: -line.quantity,
+          reason: `Daily tiffin production × ${fallbackCount}`,
+          reference_type: 'consumption_log',
+          reference_id: log.id,
+          set: { last_deducted_date: date },
+        });
+      }
+      result.fallback_meals = fallbackCount;
+      result.fallback_ingredients = tracked.length;
+      result.total_cost += totalCost;
+    }
+  }
+
+  return result;
+}
+
+export type PurchaseInput = {
+  quantity: number;
+  unit: string | null;
+  cost_per_unit: number | null;
+  supplier: { id: string; name: string | null } | null;
+  purchase_date?: string | null;
+  expiry_date?: string | null;
+  notes?: string | null;
+  purchase_order_id?: string | null;
+};
+
+/**
+ * Record a purchase of an ingredient and put it into stock. `unit` is what it
+ * was bought in (a sack, a crate) and cost_per_unit is per that unit; stock
+ * and the ingredient's cost move in the ingredient's own unit. Without a cost
+ * the ingredient's current one is used.
+ */
+export async function recordPurchase(ingredient: Ingredient, input: PurchaseInput, postedBy: string) {
+  return prisma.$transaction((tx) => recordPurchaseIn(tx, ingredient, input, postedBy));
+}
+
+/** recordPurchase() inside a transaction the caller already holds. */
+export async function recordPurchaseIn(
+  tx: Prisma.TransactionClient,
+  ingredient: Ingredient,
+  input: PurchaseInput,
+  postedBy: string
+) {
+  const converted = toIngredientUnit(input.quantity, input.unit, ingredient);
+  if (!converted.ok) return { ok: false as const, error: converted.error };
+  const stockQuantity = converted.quantity;
+
+  // Cost per ingredient unit: what was paid per purchase unit, spread over
+  // the stock it bought. A cost of 0 (a free sample) is a cost, not a missing one.
+  const stockCost = input.cost_per_unit != null
+    ? (input.cost_per_unit * input.quantity) / stockQuantity
+    : ingredient.cost_per_unit || 0;
+  const effectiveCost = input.cost_per_unit ?? (stockCost * stockQuantity) / input.quantity;
+  const today = new Date().toISOString().split('T')[0];
+
+  const purchase = await tx.purchase.create({
+    data: {
+      ingredient_id: ingredient.id,
+      ingredient_name: ingredient.name,
+      quantity: input.quantity,
+      unit: input.unit,
+      stock_quantity: stockQuantity,
+      cost_per_unit: effectiveCost,
+      total_cost: input.quantity * effectiveCost,
+      supplier_id: input.supplier?.id || null,
+      supplier_name: input.supplier?.name || null,
+      purchase_order_id: input.purchase_order_id || null,
+      purchase_date: input.purchase_date || today,
+      expiry_date: input.expiry_date || null,
+      notes: input.notes || null,
+      created_by: ingredient.created_by,
+    },
+  });
+
+  const posted = await postStockMovementIn(tx, {
+    ingredient_id: ingredient.id,
+    created_by: ingredient.created_by,
+    movement_type: 'purchase',
+    quantity: stockQuantity,
+    unit_cost: stockCost,
+    reason: input.supplier?.name ? `Bought from ${input.supplier.name}` : 'Purchase',
+    reference_type: 'purchase',
+    reference_id: purchase.id,
+    posted_by: postedBy,
+    set: { last_purchase_date: today },
+  });
+  return { ok: true as const, purchase, stock_quantity: stockQuantity, balance: posted.balance };
+}
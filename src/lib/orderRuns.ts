@@ -0,0 +1,360 @@
+// Delivery runs on Order rows, and the customer counters that follow them.
+//
+// Three paths say "this was delivered": the driver app (PUT /api/driver/items/
+// :itemId/deliver), the dashboard's /functions/mark-round, and the older
+// /functions/record-delivery. Before this module each wrote its own columns and
+// none knew about the others, so a merchant marking a round the driver had
+// already completed counted the day twice, and an undo never gave it back.
+//
+// Everything now goes through two rules:
+//
+//   * A run is stamped with `UPDATE … WHERE <column> IS NULL RETURNING`, so
+//     only the request that actually flips the stamp counts the meal. A
+//     re-mark, a double tap or a retried request finds it already set and
+//     does nothing.
+//   * A day is counted against the customer when the order first becomes
+//     Delivered, claimed through Order.counted_at the same way. Clearing a run
+//     on a counted order (undo, or a failure after a mis-tap) releases the
+//     claim and gives the day back.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { mealsPerDay, planMeals } from './proration';
+import { dayOffReason, paidDaysOf, recomputeCustomerDays } from './subscriptionDays';
+import { loadSkipRules, ruleSkipsOn } from './skipRules';
+import { loadClosures } from './closures';
+import { todayInTimezone } from './weekend';
+import { postWalletEntry, walletBalance } from './wallet';
+import { sendEmail } from '../services/email';
+import { sendMerchantWhatsApp } from '../services/whatsapp';
+
+type RunMeal = 'Lunch' | 'Dinner';
+
+// Whitelisted identifiers — the only strings ever spliced into the SQL below.
+const RUN_COLUMN: Record<RunMeal, Prisma.Sql> = {
+  Lunch: Prisma.raw('"lunch_delivered_at"'),
+  Dinner: Prisma.raw('"dinner_delivered_at"'),
+};
+
+/**
+ * Derive delivery_status from the per-run stamps. A row is Delivered only once
+ * every run its meal_type requires has been stamped.
+ */
+export async function deriveOrderDeliveryStatus(ids: string[]) {
+  if (ids.length === 0) return;
+  // $executeRaw (tagged template), not $executeRawUnsafe: the ids are
+  // server-derived from a tenant-scoped query, but the tagged form
+  // parameterises by construction and removes any chance of a future edit
+  // concatenating user input into this string.
+  await prisma.$executeRaw`
+    UPDATE "Order" SET "delivery_status" = CASE
+       WHEN (("meal_type" ILIKE '%lunch%') IS NOT TRUE OR "lunch_delivered_at" IS NOT NULL)
+        AND (("meal_type" ILIKE '%dinner%') IS NOT TRUE OR "dinner_delivered_at" IS NOT NULL)
+         THEN 'Delivered'
+       WHEN "lunch_delivered_at" IS NOT NULL OR "dinner_delivered_at" IS NOT NULL
+         THEN 'Out for Delivery'
+       ELSE 'Pending'
+     END
+     WHERE "id" = ANY(${ids}::text[])`;
+}
+
+function countByCustomer(rows: { customer_id: string }[]) {
+  const counts = new Map<string, number>();
+  for (const r of rows) counts.set(r.customer_id, (counts.get(r.customer_id) || 0) + 1);
+  return counts;
+}
+
+/**
+ * Move a customer's delivered_days by `delta`, then let lib/subscriptionDays.ts
+ * derive days_remaining and end_date from it. Finishing the last paid day ends
+ * the service exactly as /functions/record-delivery always has; undoing that
+ * day reopens it.
+ */
+export async function adjustDeliveredDays(customerId: string, delta: number, mealsDelta = 0) {
+  const customer = await prisma.customer.update({
+    where: { id: customerId },
+    data: {
+      delivered_days: { increment: delta },
+      ...(mealsDelta ? { meals_delivered: { increment: mealsDelta } } : {}),
+    },
+  });
+  const paidDays = paidDaysOf(customer);
+  const delivered = customer.delivered_days || 0;
+  if (delivered < paidDays && !customer.active && customer.inactive_reason === 'service_complete') {
+    await prisma.customer.update({
+      where: { id: customerId },
+      data: { active: true, status: 'active', inactive_reason: null },
+    });
+  }
+
+  const finished = delta > 0 && delivered >= paidDays && !!customer.active;
+  if (finished) {
+    const extended = await extendFromWallet(customer, paidDays);
+    if (extended) return extended;
+  }
+  const updated = (await recomputeCustomerDays(customerId))!.customer;
+  if (finished) await completeService(updated, paidDays);
+  return updated;
+}
+
+/**
+ * Before ending a service, spend the wallet: if the balance holds a whole day
+ * of the customer's meals, one day is bought from it (a meal_consumed entry)
+ * and the service carries on. The balance is meals the customer already paid
+ * for, so it should be delivered before anyone is asked to renew. Undoing the
+ * delivery afterwards leaves the day bought — it is still paid for, just no
+ * longer delivered — so nothing goes back to the wallet.
+ */
+async function extendFromWallet(
+  customer: { id: string; meal_type: string | null; created_by: string },
+  paidDays: number
+) {
+  const perDay = mealsPerDay(customer.meal_type);
+  if ((await walletBalance(customer.id)) < perDay) return null;
+
+  await postWalletEntry({
+    customer_id: customer.id,
+    created_by: customer.created_by,
+    entry_type: 'meal_consumed',
+    meals: -perDay,
+    reason: `Paid days used up; day ${paidDays + 1} taken from the balance`,
+  });
+  await prisma.customer.update({ where: { id: customer.id }, data: { paid_days: paidDays + 1 } });
+  return (await recomputeCustomerDays(customer.id))!.customer;
+}
+
+/**
+ * The customer has had every paid day: deactivate and ask for renewal. Moved
+ * here from /functions/record-delivery unchanged, so a day finished by the
+ * driver app ends the service the same way a day recorded on the dashboard does.
+ */
+export async function completeService(
+  customer: { id: string; full_name: string; phone_number: string | null; payment_amount: number | null; delivered_days: number | null; created_by: string },
+  paidDays: number
+) {
+  await prisma.customer.update({
+    where: { id: customer.id },
+    data: { active: false, status: 'inactive', inactive_reason: 'service_complete', notification_sent: false },
+  });
+
+  const merchant = await prisma.user.findUnique({
+    where: { id: customer.created_by },
+    select: { id: true, email: true, currency: true },
+  });
+  if (!merchant) return;
+
+  if (customer.phone_number) {
+    try {
+      await sendMerchantWhatsApp(merchant.id, {
+        to: customer.phone_number,
+        message: `Your ${paidDays}-day tiffin service is complete. Please renew your subscription to continue service.`,
+      });
+    } catch (e) { /* WhatsApp optional */ }
+  }
+
+  await sendEmail({
+    to: merchant.email,
+    subject: `Payment Due - ${customer.full_name}`,
+    body: `<h2>Service Completed - Payment Required</h2>
+      <p><strong>Customer:</strong> ${customer.full_name}</p>
+      <p><strong>Days Delivered:</strong> ${customer.delivered_days} / ${paidDays}</p>
+      <p><strong>Amount Due:</strong> ${merchant.currency || 'USD'} ${customer.payment_amount}</p>`,
+  });
+}
+
+/**
+ * Count a day the customer skipped too late to be credited for
+ * (lib/skipCutoffs.ts): the food was cooked, so the day is used as if it had
+ * been delivered. Only a service day that has not passed can be used up — a
+ * late skip of a weekend, a paused or closed day, a day a skip rule already
+ * takes, or a day gone by costs the customer nothing, because nothing was
+ * cooked for it.
+ *
+ * The skip records the forfeit in forfeited_at, and a date is forfeited at
+ * most once, however often its late skips are cancelled and placed again; the
+ * customer row is locked while that is checked. Where the day has an order the
+ * claim also goes through it, like a delivery's, so the order being delivered
+ * after all cannot count the day a second time. Returns whether a day was
+ * counted.
+ */
+export async function countForfeitedDay(skip: { id: string; customer_id: string; skip_date: string }) {
+  const customer = await prisma.customer.findUnique({ where: { id: skip.customer_id } });
+  if (!customer) return false;
+  const merchant = await prisma.user.findUnique({ where: { id: customer.created_by }, select: { timezone: true } });
+  if (skip.skip_date < todayInTimezone(merchant?.timezone)) return false;
+  const [rules, closures] = await Promise.all([
+    loadSkipRules({ customer_id: customer.id }, skip.skip_date),
+    loadClosures(customer.created_by, skip.skip_date),
+  ]);
+  // The customer's own skips are what is being forfeited, so only the rules
+  // stand in for skips when asking whether this was a service day.
+  if (dayOffReason(customer, skip.skip_date, ruleSkipsOn(rules, skip.skip_date), closures)) return false;
+
+  const counted = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Customer" WHERE "id" = ${customer.id} FOR UPDATE`;
+    const already = await tx.tiffinSkip.count({
+      where: { customer_id: customer.id, skip_date: skip.skip_date, forfeited_at: { not: null } },
+    });
+    if (already > 0) return false;
+    await tx.tiffinSkip.update({ where: { id: skip.id }, data: { forfeited_at: new Date() } });
+
+    const orders = await tx.order.findMany({
+      where: { customer_id: customer.id, order_date: skip.skip_date, NOT: { status: 'cancelled' } },
+      select: { id: true },
+    });
+    if (orders.length === 0) return true;
+    const claimed = await tx.$queryRaw<{ id: string }[]>`
+      UPDATE "Order" SET "counted_at" = NOW()
+       WHERE "id" = ANY(${orders.map((o) => o.id)}::text[]) AND "counted_at" IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM "Order" o WHERE o."id" = ANY(${orders.map((o) => o.id)}::text[]) AND o."counted_at" IS NOT NULL
+         )
+       RETURNING "id"`;
+    return claimed.length > 0;
+  });
+  if (!counted) return false;
+  await adjustDeliveredDays(customer.id, 1);
+  return true;
+}
+
+/**
+ * Stamp a run delivered on the given orders. Returns how many runs were newly
+ * stamped and how many days newly counted — both zero on a re-mark.
+ */
+export async function markRunsDelivered(ids: string[], meal: RunMeal, deliveredBy?: string | null) {
+  if (ids.length === 0) return { stamped: 0, daysCounted: 0 };
+  const column = RUN_COLUMN[meal];
+
+  const stamped = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+    UPDATE "Order" SET ${column} = NOW(), "delivery_note" = NULL,
+       "delivered_by" = COALESCE(${deliveredBy ?? null}::text, "delivered_by")
+     WHERE "id" = ANY(${ids}::text[]) AND ${column} IS NULL
+     RETURNING "id", "customer_id"`;
+
+  await deriveOrderDeliveryStatus(ids);
+
+  const counted = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+    UPDATE "Order" SET "counted_at" = NOW()
+     WHERE "id" = ANY(${ids}::text[]) AND "delivery_status" = 'Delivered' AND "counted_at" IS NULL
+     RETURNING "id", "customer_id"`;
+
+  const meals = countByCustomer(stamped);
+  const days = countByCustomer(counted);
+  for (const customerId of new Set([...meals.keys(), ...days.keys()])) {
+    await adjustDeliveredDays(customerId, days.get(customerId) || 0, meals.get(customerId) || 0);
+  }
+  return { stamped: stamped.length, daysCounted: counted.length };
+}
+
+/**
+ * Clear a run's stamp: an undo, or a run that turned out not to happen. A
+ * counted order that is no longer fully delivered gives its day back. `missed`
+ * marks the orders Missed afterwards, as /functions/mark-round always has for
+ * a missed run; `note` replaces delivery_note (null clears it).
+ */
+export async function clearRuns(
+  ids: string[],
+  meal: RunMeal,
+  options: { note?: string | null; missed?: boolean } = {}
+) {
+  if (ids.length === 0) return { cleared: 0, daysReleased: 0 };
+  const column = RUN_COLUMN[meal];
+
+  const cleared = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+    UPDATE "Order" SET ${column} = NULL
+     WHERE "id" = ANY(${ids}::text[]) AND ${column} IS NOT NULL
+     RETURNING "id", "customer_id"`;
+
+  await prisma.order.updateMany({
+    where: { id: { in: ids } },
+    data: { delivery_note: options.note ?? null },
+  });
+
+  await deriveOrderDeliveryStatus(ids);
+  if (options.missed) {
+    await prisma.order.updateMany({ where: { id: { in: ids } }, data: { delivery_status: 'Missed' } });
+  }
+
+  const released = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+    UPDATE "Order" SET "counted_at" = NULL
+     WHERE "id" = ANY(${cleared.map((r) => r.id)}::text[])
+       AND "counted_at" IS NOT NULL AND "delivery_status" <> 'Delivered'
+     RETURNING "id", "customer_id"`;
+
+  const meals = countByCustomer(cleared);
+  const days = countByCustomer(released);
+  for (const customerId of new Set([...meals.keys(), ...days.keys()])) {
+    await adjustDeliveredDays(customerId, -(days.get(customerId) || 0), -(meals.get(customerId) || 0));
+  }
+  return { cleared: cleared.length, daysReleased: released.length };
+}
+
+/** The Lunch and Dinner runs an order's plan has; none for Breakfast alone. */
+function runsOf(mealType: string | null): RunMeal[] {
+  return planMeals(mealType).filter((m): m is RunMeal => m === 'Lunch' || m === 'Dinner');
+}
+
+/**
+ * A driver's stop delivered against its order. A stop on one run stamps that
+ * run. One that names no single run — a hand-made "Lunch + Dinner" stop, or
+ * Breakfast — delivers the whole order: every run on its plan is stamped, and
+ * an order with no run column at all is claimed through counted_at directly.
+ * Either way the day is counted once, and a re-mark counts nothing.
+ */
+export async function markStopDelivered(
+  order: { id: string; meal_type: string | null },
+  run: RunMeal | null,
+  deliveredBy?: string | null
+) {
+  if (run) return markRunsDelivered([order.id], run, deliveredBy);
+  const runs = runsOf(order.meal_type);
+  if (runs.length === 0) {
+    const counted = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+      UPDATE "Order" SET "delivery_status" = 'Delivered', "delivery_note" = NULL, "counted_at" = NOW(),
+         "delivered_by" = COALESCE(${deliveredBy ?? null}::text, "delivered_by")
+       WHERE "id" = ${order.id} AND "counted_at" IS NULL
+       RETURNING "id", "customer_id"`;
+    for (const row of counted) await adjustDeliveredDays(row.customer_id, 1, mealsPerDay(order.meal_type));
+    return { stamped: counted.length, daysCounted: counted.length };
+  }
+  const total = { stamped: 0, daysCounted: 0 };
+  for (const each of runs) {
+    const result = await markRunsDelivered([order.id], each, deliveredBy);
+    total.stamped += result.stamped;
+    total.daysCounted += result.daysCounted;
+  }
+  return total;
+}
+
+/**
+ * Undo or fail a driver's stop: markStopDelivered() in reverse. An order with
+ * no run column gives its day back only if a delivery counted it — a late
+ * skip's forfeit (countForfeitedDay) holds the same claim and keeps it.
+ */
+export async function clearStop(
+  order: { id: string; meal_type: string | null },
+  run: RunMeal | null,
+  options: { note?: string | null; missed?: boolean } = {}
+) {
+  if (run) return clearRuns([order.id], run, options);
+  const runs = runsOf(order.meal_type);
+  if (runs.length === 0) {
+    const released = await prisma.$queryRaw<{ id: string; customer_id: string }[]>`
+      UPDATE "Order" SET "counted_at" = NULL
+       WHERE "id" = ${order.id} AND "counted_at" IS NOT NULL AND "delivery_status" = 'Delivered'
+       RETURNING "id", "customer_id"`;
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { delivery_note: options.note ?? null, delivery_status: options.missed ? 'Missed' : 'Pending' },
+    });
+    for (const row of released) await adjustDeliveredDays(row.customer_id, -1, -mealsPerDay(order.meal_type));
+    return { cleared: released.length, daysReleased: released.length };
+  }
+  const total = { cleared: 0, daysReleased: 0 };
+  for (const each of runs) {
+    const result = await clearRuns([order.id], each, options);
+    total.cleared += result.cleared;
+    total.daysReleased += result.daysReleased;
+  }
+  return total;
+}
@@ -0,0 +1,310 @@
+// Customer pauses, booked ahead of time.
+//
+// A pause used to take effect the moment the portal accepted it: the customer
+// columns were set and the end date moved, so a customer who booked a holiday
+// three weeks out and then changed the dates had nothing to change — they had
+// to resume, lose the history, and pause again. And when the pause ran out,
+// runAutoResumePausedCustomers flipped the customer back without a word to
+// anyone, so the kitchen found out the next morning from the order list.
+//
+// A pause is now a CustomerPause row with a lifecycle:
+//
+//   scheduled  booked; may be moved or cancelled until its start date. Nothing
+//              else knows about it yet — delivery rules and the end date only
+//              read the customer columns.
+//   active     started (startPause): copied onto Customer.is_paused /
+//              pause_start_date / pause_resume_date, and the end date is
+//              recomputed once, now that the dates are final.
+//   completed  over, on its resume date or when the customer resumed early.
+//   cancelled  called off before it started.
+//
+// runPauseSchedule() moves pauses along and sends the "deliveries restart
+// tomorrow" reminder. It runs in both cron schedules: the nightly one lands
+// after midnight in the Gulf and South Asia, so a pause starting today is in
+// force before anyone builds today's batches.
+
+import { prisma } from './prisma';
+import { addDaysToDateStr, recomputeCustomerDays } from './subscriptionDays';
+import { todayInTimezone } from './weekend';
+import { sendMerchantWhatsApp } from '../services/whatsapp';
+import { sendPushToCustomer, sendPushToUser } from '../services/pushNotification';
+
+/** The longest one pause may run, as it always has been. */
+export const MAX_PAUSE_DAYS = 30;
+/** How many pauses a customer may have booked and not yet started. */
+export const MAX_SCHEDULED_PAUSES = 3;
+
+/** Pauses that still hold their dates: booked, or in force. */
+export const OPEN_PAUSE_STATUSES = ['scheduled', 'active'];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type Pause = NonNullable<Awaited<ReturnType<typeof prisma.customerPause.findFirst>>>;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+/**
+ * Check a pause's dates. `resume` is the first day food arrives again, so a
+ * pause of one day has resume = start + 1.
+ */
+export function validatePauseDates(
+  start: unknown,
+  resume: unknown,
+  today: string
+): { ok: true; start_date: string; resume_date: string; days: number } | { ok: false; error: string } {
+  if (!start || !resume) return { ok: false, error: 'Pause start and end dates are required' };
+  if (typeof start !== 'string' || !DATE_RE.test(start) || typeof resume !== 'string' || !DATE_RE.test(resume)) {
+    return { ok: false, error: 'Pause dates must be YYYY-MM-DD' };
+  }
+  if (start < today) return { ok: false, error: 'Pause start date cannot be in the past' };
+  if (resume <= start) return { ok: false, error: 'Pause end date must be after start date' };
+  const days = daysBetween(start, resume);
+  if (days > MAX_PAUSE_DAYS) return { ok: false, error: `Maximum pause duration is ${MAX_PAUSE_DAYS} days` };
+  return { ok: true, start_date: start, resume_date: resume, days };
+}
+
+/** Another open pause of the customer's that shares a day with [start, resume). */
+export async function findOverlappingPause(customerId: string, start: string, resume: string, exceptId?: string) {
+  return prisma.customerPause.findFirst({
+    where: {
+      customer_id: customerId,
+      status: { in: OPEN_PAUSE_STATUSES },
+      start_date: { lt: resume },
+      resume_date: { gt: start },
+      ...(exceptId ? { NOT: { id: exceptId } } : {}),
+    },
+  });
+}
+
+/** Whether the customer may still move or cancel the pause: not yet started. */
+export function isPauseEditable(pause: Pause, today: string): boolean {
+  return pause.status === 'scheduled' && pause.start_date > today;
+}
+
+/**
+ * Put a pause in force: mirror it onto the customer, record it in their pause
+ * history, and recompute the end date now that the dates cannot change.
+ */
+export async function startPause(pause: Pause) {
+  const customer = await prisma.customer.findUnique({ where: { id: pause.customer_id } });
+  if (!customer) return null;
+
+  const days = daysBetween(pause.start_date, pause.resume_date);
+  const history = Array.isArray(customer.pause_history) ? [...(customer.pause_history as any[])] : [];
+  history.push({
+    pause_id: pause.id,
+    pause_start: pause.start_date,
+    pause_end: pause.resume_date,
+    pause_days: days,
+    created_at: pause.created_at.toISOString(),
+  });
+
+  await prisma.customer.update({
+    where: { id: customer.id },
+    data: {
+      is_paused: true,
+      pause_start_date: pause.start_date,
+      pause_resume_date: pause.resume_date,
+      original_end_date: customer.end_date ? customer.end_date.toISOString().split('T')[0] : null,
+      total_pause_days: (customer.total_pause_days || 0) + days,
+      pause_history: history,
+      status: 'paused',
+    },
+  });
+  await prisma.customerPause.update({ where: { id: pause.id }, data: { status: 'active', started_at: new Date() } });
+  return recomputeCustomerDays(customer.id);
+}
+
+/**
+ * End the pause in force — on its resume date, or early when the customer
+ * resumes — and bring the end date back in by any days not paused.
+ */
+export async function endPause(customerId: string) {
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: { is_paused: false, pause_start_date: null, pause_resume_date: null, status: 'active' },
+  });
+  await prisma.customerPause.updateMany({
+    where: { customer_id: customerId, status: 'active' },
+    data: { status: 'completed', ended_at: new Date() },
+  });
+  return recomputeCustomerDays(customerId);
+}
+
+/** What the portal shows of a pause. */
+export function portalPause(pause: Pause, today: string) {
+  return {
+    id: pause.id,
+    start_date: pause.start_date,
+    resume_date: pause.resume_date,
+    days: daysBetween(pause.start_date, pause.resume_date),
+    status: pause.status,
+    editable: isPauseEditable(pause, today),
+  };
+}
+
+async function sendResumeReminder(
+  pause: Pause,
+  customer: { id: string; full_name: string; phone_number: string | null },
+  merchant: { id: string; email: string; business_name: string | null }
+) {
+  const business = merchant.business_name || 'your tiffin service';
+  const message = `Hello ${customer.full_name}, your pause ends today — deliveries from ${business} restart tomorrow (${pause.resume_date}).`;
+
+  if (customer.phone_number) {
+    try {
+      await sendMerchantWhatsApp(merchant.id, { to: customer.phone_number, message });
+    } catch (e) { /* WhatsApp optional */ }
+  }
+  sendPushToCustomer(customer.id, 'Deliveries restart tomorrow', message, { type: 'pause_ending' }).catch(() => {});
+
+  await prisma.notification.create({
+    data: {
+      user_email: merchant.email,
+      title: 'Customer Resumes Tomorrow',
+      message: `${customer.full_name}'s pause ends today; deliveries restart tomorrow (${pause.resume_date}).`,
+      type: 'resume',
+      notification_type: 'info',
+      customer_id: customer.id,
+      customer_name: customer.full_name,
+      phone_number: customer.phone_number,
+    },
+  });
+  sendPushToUser(merchant.id, 'Resumes Tomorrow', `${customer.full_name} is back on deliveries from tomorrow`, {
+    type: 'delivery', customerId: customer.id,
+  }).catch(() => {});
+
+  await prisma.customerPause.update({ where: { id: pause.id }, data: { reminder_sent_at: new Date() } });
+}
+
+/**
+ * The pause job, per merchant and in the merchant's own calendar:
+ *
+ *  1. adopt pauses set straight on the customer record (the merchant's form,
+ *     rows from before this table) as active rows, so they get the reminder,
+ *     and complete active rows whose customer the merchant has un-paused;
+ *  2. resume customers whose resume date has come, and tell the merchant;
+ *  3. start scheduled pauses whose start date has come — after 2, so a pause
+ *     booked back to back with the last one starts the day the last one ends;
+ *  4. remind the customer and merchant the day before a pause ends.
+ *
+ * Each step is idempotent, so running twice a day does no harm.
+ */
+export async function runPauseSchedule() {
+  const [scheduled, active, paused] = await Promise.all([
+    prisma.customerPause.findMany({ where: { status: 'scheduled' }, orderBy: { start_date: 'asc' } }),
+    prisma.customerPause.findMany({ where: { status: 'active' } }),
+    prisma.customer.findMany({ where: { is_paused: true, is_deleted: false } }),
+  ]);
+  const merchantIds = [...new Set([...scheduled, ...active, ...paused].map((r) => r.created_by))];
+  const merchants = new Map(
+    (await prisma.user.findMany({
+      where: { id: { in: merchantIds } },
+      select: { id: true, email: true, business_name: true, timezone: true },
+    })).map((m) => [m.id, m])
+  );
+  const todayFor = (merchantId: string) => todayInTimezone(merchants.get(merchantId)?.timezone);
+
+  let adopted = 0;
+  let resumed = 0;
+  let started = 0;
+  let reminded = 0;
+
+  const pausedIds = new Set(paused.map((c) => c.id));
+  const lapsed = active.filter((p) => !pausedIds.has(p.customer_id)).map((p) => p.id);
+  if (lapsed.length > 0) {
+    await prisma.customerPause.updateMany({ where: { id: { in: lapsed } }, data: { status: 'completed', ended_at: new Date() } });
+  }
+
+  const activeByCustomer = new Map(active.filter((p) => pausedIds.has(p.customer_id)).map((p) => [p.customer_id, p]));
+  for (const customer of paused) {
+    if (activeByCustomer.has(customer.id) || !customer.pause_resume_date) continue;
+    try {
+      const pause = await prisma.customerPause.create({
+        data: {
+          customer_id: customer.id,
+          start_date: customer.pause_start_date || todayFor(customer.created_by),
+          resume_date: customer.pause_resume_date,
+          status: 'active',
+          reason: 'Set on the customer record',
+          started_at: new Date(),
+          created_by: customer.created_by,
+        },
+      });
+      activeByCustomer.set(customer.id, pause);
+      adopted++;
+    } catch (err) {
+      console.error(`[Pauses] Failed to adopt the pause of customer ${customer.id}:`, err);
+    }
+  }
+
+  for (const customer of paused) {
+    if (!customer.pause_resume_date || customer.pause_resume_date > todayFor(customer.created_by)) continue;
+    try {
+      await endPause(customer.id);
+      activeByCustomer.delete(customer.id);
+      const merchant = merchants.get(customer.created_by);
+      if (merchant) {
+        await prisma.notification.create({
+          data: {
+            user_email: merchant.email,
+            title: 'Customer Auto-Resumed',
+            message: `${customer.full_name}'s pause period ended and their subscription has been automatically resumed.`,
+            type: 'resume',
+            notification_type: 'info',
+            customer_id: customer.id,
+            customer_name: customer.full_name,
+            phone_number: customer.phone_number,
+          },
+        });
+        sendPushToUser(merchant.id, 'Subscription Resumed', `${customer.full_name}'s pause ended — service auto-resumed`, {
+          type: 'delivery', customerId: customer.id,
+        }).catch(() => {});
+      }
+      resumed++;
+    } catch (err) {
+      console.error(`[Pauses] Failed to resume customer ${customer.id}:`, err);
+    }
+  }
+
+  for (const pause of scheduled) {
+    const today = todayFor(pause.created_by);
+    if (pause.start_date > today || activeByCustomer.has(pause.customer_id)) continue;
+    try {
+      // Missed entirely (the job did not run for its whole length): the days
+      // were not kept free, so there is nothing left to put in force.
+      if (pause.resume_date <= today) {
+        await prisma.customerPause.update({ where: { id: pause.id }, data: { status: 'completed', ended_at: new Date() } });
+        continue;
+      }
+      await startPause(pause);
+      activeByCustomer.set(pause.customer_id, { ...pause, status: 'active' });
+      started++;
+    } catch (err) {
+      console.error(`[Pauses] Failed to start pause ${pause.id}:`, err);
+    }
+  }
+
+  for (const pause of activeByCustomer.values()) {
+    const merchant = merchants.get(pause.created_by);
+    if (!merchant || pause.reminder_sent_at) continue;
+    if (pause.resume_date !== addDaysToDateStr(todayFor(pause.created_by), 1)) continue;
+    // Another pause booked from the resume date means deliveries do not restart.
+    if (scheduled.some((p) => p.customer_id === pause.customer_id && p.start_date === pause.resume_date)) continue;
+    try {
+      const customer = await prisma.customer.findUnique({
+        where: { id: pause.customer_id },
+        select: { id: true, full_name: true, phone_number: true, is_deleted: true },
+      });
+      if (!customer || customer.is_deleted) continue;
+      await sendResumeReminder(pause, customer, merchant);
+      reminded++;
+    } catch (err) {
+      console.error(`[Pauses] Failed to send the resume reminder for pause ${pause.id}:`, err);
+    }
+  }
+
+  return { success: true, adopted, resumed, started, reminded };
+}
@@ -0,0 +1,157 @@
+// Customer plans: the catalogue a merchant sells from, and how a plan turns
+// into a customer's terms.
+//
+// Before plans, every customer carried a hand-typed payment_amount, paid_days
+// and meal_type, so two customers on "the same" plan drifted apart one edit at
+// a time. A plan is now the source for new customers and for every renewal.
+// The customer's own columns still hold the terms of the cycle they are on —
+// that is what makes a price change apply only from the next cycle: nothing
+// rewrites them until the customer renews.
+
+import { addDays } from 'date-fns';
+import { prisma } from './prisma';
+import { isWeekendDate } from './weekend';
+import { recomputeCustomerDays } from './subscriptionDays';
+import { postWalletEntry, walletBalance } from './wallet';
+
+export type Plan = NonNullable<Awaited<ReturnType<typeof prisma.subscriptionPlan.findFirst>>>;
+
+/**
+ * A merchant's plan by id. `forSale` restricts to plans a customer may pick
+ * themselves — active and shown on the portal. Renewals do not pass it: a
+ * customer on a plan the merchant has since retired still renews on it.
+ */
+export async function findPlan(planId: unknown, merchantId: string, options: { forSale?: boolean } = {}) {
+  if (typeof planId !== 'string' || !planId) return null;
+  return prisma.subscriptionPlan.findFirst({
+    where: {
+      id: planId,
+      created_by: merchantId,
+      ...(options.forSale ? { is_active: true, show_on_portal: true } : {}),
+    },
+  });
+}
+
+/** What the public join page and the portal show for each plan on sale. */
+export function publicPlan(plan: Plan) {
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    meal_type: plan.meal_type,
+    menu_style: plan.menu_style,
+    days: plan.days,
+    price: plan.price,
+    skip_weekends: plan.skip_weekends,
+  };
+}
+
+export async function listPlansForSale(merchantId: string) {
+  const plans = await prisma.subscriptionPlan.findMany({
+    where: { created_by: merchantId, is_active: true, show_on_portal: true },
+    orderBy: [{ sort_order: 'asc' }, { price: 'asc' }],
+  });
+  return plans.map(publicPlan);
+}
+
+/**
+ * Customer columns a plan sets when a customer starts on it. Attribute values
+ * start from the plan's defaults, with anything the customer chose on top.
+ */
+export function customerFieldsFromPlan(plan: Plan, chosenAttributes?: Record<string, unknown> | null) {
+  const defaults = (plan.default_attribute_values ?? {}) as Record<string, unknown>;
+  return {
+    plan_id: plan.id,
+    meal_type: plan.meal_type,
+    menu_style: plan.menu_style,
+    skip_weekends: plan.skip_weekends,
+    payment_amount: plan.price,
+    paid_days: plan.days,
+    days_remaining: plan.days,
+    attribute_values: { ...defaults, ...(chosenAttributes ?? {}) } as any,
+  };
+}
+
+/**
+ * What the customer's next cycle costs and how many days it buys: the plan's
+ * current terms for a customer on a plan, otherwise their own payment_amount
+ * for 30 days. paid_days is not a cycle length — renewals add to it — so it
+ * cannot stand in for one.
+ */
+export async function renewalTerms(customer: {
+  plan_id: string | null;
+  payment_amount: number | null;
+  created_by: string;
+}) {
+  const plan = customer.plan_id ? await findPlan(customer.plan_id, customer.created_by) : null;
+  if (plan) return { plan, amount: plan.price, days: plan.days };
+  return { plan: null, amount: customer.payment_amount || 0, days: 30 };
+}
+
+/**
+ * The calendar date the last of `days` service days falls on, counting from
+ * `start` and leaving out weekends when the plan skips them.
+ */
+export function serviceEndDate(start: Date, days: number, skipWeekends: boolean): Date {
+  let date = start;
+  let counted = 0;
+  for (;;) {
+    if (!skipWeekends || !isWeekendDate(date.toISOString().split('T')[0])) counted++;
+    if (counted >= days) return date;
+    date = addDays(date, 1);
+  }
+}
+
+/**
+ * Move a customer onto a target plan or meal combination mid-cycle. The new
+ * terms apply at once (this is the change they asked for, not a renewal), so
+ * payment_amount becomes the target's cycle price. With `extend`, the unused
+ * value has been converted to days on the target, which become the paid days
+ * still to deliver, and the end date is re-derived from them; without it the
+ * paid days are untouched because the difference was paid. Either way the
+ * skips and wallet balance that were counted as credit are used up — the
+ * balance through a plan_change wallet entry.
+ */
+export async function applyPlanChange(
+  customerId: string,
+  change: {
+    plan: Plan | null;
+    meal_type: string;
+    cycle_price: number;
+    skip_ids: string[];
+    extend?: { days: number; leftover_meals: number; delivered_days: number };
+  }
+) {
+  const data: Record<string, unknown> = {
+    meal_type: change.meal_type,
+    payment_amount: change.cycle_price,
+    ...(change.plan ? { plan_id: change.plan.id, menu_style: change.plan.menu_style, skip_weekends: change.plan.skip_weekends } : {}),
+  };
+  if (change.extend) data.paid_days = change.extend.delivered_days + change.extend.days;
+
+  const customer = await prisma.customer.update({ where: { id: customerId }, data });
+
+  // The balance was valued into the change, so it ends at the leftover meals
+  // (when extending) or at zero (when the difference was paid).
+  const balance = await walletBalance(customerId);
+  const target = change.extend ? change.extend.leftover_meals : 0;
+  if (balance !== target) {
+    await postWalletEntry({
+      customer_id: customerId,
+      created_by: customer.created_by,
+      entry_type: 'plan_change',
+      meals: target - balance,
+      reason: `Moved to ${change.plan?.name || change.meal_type}; balance valued into the change`,
+    });
+  }
+
+  if (change.skip_ids.length > 0) {
+    await prisma.tiffinSkip.updateMany({
+      where: { id: { in: change.skip_ids }, customer_id: customerId, carry_forward_applied: false },
+      data: { carry_forward_applied: true, status: 'applied' },
+    });
+  }
+  // Re-derived either way: the target may skip weekends where the old plan
+  // did not.
+  return (await recomputeCustomerDays(customerId))!.customer;
+}
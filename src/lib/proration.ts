@@ -0,0 +1,128 @@
+// Mid-cycle plan changes: what the unused part of a cycle is worth, and what
+// the same days cost on the new plan.
+//
+// Merchants did this on a calculator and typed the result into end_date and
+// payment_amount, so two changes of the same kind came out differently. The
+// arithmetic lives here, free of the database, so the preview and the applied
+// change are the same numbers.
+//
+// Everything is valued per meal at the rate the customer actually paid for
+// their current cycle. Unused value is:
+//
+//   * paid days not yet delivered, at the current plan's meals per day;
+//   * tiffin_balance — meals carried forward from skips that did not make up a
+//     whole day;
+//   * meals skipped on days that were otherwise delivered (lunch skipped, dinner
+//     delivered) and not yet carried forward. A whole-day skip is already in
+//     the undelivered days and is not counted twice.
+
+import { skipCoversMeal } from './deliveries';
+
+const MEALS = ['Breakfast', 'Lunch', 'Dinner'];
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** The meals a meal_type such as "Lunch + Dinner" names, in serving order. */
+export function planMeals(mealType: string | null | undefined): string[] {
+  const meal = String(mealType || '').toLowerCase();
+  return MEALS.filter((m) => meal.includes(m.toLowerCase()));
+}
+
+/** Meals per day in a meal_type such as "Lunch + Dinner". At least one. */
+export function mealsPerDay(mealType: string | null | undefined): number {
+  return Math.max(1, planMeals(mealType).length);
+}
+
+/**
+ * Meals skipped on days that were still partly delivered. `skips` should be
+ * the customer's active skips in the current cycle that have not been carried
+ * forward.
+ */
+export function partialSkipMeals(
+  skips: { skip_date: string; meal_type: string | null }[],
+  customerMealType: string | null | undefined
+): number {
+  const plan = planMeals(customerMealType);
+  if (plan.length < 2) return 0;
+
+  const skippedByDate = new Map<string, Set<string>>();
+  for (const skip of skips) {
+    if (!skippedByDate.has(skip.skip_date)) skippedByDate.set(skip.skip_date, new Set());
+    for (const meal of plan) if (skipCoversMeal(skip.meal_type, meal)) skippedByDate.get(skip.skip_date)!.add(meal);
+  }
+  let meals = 0;
+  for (const skipped of skippedByDate.values()) {
+    if (skipped.size < plan.length) meals += skipped.size;
+  }
+  return meals;
+}
+
+export interface ProrationInput {
+  current: {
+    meal_type: string | null;
+    /** Price of the current cycle. */
+    price: number;
+    /** Service days the current cycle's price bought. */
+    cycle_days: number;
+    paid_days: number;
+    delivered_days: number;
+    tiffin_balance: number;
+    partial_skip_meals: number;
+  };
+  target: {
+    meal_type: string;
+    /** Price and days of one cycle of the target; omitted when only the meals change. */
+    price?: number;
+    days?: number;
+  };
+}
+
+export interface ProrationResult {
+  unused_days: number;
+  unused_meals: number;
+  current_meal_rate: number;
+  credit: number;
+  target_day_rate: number;
+  /** What the unused days cost on the target. */
+  target_cost: number;
+  /** target_cost − credit: positive is owed by the customer, negative is owed to them. */
+  difference: number;
+  /** If the credit is spent on target days instead of money changing hands. */
+  extend: { days: number; leftover_meals: number };
+}
+
+export function prorate(input: ProrationInput): ProrationResult {
+  const { current, target } = input;
+  const currentMeals = mealsPerDay(current.meal_type);
+  const targetMeals = mealsPerDay(target.meal_type);
+
+  const unusedDays = Math.max(current.paid_days - current.delivered_days, 0);
+  const unusedMeals = unusedDays * currentMeals + Math.max(current.tiffin_balance, 0) + current.partial_skip_meals;
+  const cycleMeals = Math.max(current.cycle_days, 1) * currentMeals;
+  const mealRate = current.price > 0 ? current.price / cycleMeals : 0;
+  const credit = unusedMeals * mealRate;
+
+  // With a target plan its own price sets the rate. With only a meal change the
+  // customer keeps paying what they pay per meal, for more or fewer meals.
+  const targetDayRate = target.price != null && target.days
+    ? target.price / target.days
+    : mealRate * targetMeals;
+  const targetCost = unusedDays * targetDayRate;
+
+  // Spending the credit as days: whole days first, and whatever is left over
+  // as meals at the target's rate, which go back on the tiffin balance.
+  const days = targetDayRate > 0 ? Math.floor(credit / targetDayRate + 1e-9) : unusedDays;
+  const leftoverValue = credit - days * targetDayRate;
+  const targetMealRate = targetDayRate / targetMeals;
+  const leftoverMeals = targetMealRate > 0 ? Math.floor(leftoverValue / targetMealRate + 1e-9) : 0;
+
+  return {
+    unused_days: unusedDays,
+    unused_meals: unusedMeals,
+    current_meal_rate: round2(mealRate),
+    credit: round2(credit),
+    target_day_rate: round2(targetDayRate),
+    target_cost: round2(targetCost),
+    difference: round2(targetCost - credit),
+    extend: { days, leftover_meals: Math.max(leftoverMeals, 0) },
+  };
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planReceipts, validateReceipts } from './purchaseOrders';
+
+const rice = { id: 'rice', unit: 'kg', unit_conversions: [{ unit: 'sack', quantity: 25, to_unit: 'kg' }] };
+const line = (overrides: Partial<{ quantity: number; received_quantity: number; unit: string | null; cost_per_unit: number | null }> = {}) => ({
+  id: 'line-1',
+  ingredient_id: 'rice',
+  ingredient_name: 'Rice',
+  quantity: 50,
+  unit: 'kg',
+  cost_per_unit: 80,
+  received_quantity: 0,
+  ...overrides,
+});
+const receipt = (quantity: number, unit: string | null = null, cost_per_unit: number | null = null) => ({
+  line_id: 'line-1',
+  quantity,
+  unit,
+  cost_per_unit,
+});
+const plan = (l: ReturnType<typeof line>, receipts: ReturnType<typeof receipt>[]) =>
+  planReceipts(new Map([[l.id, l]]), new Map([[rice.id, rice]]), receipts);
+
+test('a receipt up to what is outstanding is planned at the line cost', () => {
+  const result = plan(line({ received_quantity: 20 }), [receipt(30)]);
+  assert.ok(result.ok);
+  assert.equal(result.planned[0].lineQuantity, 30);
+  assert.equal(result.planned[0].cost, 80);
+});
+
+test('a receipt in another unit is converted to the line, its cost carried over', () => {
+  const result = plan(line(), [receipt(2, 'sack')]);
+  assert.ok(result.ok);
+  assert.equal(result.planned[0].lineQuantity, 50);
+  assert.equal(result.planned[0].cost, 2000);
+});
+
+test('a cost given on the receipt wins, even a cost of 0', () => {
+  const result = plan(line(), [receipt(10, null, 0)]);
+  assert.ok(result.ok);
+  assert.equal(result.planned[0].cost, 0);
+});
+
+test('more than is outstanding is refused', () => {
+  const result = plan(line({ received_quantity: 40 }), [receipt(15)]);
+  assert.equal(result.ok, false);
+  assert.match(!result.ok ? result.error : '', /only 10 kg outstanding/);
+});
+
+test('receipts for the same line in one delivery are added together against it', () => {
+  assert.equal(plan(line({ received_quantity: 40 }), [receipt(5), receipt(5)]).ok, true);
+  assert.equal(plan(line({ received_quantity: 40 }), [receipt(5), receipt(6)]).ok, false);
+});
+
+test('a fully received line takes nothing more', () => {
+  assert.equal(plan(line({ received_quantity: 50 }), [receipt(0.5)]).ok, false);
+});
+
+test('a line not on the order, or a unit that does not convert, is refused', () => {
+  const l = line();
+  assert.equal(planReceipts(new Map([[l.id, l]]), new Map([[rice.id, rice]]), [{ ...receipt(1), line_id: 'other' }]).ok, false);
+  assert.equal(plan(l, [receipt(1, 'litre')]).ok, false);
+});
+
+test('receipts need a line and a quantity above zero', () => {
+  assert.equal(validateReceipts([]).ok, false);
+  assert.equal(validateReceipts([{ line_id: 'line-1', quantity: 0 }]).ok, false);
+  assert.equal(validateReceipts([{ line_id: 'line-1', quantity: 2, cost_per_unit: -1 }]).ok, false);
+  assert.deepEqual(validateReceipts([{ line_id: 'line-1', quantity: '2', unit: ' sack ', cost_per_unit: '' }]), {
+    ok: true,
+    receipts: [{ line_id: 'line-1', quantity: 2, unit: 'sack', cost_per_unit: null }],
+  });
+});
@@ -0,0 +1,467 @@
+// Purchase orders: reordering from suppliers when stock runs low.
+//
+// /functions/check-low-stock emailed the merchant a list of what was under
+// min_stock_threshold and stopped there; the order itself went out as a
+// phone call nobody wrote down, and the delivery was typed in as a purchase
+// from memory. Each ingredient can now carry a reorder point, a reorder
+// quantity and a preferred supplier. When stock falls to the reorder point,
+// a draft order line is added for that supplier — one draft per supplier, so
+// a morning's shortages become one order each rather than one per ingredient.
+//
+// Stock already on order counts towards the reorder point: an ingredient with
+// an order out for enough to clear it is not drafted again.
+//
+// The merchant checks the draft, sends it by email or WhatsApp, and receives
+// it when the goods arrive — in full or line by line as they come. Every
+// receipt is a Purchase row with its stock movement (lib/inventory.ts
+// recordPurchase), so receiving against an order and adding a purchase by
+// hand leave the same trail. An order the supplier will not finish is closed,
+// writing off what never came.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { convertQuantity } from './units';
+import { recordPurchaseIn } from './inventory';
+import { escapeHtml } from './html';
+import { sendEmail } from '../services/email';
+import { sendMerchantWhatsApp } from '../services/whatsapp';
+import { sendPushToUser } from '../services/pushNotification';
+import { hasProductAccess } from '../middleware/auth';
+
+export const PO_CHANNELS = ['email', 'whatsapp', 'both'] as const;
+export type PoChannel = (typeof PO_CHANNELS)[number];
+
+/** Orders whose lines still count as on order. */
+const OPEN_STATUSES = ['draft', 'sent', 'partially_received'];
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type PurchaseOrder = NonNullable<Awaited<ReturnType<typeof prisma.purchaseOrder.findFirst>>>;
+export type ReceiptInput = { line_id: string; quantity: number; unit: string | null; cost_per_unit: number | null };
+
+/**
+ * Ingredients at or below their reorder point, net of what is already on
+ * order. One that cannot be drafted says why: no reorder quantity, or no
+ * supplier to send it to.
+ */
+export async function reorderSuggestions(merchantId: string) {
+  const ingredients = await prisma.ingredient.findMany({
+    where: { created_by: merchantId, reorder_point: { not: null } },
+    orderBy: { name: 'asc' },
+  });
+  if (ingredients.length === 0) return [];
+
+  const [openOrders, suppliers] = await Promise.all([
+    prisma.purchaseOrder.findMany({
+      where: { created_by: merchantId, status: { in: OPEN_STATUSES } },
+      select: { id: true },
+    }),
+    prisma.supplier.findMany({ where: { created_by: merchantId }, select: { id: true, name: true } }),
+  ]);
+  const openLines = await prisma.purchaseOrderLine.findMany({
+    where: { purchase_order_id: { in: openOrders.map((po) => po.id) }, ingredient_id: { in: ingredients.map((i) => i.id) } },
+  });
+  const supplierName = new Map(suppliers.map((s) => [s.id, s.name]));
+
+  const suggestions = [];
+  for (const ingredient of ingredients) {
+    let onOrder = 0;
+    for (const line of openLines.filter((l) => l.ingredient_id === ingredient.id)) {
+      const outstanding = Math.max(0, line.quantity - line.received_quantity);
+      const converted = convertQuantity(outstanding, line.unit, ingredient.unit, ingredient.unit_conversions);
+      onOrder += converted.ok ? converted.quantity : outstanding;
+    }
+    const stock = ingredient.current_stock || 0;
+    if (stock + onOrder > (ingredient.reorder_point ?? 0)) continue;
+
+    const supplierId = ingredient.preferred_supplier_id && supplierName.has(ingredient.preferred_supplier_id)
+      ? ingredient.preferred_supplier_id
+      : null;
+    suggestions.push({
+      ingredient_id: ingredient.id,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      current_stock: stock,
+      on_order: round4(onOrder),
+      reorder_point: ingredient.reorder_point,
+      reorder_quantity: ingredient.reorder_quantity,
+      cost_per_unit: ingredient.cost_per_unit,
+      supplier_id: supplierId,
+      supplier_name: supplierId ? supplierName.get(supplierId) ?? null : null,
+      problem: !(ingredient.reorder_quantity && ingredient.reorder_quantity > 0)
+        ? 'no_reorder_quantity'
+        : !supplierId ? 'no_supplier' : null,
+    });
+  }
+  return suggestions;
+}
+
+/** The next PO-0001-style number for a merchant. */
+async function nextPoNumber(merchantId: string) {
+  const count = await prisma.purchaseOrder.count({ where: { created_by: merchantId } });
+  return `PO-${String(count + 1).padStart(4, '0')}`;
+}
+
+async function refreshTotal(poId: string) {
+  const lines = await prisma.purchaseOrderLine.findMany({ where: { purchase_order_id: poId } });
+  const total = lines.reduce((sum, l) => sum + l.quantity * (l.cost_per_unit || 0), 0);
+  return prisma.purchaseOrder.update({ where: { id: poId }, data: { total_cost: round2(total) } });
+}
+
+/**
+ * Draft orders for every suggestion that can be drafted, adding to the
+ * supplier's open draft where there is one. Safe to run again: drafted lines
+ * are on order, so the same shortage is not drafted twice.
+ *
+ * A line already on the draft is not topped up, even when stock has fallen
+ * further since: the quantity on a draft is the merchant's to set, and adding
+ * to it each morning would undo their edit. `lines_added` counts only lines
+ * this run created, so an ingredient still short against its draft line does
+ * not announce a new draft every day.
+ */
+export async function draftPurchaseOrders(merchantId: string) {
+  const suggestions = await reorderSuggestions(merchantId);
+  const bySupplier = new Map<string, typeof suggestions>();
+  for (const s of suggestions) {
+    if (s.problem) continue;
+    if (!bySupplier.has(s.supplier_id!)) bySupplier.set(s.supplier_id!, []);
+    bySupplier.get(s.supplier_id!)!.push(s);
+  }
+
+  const drafted: PurchaseOrder[] = [];
+  let linesAdded = 0;
+  for (const [supplierId, items] of bySupplier) {
+    let po = await prisma.purchaseOrder.findFirst({
+      where: { created_by: merchantId, supplier_id: supplierId, status: 'draft' },
+      orderBy: { created_at: 'desc' },
+    });
+    // Two drafts created at once can pick the same number; the unique index
+    // turns that into a retry with the next one.
+    for (let attempt = 0; !po && attempt < 3; attempt++) {
+      try {
+        po = await prisma.purchaseOrder.create({
+          data: {
+            po_number: await nextPoNumber(merchantId),
+            supplier_id: supplierId,
+            supplier_name: items[0].supplier_name,
+            created_by: merchantId,
+          },
+        });
+      } catch (err) {
+        if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002')) throw err;
+      }
+    }
+    if (!po) throw new Error('Could not number a new purchase order');
+
+    const created = await prisma.purchaseOrderLine.createMany({
+      data: items.map((item) => ({
+        purchase_order_id: po!.id,
+        ingredient_id: item.ingredient_id,
+        ingredient_name: item.name,
+        quantity: item.reorder_quantity!,
+        unit: item.unit,
+        cost_per_unit: item.cost_per_unit,
+        created_by: merchantId,
+      })),
+      skipDuplicates: true,
+    });
+    if (created.count === 0) continue;
+    drafted.push(await refreshTotal(po.id));
+    linesAdded += created.count;
+  }
+  return { drafted, lines_added: linesAdded, needs_attention: suggestions.filter((s) => s.problem) };
+}
+
+/**
+ * The daily job: draft for every merchant with reorder points set, and tell
+ * them when something new is waiting to be sent. Nothing goes to a supplier
+ * without the merchant sending it.
+ */
+export async function runPurchaseOrderDrafts() {
+  const owners = await prisma.ingredient.findMany({
+    where: { reorder_point: { not: null } },
+    select: { created_by: true },
+    distinct: ['created_by'],
+  });
+  const merchants = await prisma.user.findMany({ where: { id: { in: owners.map((o) => o.created_by) } } });
+
+  let merchantsDrafted = 0;
+  let linesAdded = 0;
+  for (const merchant of merchants) {
+    if (!hasProductAccess(merchant)) continue;
+    try {
+      const result = await draftPurchaseOrders(merchant.id);
+      if (result.lines_added === 0) continue;
+      merchantsDrafted++;
+      linesAdded += result.lines_added;
+      sendPushToUser(
+        merchant.id,
+        'Purchase orders drafted',
+        `${result.lines_added} item${result.lines_added === 1 ? '' : 's'} reached the reorder point. Review and send.`,
+        { type: 'purchase_orders' }
+      ).catch(() => {});
+    } catch (err) {
+      console.error(`[PurchaseOrders] Drafting failed for merchant ${merchant.id}:`, err);
+    }
+  }
+  return { success: true, merchants: merchantsDrafted, lines_added: linesAdded };
+}
+
+/**
+ * Edit a draft: quantities, costs, the expected date and notes. A line set to
+ * zero is removed; an order with no lines left cannot be sent.
+ */
+export async function updateDraft(
+  po: PurchaseOrder,
+  body: any
+): Promise<{ ok: true; po: PurchaseOrder } | { ok: false; error: string }> {
+  if (po.status !== 'draft') return { ok: false, error: 'Only a draft can be edited' };
+  if (body.expected_date != null && body.expected_date !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(String(body.expected_date))) {
+    return { ok: false, error: 'expected_date must be YYYY-MM-DD' };
+  }
+  const lines: any[] = body.lines == null ? [] : body.lines;
+  if (!Array.isArray(lines)) return { ok: false, error: 'lines must be a list of { id, quantity, cost_per_unit? }' };
+  for (const line of lines) {
+    const quantity = Number(line?.quantity);
+    if (typeof line?.id !== 'string' || !Number.isFinite(quantity) || quantity < 0) {
+      return { ok: false, error: 'Each line needs an id and a quantity of zero or more' };
+    }
+    if (line.cost_per_unit != null && !(Number(line.cost_per_unit) >= 0)) {
+      return { ok: false, error: 'cost_per_unit must be zero or more' };
+    }
+  }
+
+  for (const line of lines) {
+    const quantity = Number(line.quantity);
+    if (quantity === 0) {
+      await prisma.purchaseOrderLine.deleteMany({ where: { id: line.id, purchase_order_id: po.id } });
+    } else {
+      await prisma.purchaseOrderLine.updateMany({
+        where: { id: line.id, purchase_order_id: po.id },
+        data: { quantity, ...(line.cost_per_unit != null ? { cost_per_unit: Number(line.cost_per_unit) } : {}) },
+      });
+    }
+  }
+  await prisma.purchaseOrder.update({
+    where: { id: po.id },
+    data: {
+      ...(body.expected_date !== undefined ? { expected_date: body.expected_date || null } : {}),
+      ...(body.notes !== undefined ? { notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim().slice(0, 1000) : null } : {}),
+    },
+  });
+  return { ok: true, po: await refreshTotal(po.id) };
+}
+
+/**
+ * Send an order to its supplier and mark it sent. It counts as sent when any
+ * channel delivered; a supplier with no address on a channel is reported.
+ */
+export async function sendPurchaseOrder(
+  po: PurchaseOrder,
+  merchant: { id: string; business_name?: string | null; email: string },
+  channel: PoChannel
+) {
+  const [supplier, lines] = await Promise.all([
+    prisma.supplier.findFirst({ where: { id: po.supplier_id, created_by: po.created_by } }),
+    prisma.purchaseOrderLine.findMany({ where: { purchase_order_id: po.id }, orderBy: { ingredient_name: 'asc' } }),
+  ]);
+  if (!supplier) return { ok: false as const, error: 'The supplier on this order no longer exists' };
+  if (lines.length === 0) return { ok: false as const, error: 'This order has no lines' };
+
+  const business = merchant.business_name || 'TiffinHub kitchen';
+  const describe = (l: (typeof lines)[number]) => `${l.ingredient_name}: ${round4(l.quantity)}${l.unit ? ` ${l.unit}` : ''}`;
+  const closing = [
+    po.expected_date ? `Please deliver by ${po.expected_date}.` : null,
+    po.notes,
+    `Reply to ${merchant.email} with any questions.`,
+  ].filter(Boolean) as string[];
+
+  const errors: string[] = [];
+  let whatsapp = false;
+  let email = false;
+  if (channel !== 'email') {
+    const phone = supplier.phone || supplier.contact_number;
+    if (!phone) errors.push('supplier has no phone number');
+    else {
+      const message = [`Purchase order ${po.po_number} from ${business}`, '', ...lines.map((l) => `- ${describe(l)}`), '', ...closing].join('\n');
+      try {
+        whatsapp = (await sendMerchantWhatsApp(merchant.id, { to: phone, message })).success;
+        if (!whatsapp) errors.push('WhatsApp not delivered');
+      } catch (e: any) { errors.push(`WhatsApp: ${e.message}`); }
+    }
+  }
+  if (channel !== 'whatsapp') {
+    if (!supplier.email) errors.push('supplier has no email address');
+    else {
+      const rows = lines.map((l) => `<tr><td>${escapeHtml(l.ingredient_name)}</td><td>${round4(l.quantity)} ${escapeHtml(l.unit || '')}</td></tr>`).join('');
+      try {
+        email = (await sendEmail({
+          to: supplier.email,
+          subject: `Purchase order ${po.po_number} from ${business}`,
+          body: `<h2>Purchase order ${escapeHtml(po.po_number)}</h2><p>From ${escapeHtml(business)}</p>`
+            + `<table><tr><th align="left">Item</th><th align="left">Quantity</th></tr>${rows}</table>`
+            + closing.map((c) => `<p>${escapeHtml(c)}</p>`).join(''),
+        })).success;
+        if (!email) errors.push('email not delivered');
+      } catch (e: any) { errors.push(`Email: ${e.message}`); }
+    }
+  }
+
+  if (!whatsapp && !email) return { ok: false as const, error: `Not sent: ${errors.join('; ')}` };
+  const sentVia = whatsapp && email ? 'both' : whatsapp ? 'whatsapp' : 'email';
+  const sent = await prisma.purchaseOrder.update({
+    where: { id: po.id },
+    // A reminder re-sent after a partial delivery keeps its received status.
+    data: { status: po.status === 'draft' ? 'sent' : po.status, sent_via: sentVia, sent_at: new Date() },
+  });
+  return { ok: true as const, po: sent, whatsapp, email, errors };
+}
+
+/**
+ * Close an order the supplier will not finish: what was received stays in
+ * stock, and what is outstanding is written off — the order leaves the open
+ * statuses, so its lines stop counting as on order and the reorder point can
+ * draft them again. Returns the written-off lines.
+ */
+export async function closePurchaseOrder(po: PurchaseOrder) {
+  const closed = await prisma.purchaseOrder.updateMany({
+    where: { id: po.id, status: 'partially_received' },
+    data: { status: 'closed' },
+  });
+  if (closed.count === 0) return { ok: false as const, error: 'Only a partly received purchase order can be closed' };
+  const lines = await prisma.purchaseOrderLine.findMany({ where: { purchase_order_id: po.id }, orderBy: { ingredient_name: 'asc' } });
+  const writtenOff = lines
+    .map((l) => ({ line_id: l.id, ingredient_name: l.ingredient_name, outstanding: round4(Math.max(0, l.quantity - l.received_quantity)), unit: l.unit }))
+    .filter((l) => l.outstanding > 0);
+  return { ok: true as const, po: (await prisma.purchaseOrder.findUnique({ where: { id: po.id } }))!, written_off: writtenOff };
+}
+
+/** Check receipts as sent: [{ line_id, quantity, unit?, cost_per_unit? }]. */
+export function validateReceipts(value: unknown): { ok: true; receipts: ReceiptInput[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0) return { ok: false, error: 'lines must be a non-empty list' };
+  const receipts: ReceiptInput[] = [];
+  for (const r of value) {
+    const quantity = Number(r?.quantity);
+    if (typeof r?.line_id !== 'string' || !Number.isFinite(quantity) || quantity <= 0) {
+      return { ok: false, error: 'Each received line needs a line_id and a quantity above zero' };
+    }
+    const cost = r.cost_per_unit == null || r.cost_per_unit === '' ? null : Number(r.cost_per_unit);
+    if (cost !== null && !(cost >= 0)) return { ok: false, error: 'cost_per_unit must be zero or more' };
+    receipts.push({
+      line_id: r.line_id,
+      quantity,
+      unit: typeof r.unit === 'string' && r.unit.trim() ? r.unit.trim() : null,
+      cost_per_unit: cost,
+    });
+  }
+  return { ok: true, receipts };
+}
+
+type ReceiptLine = { id: string; ingredient_id: string; ingredient_name: string; quantity: number; unit: string | null; cost_per_unit: number | null; received_quantity: number };
+type ReceiptIngredient = { id: string; unit: string | null; unit_conversions: unknown };
+
+/**
+ * Check a delivery against the order's lines before any of it is received, so
+ * a typo does not leave half a delivery in stock. Each receipt is converted to
+ * its line's unit, and its cost carried over to the unit it came in. More than
+ * a line has outstanding is refused: extra goods are a purchase of their own,
+ * not this order's.
+ */
+export function planReceipts<L extends ReceiptLine, I extends ReceiptIngredient>(
+  lines: Map<string, L>,
+  ingredients: Map<string, I>,
+  receipts: ReceiptInput[]
+) {
+  const receiving = new Map<string, number>();
+  const planned: { receipt: ReceiptInput; line: L; ingredient: I; unit: string | null; lineQuantity: number; cost: number | null }[] = [];
+  for (const receipt of receipts) {
+    const line = lines.get(receipt.line_id);
+    if (!line) return { ok: false as const, error: `Line ${receipt.line_id} is not on this order` };
+    const ingredient = ingredients.get(line.ingredient_id);
+    if (!ingredient) return { ok: false as const, error: `${line.ingredient_name} no longer exists` };
+    const unit = receipt.unit || line.unit;
+    const toLine = convertQuantity(receipt.quantity, unit, line.unit, ingredient.unit_conversions);
+    if (!toLine.ok) return { ok: false as const, error: `${line.ingredient_name}: ${toLine.error}` };
+    const toStock = convertQuantity(receipt.quantity, unit, ingredient.unit, ingredient.unit_conversions);
+    if (!toStock.ok) return { ok: false as const, error: `${line.ingredient_name}: ${toStock.error}` };
+
+    const total = (receiving.get(line.id) || 0) + toLine.quantity;
+    const outstanding = round4(Math.max(0, line.quantity - line.received_quantity));
+    if (total > outstanding + 0.0001) {
+      const unitLabel = line.unit ? ` ${line.unit}` : '';
+      return {
+        ok: false as const,
+        error: `${line.ingredient_name}: ${round4(total)}${unitLabel} received but only ${outstanding}${unitLabel} outstanding. Record the extra as a purchase`,
+      };
+    }
+    receiving.set(line.id, total);
+    // The line's cost is per its own unit; carried over to the unit received in.
+    const cost = receipt.cost_per_unit ?? (line.cost_per_unit != null
+      ? (line.cost_per_unit * toLine.quantity) / receipt.quantity
+      : null);
+    planned.push({ receipt, line, ingredient, unit, lineQuantity: toLine.quantity, cost });
+  }
+  return { ok: true as const, planned };
+}
+
+/**
+ * Receive goods against an order: a Purchase and a stock movement per line,
+ * the line's received quantity moved on, and the order marked received once
+ * every line has arrived in full. A line's quantity may come in another unit
+ * than it was ordered in; it is converted for both stock and the line.
+ *
+ * The whole delivery is received in one transaction with the order's row
+ * locked, and the lines are read under that lock: a double tap waits for the
+ * first receipt and is then checked against what it left outstanding.
+ */
+export async function receivePurchaseOrder(po: PurchaseOrder, receipts: ReceiptInput[], postedBy: string) {
+  // Longer than the 5s default: a delivery of many lines is one transaction.
+  return prisma.$transaction(async (tx) => {
+    const [current] = await tx.$queryRaw<{ status: string }[]>`
+      SELECT "status" FROM "PurchaseOrder" WHERE "id" = ${po.id} FOR UPDATE`;
+    if (!current || !OPEN_STATUSES.includes(current.status)) {
+      return { ok: false as const, error: `This purchase order is ${current?.status ?? 'gone'}` };
+    }
+    const lines = new Map(
+      (await tx.purchaseOrderLine.findMany({ where: { purchase_order_id: po.id } })).map((l) => [l.id, l])
+    );
+    const ingredients = new Map(
+      (await tx.ingredient.findMany({
+        where: { id: { in: [...lines.values()].map((l) => l.ingredient_id) }, created_by: po.created_by },
+      })).map((i) => [i.id, i])
+    );
+    const checked = planReceipts(lines, ingredients, receipts);
+    if (!checked.ok) return checked;
+
+    const today = new Date().toISOString().split('T')[0];
+    const purchases = [];
+    for (const { receipt, line, ingredient, unit, lineQuantity, cost } of checked.planned) {
+      const recorded = await recordPurchaseIn(tx, ingredient, {
+        quantity: receipt.quantity,
+        unit,
+        cost_per_unit: cost,
+        supplier: { id: po.supplier_id, name: po.supplier_name },
+        purchase_date: today,
+        notes: `Received against ${po.po_number}`,
+        purchase_order_id: po.id,
+      }, postedBy);
+      if (!recorded.ok) throw new Error(`${line.ingredient_name}: ${recorded.error}`);
+      const received = lines.get(line.id)!.received_quantity;
+      const updated = await tx.purchaseOrderLine.update({
+        where: { id: line.id },
+        data: { received_quantity: round4(received + lineQuantity) },
+      });
+      lines.set(line.id, updated);
+      purchases.push(recorded.purchase);
+    }
+
+    const complete = [...lines.values()].every((l) => l.received_quantity >= l.quantity - 0.0001);
+    const updated = await tx.purchaseOrder.update({
+      where: { id: po.id },
+      data: complete
+        ? { status: 'received', received_at: new Date() }
+        : { status: 'partially_received' },
+    });
+    return { ok: true as const, po: updated, purchases, lines: [...lines.values()] };
+  }, { timeout: 30_000 });
+}
@@ -0,0 +1,189 @@
+// Stop sequencing for a delivery batch.
+//
+// Drivers were reordering every run by hand each morning, because a batch was
+// just its items in created_at order — i.e. whatever order the merchant clicked
+// customers in. This computes a sequence locally: nearest-neighbour from the
+// kitchen for a starting tour, then 2-opt until no segment reversal shortens
+// it. For the 20–100 stops of a real run that is milliseconds and lands within
+// a few percent of optimal, which is well inside the error of the distance
+// estimate itself (see lib/geo.ts).
+//
+// The run is an open path: it starts at the kitchen and ends at the last stop.
+// Drivers do not come back between runs on a schedule worth optimising for.
+
+import { prisma } from './prisma';
+import { LatLng, estimateRoadMeters, isValidLatLng } from './geo';
+import { geocodeAddress, LookupBudget, lookupBudget } from '../services/geocoding';
+
+export interface RouteStop extends LatLng {
+  id: string;
+}
+
+export interface PlannedRoute {
+  /** Stops in driving order. */
+  order: RouteStop[];
+  /** Estimated road metres into each stop from the one before (or the origin). */
+  legs: number[];
+  total: number;
+}
+
+// Bounds the 2-opt loop. Each pass is O(n²) and converges in a handful of
+// passes; this only exists so a pathological input cannot pin the CPU.
+const MAX_TWO_OPT_PASSES = 50;
+
+/**
+ * Order stops into a short open path starting at `origin`. With no origin the
+ * path starts wherever nearest-neighbour from the first stop leads, and 2-opt
+ * is free to move the start.
+ */
+export function planRoute(origin: LatLng | null, stops: RouteStop[]): PlannedRoute {
+  if (stops.length === 0) return { order: [], legs: [], total: 0 };
+
+  // Nearest neighbour.
+  const remaining = [...stops];
+  const path: RouteStop[] = [];
+  let cursor: LatLng = origin ?? remaining[0];
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const d = estimateRoadMeters(cursor, remaining[i]);
+      if (d < bestDist) { bestDist = d; best = i; }
+    }
+    cursor = remaining[best];
+    path.push(remaining.splice(best, 1)[0]);
+  }
+
+  // 2-opt over the open path. Index -1 is the fixed origin (if any); reversing
+  // path[i..k] swaps edges (i-1,i) and (k,k+1) for (i-1,k) and (i,k+1). A
+  // missing neighbour — no origin before 0, nothing after the last stop — costs
+  // nothing, which is what makes this the open-path variant.
+  const before = (i: number): LatLng | null => (i > 0 ? path[i - 1] : origin);
+  const dist = (a: LatLng | null, b: LatLng | null) => (a && b ? estimateRoadMeters(a, b) : 0);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const a = before(i);
+        const next = k + 1 < path.length ? path[k + 1] : null;
+        const delta =
+          dist(a, path[k]) + dist(path[i], next) -
+          dist(a, path[i]) - dist(path[k], next);
+        if (delta < -0.5) {
+          const reversed = path.slice(i, k + 1).reverse();
+          path.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  const legs = path.map((stop, i) => (i === 0 ? (origin ? estimateRoadMeters(origin, stop) : 0) : estimateRoadMeters(path[i - 1], stop)));
+  return { order: path, legs, total: legs.reduce((s, d) => s + d, 0) };
+}
+
+/**
+ * The run's starting point: the batch's kitchen if it names one, else the
+ * merchant's first active kitchen. A pinned latitude/longitude wins over
+ * geocoding the kitchen's address.
+ */
+async function resolveOrigin(merchantId: string, kitchenId: string | null, budget: LookupBudget): Promise<LatLng | null> {
+  const kitchen = kitchenId
+    ? await prisma.kitchen.findFirst({ where: { id: kitchenId, created_by: merchantId } })
+    : await prisma.kitchen.findFirst({
+        where: { created_by: merchantId, is_active: true },
+        orderBy: { created_at: 'asc' },
+      });
+  if (!kitchen) return null;
+  if (isValidLatLng(kitchen.latitude, kitchen.longitude)) {
+    return { latitude: kitchen.latitude!, longitude: kitchen.longitude! };
+  }
+  return geocodeAddress(kitchen.address, { budget });
+}
+
+export interface SequenceResult {
+  batch_id: string;
+  sequenced: number;
+  /** Items that could not be placed, by name — shown to the merchant to fix. */
+  unlocated: string[];
+  route_distance_m: number;
+  origin: LatLng | null;
+}
+
+/**
+ * Geocode every stop in a batch, plan the run and store stop_sequence /
+ * leg_distance_m on each item. Unlocated items get sequence numbers after the
+ * planned ones, in their old order, so the driver still sees them.
+ *
+ * `budget` bounds the network lookups (services/geocoding.ts); a request
+ * sequencing several batches passes one budget to all of them. Stops past it
+ * are left unsequenced this time and looked up by the next run.
+ */
+export async function sequenceBatch(
+  batchId: string,
+  merchantId: string,
+  budget: LookupBudget = lookupBudget()
+): Promise<SequenceResult | null> {
+  const batch = await prisma.deliveryBatch.findFirst({ where: { id: batchId, created_by: merchantId } });
+  if (!batch) return null;
+
+  const items = await prisma.deliveryItem.findMany({
+    where: { batch_id: batch.id, created_by: merchantId },
+    orderBy: [{ stop_sequence: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }],
+  });
+
+  const origin = await resolveOrigin(merchantId, batch.kitchen_id, budget);
+
+  const located: RouteStop[] = [];
+  const unlocated: typeof items = [];
+  const coordUpdates = new Map<string, LatLng>();
+  for (const item of items) {
+    if (isValidLatLng(item.latitude, item.longitude)) {
+      located.push({ id: item.id, latitude: item.latitude!, longitude: item.longitude! });
+      continue;
+    }
+    const point = await geocodeAddress(item.customer_address, { budget });
+    if (point) {
+      located.push({ id: item.id, ...point });
+      coordUpdates.set(item.id, point);
+    } else {
+      unlocated.push(item);
+    }
+  }
+
+  const plan = planRoute(origin, located);
+
+  const writes = [
+    ...plan.order.map((stop, i) =>
+      prisma.deliveryItem.update({
+        where: { id: stop.id },
+        data: {
+          stop_sequence: i + 1,
+          leg_distance_m: Math.round(plan.legs[i]),
+          ...(coordUpdates.has(stop.id) ? coordUpdates.get(stop.id) : {}),
+        },
+      })
+    ),
+    ...unlocated.map((item, i) =>
+      prisma.deliveryItem.update({
+        where: { id: item.id },
+        data: { stop_sequence: plan.order.length + i + 1, leg_distance_m: null },
+      })
+    ),
+    prisma.deliveryBatch.update({
+      where: { id: batch.id },
+      data: { route_distance_m: Math.round(plan.total), route_optimized_at: new Date() },
+    }),
+  ];
+  await prisma.$transaction(writes);
+
+  return {
+    batch_id: batch.id,
+    sequenced: plan.order.length,
+    unlocated: unlocated.map((i) => i.customer_name || i.customer_address || i.id),
+    route_distance_m: Math.round(plan.total),
+    origin,
+  };
+}
@@ -0,0 +1,123 @@
+// Skip cutoffs: the latest a customer may skip a meal and still be credited.
+//
+// The portal took a skip for today's lunch at 12:30, after the lunch had been
+// cooked and packed, and carry-forward then credited the meal to the wallet —
+// so the merchant paid for the food twice. Each merchant now sets, per meal, a
+// time on the day or a number of days before ("lunch closes at 09:00 the same
+// day", "dinner at 20:00 the night before"), read in their own timezone.
+//
+// A skip after the cutoff is handled by the merchant's late_skip_policy:
+//
+//   * 'reject'    — the skip is refused and the customer is told the cutoff.
+//   * 'no_credit' — the skip is taken, so nobody delivers food the customer
+//                   said they will not be in for, but nothing is given back:
+//                   the skip is stored with is_late, carry-forward credits no
+//                   meals for it, and a day it empties is counted as used
+//                   (countForfeitedDay in lib/orderRuns.ts).
+
+import { planMeals } from './proration';
+import { todayInTimezone } from './weekend';
+import { addDaysToDateStr } from './subscriptionDays';
+
+export const LATE_SKIP_POLICIES = ['reject', 'no_credit'] as const;
+export type LateSkipPolicy = (typeof LATE_SKIP_POLICIES)[number];
+
+export interface MealCutoff {
+  /** "HH:MM", 24-hour, in the merchant's timezone. */
+  time: string;
+  /** 0 = the day of the meal, 1 = the day before, … */
+  days_before: number;
+}
+
+export type SkipCutoffs = Record<string, MealCutoff>;
+
+const MEALS = ['Breakfast', 'Lunch', 'Dinner'];
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Check cutoffs as a merchant sent them. Null or {} clears every cutoff. */
+export function validateSkipCutoffs(value: unknown): { ok: true; cutoffs: SkipCutoffs | null } | { ok: false; error: string } {
+  if (value === null || value === undefined || value === '') return { ok: true, cutoffs: null };
+  if (typeof value !== 'object' || Array.isArray(value)) return { ok: false, error: 'skip_cutoffs must be an object keyed by meal' };
+
+  const cutoffs: SkipCutoffs = {};
+  for (const [key, raw] of Object.entries(value as Record<string, any>)) {
+    const meal = MEALS.find((m) => m.toLowerCase() === key.toLowerCase());
+    if (!meal) return { ok: false, error: `Unknown meal "${key}" in skip_cutoffs` };
+    if (raw === null) continue;
+    const time = String(raw?.time ?? '');
+    if (!TIME_RE.test(time)) return { ok: false, error: `${meal} cutoff time must look like "09:00"` };
+    const daysBefore = raw?.days_before == null ? 0 : Number(raw.days_before);
+    if (!Number.isInteger(daysBefore) || daysBefore < 0 || daysBefore > 7) {
+      return { ok: false, error: `${meal} cutoff days_before must be a whole number from 0 to 7` };
+    }
+    cutoffs[meal] = { time, days_before: daysBefore };
+  }
+  return { ok: true, cutoffs: Object.keys(cutoffs).length > 0 ? cutoffs : null };
+}
+
+/** The merchant's wall-clock time as "HH:MM". */
+function timeInTimezone(timezone?: string | null): string {
+  const format = (timeZone: string) =>
+    new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(new Date());
+  try {
+    return format(timezone || 'UTC');
+  } catch {
+    return format('UTC');
+  }
+}
+
+export interface CutoffMerchant {
+  timezone: string | null;
+  skip_cutoffs: unknown;
+  late_skip_policy: string | null;
+}
+
+export type CutoffCheck =
+  | { late: false }
+  | {
+      late: true;
+      policy: LateSkipPolicy;
+      /** The meals of the skip whose cutoff has passed. */
+      meals: string[];
+      /** The first of those cutoffs, as "YYYY-MM-DD HH:MM" merchant time. */
+      cutoff: string;
+    };
+
+/**
+ * Whether a skip of `skipMealType` (null: every meal on the plan) on
+ * `skipDate` comes after the merchant's cutoff for any meal it covers.
+ * Compared as "YYYY-MM-DD HH:MM" strings in the merchant's timezone, which
+ * sort the same way the moments they name do.
+ */
+export function checkSkipCutoff(
+  merchant: CutoffMerchant,
+  skipDate: string,
+  skipMealType: string | null,
+  customerMealType: string | null
+): CutoffCheck {
+  const cutoffs = validateSkipCutoffs(merchant.skip_cutoffs);
+  if (!cutoffs.ok || !cutoffs.cutoffs) return { late: false };
+
+  const now = `${todayInTimezone(merchant.timezone)} ${timeInTimezone(merchant.timezone)}`;
+  const meals = skipMealType ? planMeals(skipMealType) : planMeals(customerMealType);
+  const passed = meals
+    .filter((meal) => cutoffs.cutoffs![meal])
+    .map((meal) => {
+      const cutoff = cutoffs.cutoffs![meal];
+      return { meal, at: `${addDaysToDateStr(skipDate, -cutoff.days_before)} ${cutoff.time}` };
+    })
+    .filter((c) => now >= c.at)
+    .sort((a, b) => a.at.localeCompare(b.at));
+  if (passed.length === 0) return { late: false };
+
+  const policy: LateSkipPolicy = merchant.late_skip_policy === 'no_credit' ? 'no_credit' : 'reject';
+  return { late: true, policy, meals: passed.map((c) => c.meal), cutoff: passed[0].at };
+}
+
+/** What the customer is told about a late skip. */
+export function lateSkipMessage(check: Extract<CutoffCheck, { late: true }>): string {
+  const meals = check.meals.join(' and ');
+  return check.policy === 'reject'
+    ? `Skips for ${meals} on this date closed at ${check.cutoff}`
+    : `Skipped after the ${meals} cutoff (${check.cutoff}), so no credit is given for it`;
+}
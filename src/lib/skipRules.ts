@@ -0,0 +1,207 @@
+// Recurring skip rules: "no lunch on Fridays", "nothing on Sundays every other
+// week until the end of March".
+//
+// Customers used to ask for these one date at a time, so a standing arrangement
+// lived as a stack of TiffinSkip rows the merchant re-entered every month and
+// forgot about half the time. A rule is stored once, per customer, and read
+// wherever skips are read: ruleSkipsOn() turns the rules that fall on a date
+// into the same { skip_date, meal_type } rows a TiffinSkip gives, so
+// should-deliver-today, the batch builder and the end date (lib/subscriptionDays.ts)
+// apply them with the rules they already have.
+//
+// Rules are never written out as TiffinSkip rows. That keeps an edit to a rule
+// in force for every date it covers, with nothing to clean up — but it means
+// carry-forward has to find the meals a rule took off delivered days itself,
+// which is what ruleMealsToCredit() is for.
+
+import { prisma } from './prisma';
+import { planMeals } from './proration';
+import { skipCoversMeal } from './deliveries';
+import { weekdayOfDateStr } from './weekend';
+import type { SkipRow } from './subscriptionDays';
+
+export const MAX_INTERVAL_WEEKS = 8;
+
+export interface SkipRuleRow {
+  weekday: number;
+  meal_type: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  interval_weeks: number;
+  anchor_date: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Days since the epoch of a "YYYY-MM-DD" date, so weeks can be counted. */
+function dayNumber(dateStr: string): number {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86_400_000);
+}
+
+function dateOfDayNumber(day: number): string {
+  return new Date(day * 86_400_000).toISOString().split('T')[0];
+}
+
+/** Day number of the Sunday starting the week `dateStr` is in. */
+function weekStart(dateStr: string): number {
+  return dayNumber(dateStr) - (weekdayOfDateStr(dateStr) ?? 0);
+}
+
+export function ruleAppliesOn(rule: SkipRuleRow, dateStr: string): boolean {
+  if (weekdayOfDateStr(dateStr) !== rule.weekday) return false;
+  if (rule.start_date && dateStr < rule.start_date) return false;
+  if (rule.end_date && dateStr > rule.end_date) return false;
+  const interval = Math.max(1, rule.interval_weeks || 1);
+  if (interval === 1) return true;
+  const weeks = (weekStart(dateStr) - weekStart(rule.anchor_date)) / 7;
+  return ((weeks % interval) + interval) % interval === 0;
+}
+
+/** The skips the rules make on a date, shaped like TiffinSkip rows. */
+export function ruleSkipsOn(rules: SkipRuleRow[], dateStr: string): SkipRow[] {
+  return rules
+    .filter((rule) => ruleAppliesOn(rule, dateStr))
+    .map((rule) => ({ skip_date: dateStr, meal_type: rule.meal_type }));
+}
+
+/**
+ * Whether the rules take every meal in `mealType` ("Lunch", "Lunch + Dinner")
+ * off the date. A meal_type naming no known meal is covered only by a
+ * whole-day rule.
+ */
+export function rulesSkipMeals(rules: SkipRuleRow[], dateStr: string, mealType: string | null | undefined): boolean {
+  const skips = ruleSkipsOn(rules, dateStr);
+  if (skips.length === 0) return false;
+  const meals = planMeals(mealType);
+  if (meals.length === 0) return skips.some((s) => !s.meal_type);
+  return meals.every((meal) => skips.some((s) => skipCoversMeal(s.meal_type, meal)));
+}
+
+/** Rules still in force on or after `fromDate`. */
+export async function loadSkipRules(where: { customer_id: string } | { created_by: string }, fromDate: string) {
+  return prisma.skipRule.findMany({
+    where: { ...where, OR: [{ end_date: null }, { end_date: { gte: fromDate } }] },
+    orderBy: [{ weekday: 'asc' }, { created_at: 'asc' }],
+  });
+}
+
+export type SkipRuleInput = SkipRuleRow & { reason: string | null };
+
+/**
+ * Check a rule as a customer or merchant sent it. The meal must be one on the
+ * customer's plan — a rule skipping Dinner for a Lunch-only customer would
+ * never match anything and only confuse the next person to read it. Rules
+ * start no earlier than today: days before it have been cooked and counted.
+ */
+export function validateSkipRule(
+  body: any,
+  customerMealType: string | null,
+  today: string
+): { ok: true; rule: SkipRuleInput } | { ok: false; error: string } {
+  const weekday = Number(body?.weekday);
+  if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+    return { ok: false, error: 'weekday must be 0 (Sunday) to 6 (Saturday)' };
+  }
+
+  let mealType: string | null = null;
+  if (body.meal_type != null && body.meal_type !== '') {
+    const meal = planMeals(customerMealType).find((m) => m.toLowerCase() === String(body.meal_type).toLowerCase());
+    if (!meal) return { ok: false, error: `meal_type must be one of the meals on the plan: ${planMeals(customerMealType).join(', ') || 'none'}` };
+    mealType = meal;
+  }
+
+  const interval = body.interval_weeks == null || body.interval_weeks === '' ? 1 : Number(body.interval_weeks);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL_WEEKS) {
+    return { ok: false, error: `interval_weeks must be a whole number from 1 to ${MAX_INTERVAL_WEEKS}` };
+  }
+
+  const startDate = body.start_date || null;
+  const endDate = body.end_date || null;
+  for (const [field, value] of [['start_date', startDate], ['end_date', endDate]] as const) {
+    if (value !== null && (typeof value !== 'string' || !DATE_RE.test(value))) {
+      return { ok: false, error: `${field} must be YYYY-MM-DD` };
+    }
+  }
+  if (startDate && startDate < today) return { ok: false, error: 'start_date cannot be in the past' };
+  if (endDate && endDate < (startDate || today)) return { ok: false, error: 'end_date must be on or after the start' };
+
+  return {
+    ok: true,
+    rule: {
+      weekday,
+      meal_type: mealType,
+      start_date: startDate,
+      end_date: endDate,
+      interval_weeks: interval,
+      // Every-N-weeks counts from the first week the rule is in force.
+      anchor_date: startDate || today,
+      reason: body.reason ? String(body.reason).slice(0, 200) : null,
+    },
+  };
+}
+
+/**
+ * Meals the customer's rules took off days that were otherwise delivered,
+ * between each rule's carried_through and `through` — the wallet credit
+ * carry-forward owes for them. Only counted days qualify: a day the rules
+ * emptied was never counted, so its paid day is still there. Meals a TiffinSkip
+ * also covers are left out; carry-forward credits those through the skip.
+ */
+export async function ruleMealsToCredit(
+  customer: { id: string; meal_type: string | null },
+  rules: (SkipRuleRow & { carried_through: string | null })[],
+  through: string
+): Promise<number> {
+  const plan = planMeals(customer.meal_type);
+  if (plan.length < 2 || rules.length === 0) return 0;
+
+  // A rule is never in force before its anchor date, which is where it started.
+  const firstOpen = (rule: (typeof rules)[number]) =>
+    rule.carried_through ? dateOfDayNumber(dayNumber(rule.carried_through) + 1) : rule.anchor_date;
+  const from = rules.map(firstOpen).sort()[0];
+  if (from > through) return 0;
+
+  const [counted, skips] = await Promise.all([
+    prisma.order.findMany({
+      where: { customer_id: customer.id, counted_at: { not: null }, order_date: { gte: from, lte: through } },
+      select: { order_date: true },
+      distinct: ['order_date'],
+    }),
+    prisma.tiffinSkip.findMany({
+      where: { customer_id: customer.id, status: { in: ['active', 'applied'] }, skip_date: { gte: from, lte: through } },
+      select: { skip_date: true, meal_type: true },
+    }),
+  ]);
+
+  let meals = 0;
+  for (const { order_date: date } of counted) {
+    if (!date) continue;
+    const open = rules.filter((rule) => firstOpen(rule) <= date);
+    const byRule = ruleSkipsOn(open, date);
+    if (byRule.length === 0) continue;
+    const bySkip = skips.filter((s) => s.skip_date === date);
+    const ruleOnly = plan.filter(
+      (meal) => byRule.some((s) => skipCoversMeal(s.meal_type, meal)) && !bySkip.some((s) => skipCoversMeal(s.meal_type, meal))
+    );
+    if (ruleOnly.length < plan.length) meals += ruleOnly.length;
+  }
+  return meals;
+}
+
+/**
+ * Take a rule out of force from today. A rule that has not reached its first
+ * date is deleted; one that has is ended yesterday instead, so carry-forward
+ * can still credit the meals it took off days already delivered.
+ */
+export async function endSkipRule(rule: { id: string; anchor_date: string; end_date: string | null }, today: string) {
+  if (rule.anchor_date >= today) {
+    await prisma.skipRule.delete({ where: { id: rule.id } });
+    return { deleted: true };
+  }
+  const yesterday = dateOfDayNumber(dayNumber(today) - 1);
+  if (!rule.end_date || rule.end_date > yesterday) {
+    await prisma.skipRule.update({ where: { id: rule.id }, data: { end_date: yesterday } });
+  }
+  return { deleted: false, ended_on: yesterday };
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { movementFor } from './stock';
+
+test('a purchase adds to the balance', () => {
+  assert.deepEqual(movementFor(2, { quantity: 10 }), { quantity: 10, balance: 12 });
+});
+
+test('an outflow within the balance takes all it asks for', () => {
+  assert.deepEqual(movementFor(12, { quantity: -4.5 }), { quantity: -4.5, balance: 7.5 });
+});
+
+test('an outflow bigger than the balance takes what there was and stops at zero', () => {
+  assert.deepEqual(movementFor(3, { quantity: -5 }), { quantity: -3, balance: 0 });
+  assert.deepEqual(movementFor(0.5, { quantity: -1 }), { quantity: -0.5, balance: 0 });
+});
+
+test('a count moves the ledger to what was counted, either way', () => {
+  assert.deepEqual(movementFor(8, { counted: 6.25 }), { quantity: -1.75, balance: 6.25 });
+  assert.deepEqual(movementFor(8, { counted: 11 }), { quantity: 3, balance: 11 });
+  assert.deepEqual(movementFor(8, { counted: 0 }), { quantity: -8, balance: 0 });
+});
+
+test('a count wins over a quantity given alongside it', () => {
+  assert.deepEqual(movementFor(5, { counted: 5, quantity: 3 }), { quantity: 0, balance: 5 });
+});
+
+test('no quantity moves nothing', () => {
+  assert.deepEqual(movementFor(5, {}), { quantity: 0, balance: 5 });
+});
+
+test('quantities are rounded to four places so float noise does not build up', () => {
+  assert.deepEqual(movementFor(0.1, { quantity: 0.2 }), { quantity: 0.2, balance: 0.3 });
+  assert.deepEqual(movementFor(1, { quantity: -0.123456 }), { quantity: -0.1235, balance: 0.8765 });
+});
@@ -0,0 +1,205 @@
+// Ingredient stock: an append-only ledger of movements.
+//
+// Ingredient.current_stock was overwritten in place by purchases, wastage,
+// batch cooking and the daily deduction, so when a count in the store room
+// disagreed with the screen there was nothing to show how it got there. Every
+// change is now a StockMovement row — signed, in the ingredient's unit, with
+// what caused it — and current_stock and total_value are a cache of the
+// ledger, rewritten after each movement.
+//
+// Stock never goes below zero. An outflow bigger than what the ledger holds is
+// recorded as taking what there was; the ConsumptionLog or Wastage row behind
+// it keeps the full quantity, so the gap is visible rather than a negative
+// balance the next purchase silently absorbs.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const STOCK_MOVEMENT_TYPES = [
+  'opening_balance',
+  'purchase',
+  'wastage',
+  'consumption',
+  'count',
+  'correction',
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+export interface StockPosting {
+  ingredient_id: string;
+  created_by: string;
+  movement_type: StockMovementType;
+  /** Signed change in the ingredient's unit. Ignored when `counted` is given. */
+  quantity?: number;
+  /** A physical count: the movement is whatever brings the ledger to it. */
+  counted?: number;
+  /** Cost per ingredient unit; a purchase also makes it the ingredient's cost. */
+  unit_cost?: number | null;
+  reason?: string | null;
+  /** What caused the movement, e.g. 'purchase' / 'wastage' / 'consumption_log'. */
+  reference_type?: string | null;
+  reference_id?: string | null;
+  /** Who posted it: a merchant's email or 'system'. */
+  posted_by?: string | null;
+  /** Other ingredient fields to write with the cache. */
+  set?: { last_deducted_date?: string; last_purchase_date?: string };
+}
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+const TOLERANCE = 0.0001;
+
+async function sumStock(client: Prisma.TransactionClient | typeof prisma, ingredientId: string) {
+  const result = await client.stockMovement.aggregate({ where: { ingredient_id: ingredientId }, _sum: { quantity: true } });
+  return round4(result._sum.quantity ?? 0);
+}
+
+/**
+ * The movement a posting makes on a ledger holding `before`, and the balance
+ * it leaves: a count moves by the difference, and an outflow takes at most
+ * what there is.
+ */
+export function movementFor(before: number, posting: Pick<StockPosting, 'quantity' | 'counted'>) {
+  const wanted = posting.counted != null ? posting.counted - before : posting.quantity ?? 0;
+  const quantity = round4(Math.max(wanted, -before));
+  return { quantity, balance: round4(before + quantity) };
+}
+
+/**
+ * Append a movement and refresh the cached stock, in one transaction. The
+ * ingredient row is locked first so two movements at once cannot each write
+ * a balance that misses the other.
+ */
+export async function postStockMovement(posting: StockPosting) {
+  return prisma.$transaction((tx) => postStockMovementIn(tx, posting));
+}
+
+/**
+ * postStockMovement() inside a transaction the caller already holds, for a
+ * movement that must commit or roll back with the caller's own writes.
+ */
+export async function postStockMovementIn(tx: Prisma.TransactionClient, posting: StockPosting) {
+  await tx.$queryRaw`SELECT "id" FROM "Ingredient" WHERE "id" = ${posting.ingredient_id} FOR UPDATE`;
+  const before = await sumStock(tx, posting.ingredient_id);
+  const { quantity, balance } = movementFor(before, posting);
+
+  const movement = await tx.stockMovement.create({
+    data: {
+      ingredient_id: posting.ingredient_id,
+      created_by: posting.created_by,
+      movement_type: posting.movement_type,
+      quantity,
+      unit_cost: posting.unit_cost ?? null,
+      balance_after: balance,
+      reason: posting.reason ?? null,
+      reference_type: posting.reference_type ?? null,
+      reference_id: posting.reference_id ?? null,
+      posted_by: posting.posted_by ?? 'system',
+    },
+  });
+
+  const current = await tx.ingredient.findUniqueOrThrow({ where: { id: posting.ingredient_id } });
+  const cost = posting.movement_type === 'purchase' && posting.unit_cost != null
+    ? posting.unit_cost
+    : current.cost_per_unit || 0;
+  const ingredient = await tx.ingredient.update({
+    where: { id: posting.ingredient_id },
+    data: {
+      current_stock: balance,
+      cost_per_unit: cost,
+      total_value: balance * cost,
+      is_critical: balance <= (current.min_stock_threshold || 0),
+      ...posting.set,
+    },
+  });
+  return { movement, balance, ingredient };
+}
+
+/** The stock in the ingredient's unit, from the ledger rather than the cache. */
+export async function stockBalance(ingredientId: string) {
+  return sumStock(prisma, ingredientId);
+}
+
+/** Newest first, with the running balance after each movement. */
+export async function stockHistory(ingredientId: string, limit = 200) {
+  const movements = await prisma.stockMovement.findMany({
+    where: { ingredient_id: ingredientId },
+    orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+  });
+  let running = 0;
+  const withBalance = movements.map((m) => {
+    running = round4(running + m.quantity);
+    return { ...m, running_balance: running };
+  });
+  return { balance: running, movements: withBalance.reverse().slice(0, limit) };
+}
+
+/**
+ * Compare each of a merchant's ingredients with its ledger. An ingredient is
+ * out of step when current_stock differs from the ledger's sum, or when the
+ * sum differs from the last movement's balance_after — a movement changed or
+ * removed outside lib/stock.ts.
+ */
+export async function verifyStock(merchantId: string) {
+  const [ingredients, sums, last] = await Promise.all([
+    prisma.ingredient.findMany({
+      where: { created_by: merchantId },
+      select: { id: true, name: true, unit: true, current_stock: true, cost_per_unit: true, total_value: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.stockMovement.groupBy({ by: ['ingredient_id'], where: { created_by: merchantId }, _sum: { quantity: true } }),
+    prisma.stockMovement.findMany({
+      where: { created_by: merchantId },
+      orderBy: [{ ingredient_id: 'asc' }, { created_at: 'desc' }, { id: 'desc' }],
+      distinct: ['ingredient_id'],
+      select: { ingredient_id: true, balance_after: true },
+    }),
+  ]);
+  const sumOf = new Map(sums.map((s) => [s.ingredient_id, round4(s._sum.quantity ?? 0)]));
+  const lastOf = new Map(last.map((m) => [m.ingredient_id, m.balance_after]));
+
+  const mismatches = [];
+  for (const ingredient of ingredients) {
+    const ledger = sumOf.get(ingredient.id) ?? 0;
+    const cached = ingredient.current_stock || 0;
+    const lastBalance = lastOf.get(ingredient.id) ?? 0;
+    const cacheOff = Math.abs(ledger - cached) > TOLERANCE;
+    const chainOff = Math.abs(ledger - lastBalance) > TOLERANCE;
+    if (!cacheOff && !chainOff) continue;
+    mismatches.push({
+      ingredient_id: ingredient.id,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      current_stock: cached,
+      ledger_balance: ledger,
+      last_balance_after: lastBalance,
+      problem: cacheOff ? 'current_stock differs from the ledger' : 'movements changed outside the ledger',
+    });
+  }
+  return { checked: ingredients.length, mismatches };
+}
+
+/**
+ * Rewrite current_stock and total_value from the ledger for the ingredients
+ * verifyStock() found out of step. The ledger is not touched: a real
+ * difference in the store room is a count, posted as a movement.
+ */
+export async function repairStockCache(merchantId: string) {
+  const { mismatches } = await verifyStock(merchantId);
+  let repaired = 0;
+  for (const m of mismatches) {
+    if (Math.abs(m.ledger_balance - m.current_stock) <= TOLERANCE) continue;
+    const ingredient = await prisma.ingredient.findUnique({ where: { id: m.ingredient_id } });
+    if (!ingredient) continue;
+    await prisma.ingredient.update({
+      where: { id: ingredient.id },
+      data: {
+        current_stock: m.ledger_balance,
+        total_value: m.ledger_balance * (ingredient.cost_per_unit || 0),
+        is_critical: m.ledger_balance <= (ingredient.min_stock_threshold || 0),
+      },
+    });
+    repaired++;
+  }
+  return { repaired, mismatches };
+}
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { closedLine, validateCounts } from './stockTakes';
+
+test('a counted line posts the gap between count and ledger, valued at cost', () => {
+  assert.deepEqual(closedLine({ counted_stock: 8.5, expected_stock: 10 }, 120, undefined), {
+    variance: -1.5,
+    cost_per_unit: 120,
+    variance_value: -180,
+    wastage_quantity: 0,
+    wastage_value: 0,
+  });
+});
+
+test('a count that matches the ledger is counted with no variance', () => {
+  const line = closedLine({ counted_stock: 4, expected_stock: 4 }, 50, undefined);
+  assert.equal(line.variance, 0);
+  assert.equal(line.variance_value, 0);
+});
+
+test("the period's wastage is set beside the variance", () => {
+  const line = closedLine({ counted_stock: 3, expected_stock: 5 }, 10, { quantity: 1.23456, value: 12.3456 });
+  assert.equal(line.wastage_quantity, 1.2346);
+  assert.equal(line.wastage_value, 12.35);
+});
+
+test('a line nobody counted gets only the wastage, not a variance of everything', () => {
+  assert.deepEqual(closedLine({ counted_stock: null, expected_stock: null }, 10, { quantity: 2, value: 20 }), {
+    variance: null,
+    wastage_quantity: 2,
+    wastage_value: 20,
+  });
+  assert.deepEqual(closedLine({ counted_stock: null, expected_stock: null }, 10, undefined), {
+    variance: null,
+    wastage_quantity: null,
+    wastage_value: null,
+  });
+});
+
+test('a line whose ingredient is gone is not posted', () => {
+  assert.equal(closedLine({ counted_stock: 2, expected_stock: 5 }, null, undefined).variance, null);
+});
+
+test('counts are checked and tidied as the counter sent them', () => {
+  const checked = validateCounts([{ ingredient_id: 'rice', counted_quantity: '12.5', unit: ' kg ', note: '  top shelf ' }]);
+  assert.deepEqual(checked, {
+    ok: true,
+    counts: [{ ingredient_id: 'rice', counted_quantity: 12.5, unit: 'kg', note: 'top shelf' }],
+  });
+  assert.deepEqual(validateCounts([{ ingredient_id: 'oil', counted_quantity: 0 }]), {
+    ok: true,
+    counts: [{ ingredient_id: 'oil', counted_quantity: 0, unit: null, note: null }],
+  });
+});
+
+test('a blank, negative or missing count is refused rather than read as zero', () => {
+  assert.equal(validateCounts([]).ok, false);
+  assert.equal(validateCounts([{ ingredient_id: 'rice', counted_quantity: '' }]).ok, false);
+  assert.equal(validateCounts([{ ingredient_id: 'rice', counted_quantity: null }]).ok, false);
+  assert.equal(validateCounts([{ ingredient_id: 'rice', counted_quantity: -1 }]).ok, false);
+  assert.equal(validateCounts([{ counted_quantity: 1 }]).ok, false);
+});
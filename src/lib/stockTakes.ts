@@ -0,0 +1,315 @@
+// Stock-takes: counting the pantry and posting what the count found.
+//
+// Merchants count weekly and used to type the counts straight over
+// current_stock, which lost both the number the app expected and the size of
+// the gap. A stock-take is opened with a line per ingredient, counted line by
+// line (on a phone, over an hour), and closed.
+//
+// Each count is compared with the ledger balance at the moment it is entered,
+// not at close: the kitchen keeps cooking while the count goes on, and stock
+// used between counting the rice and closing the session is not a variance.
+// Closing posts the difference as a `count` movement (lib/stock.ts) and values
+// it at the ingredient's cost.
+//
+// The closed stock-take stays as the report. Beside each variance it carries
+// the wastage recorded for the ingredient since the previous stock-take
+// closed, so the merchant sees how much of the shortfall was written off and
+// how much was not accounted for at all.
+
+import { prisma } from './prisma';
+import { postStockMovementIn, stockBalance } from './stock';
+import { toIngredientUnit } from './units';
+
+/** A first stock-take looks back over the week before it — the usual rhythm. */
+const FIRST_PERIOD_DAYS = 7;
+const MAX_COUNTS_PER_REQUEST = 500;
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type StockTake = NonNullable<Awaited<ReturnType<typeof prisma.stockTake.findFirst>>>;
+export type CountInput = { ingredient_id: string; counted_quantity: number; unit: string | null; note: string | null };
+
+/** Open a stock-take with a line for each of the merchant's ingredients, or those in `category`. */
+export async function openStockTake(
+  merchant: { id: string; email: string },
+  input: { name?: unknown; category?: unknown; notes?: unknown }
+): Promise<{ ok: true; stockTake: StockTake; lines: number } | { ok: false; error: string }> {
+  const open = await prisma.stockTake.findFirst({ where: { created_by: merchant.id, status: { in: ['open', 'closing'] } } });
+  if (open?.status === 'closing') return { ok: false, error: 'A stock-take is still closing. Close it again to finish it' };
+  if (open) return { ok: false, error: 'A stock-take is already open. Close or cancel it first' };
+
+  const category = typeof input.category === 'string' && input.category.trim() ? input.category.trim() : null;
+  const ingredients = await prisma.ingredient.findMany({
+    where: { created_by: merchant.id, ...(category ? { category } : {}) },
+    select: { id: true, name: true, unit: true },
+    orderBy: [{ category: 'asc' }, { name: 'asc' }],
+  });
+  if (ingredients.length === 0) {
+    return { ok: false, error: category ? `No ingredients in ${category}` : 'Add ingredients before counting them' };
+  }
+
+  const previous = await prisma.stockTake.findFirst({
+    where: { created_by: merchant.id, status: 'closed' },
+    orderBy: { closed_at: 'desc' },
+  });
+  const now = new Date();
+  const stockTake = await prisma.stockTake.create({
+    data: {
+      name: typeof input.name === 'string' && input.name.trim() ? input.name.trim().slice(0, 120) : null,
+      notes: typeof input.notes === 'string' && input.notes.trim() ? input.notes.trim().slice(0, 1000) : null,
+      period_start: previous?.closed_at ?? new Date(now.getTime() - FIRST_PERIOD_DAYS * 86_400_000),
+      opened_at: now,
+      opened_by: merchant.email,
+      created_by: merchant.id,
+    },
+  });
+  await prisma.stockTakeLine.createMany({
+    data: ingredients.map((i) => ({
+      stock_take_id: stockTake.id,
+      ingredient_id: i.id,
+      ingredient_name: i.name,
+      unit: i.unit,
+      created_by: merchant.id,
+    })),
+  });
+  return { ok: true, stockTake, lines: ingredients.length };
+}
+
+/** Check counts as the counter sent them: [{ ingredient_id, counted_quantity, unit?, note? }]. */
+export function validateCounts(value: unknown): { ok: true; counts: CountInput[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0) return { ok: false, error: 'counts must be a non-empty list' };
+  if (value.length > MAX_COUNTS_PER_REQUEST) return { ok: false, error: `At most ${MAX_COUNTS_PER_REQUEST} counts at a time` };
+  const counts: CountInput[] = [];
+  for (const c of value) {
+    if (!c || typeof c.ingredient_id !== 'string') return { ok: false, error: 'Each count needs an ingredient_id' };
+    const quantity = Number(c.counted_quantity);
+    if (c.counted_quantity === null || c.counted_quantity === '' || !Number.isFinite(quantity) || quantity < 0) {
+      return { ok: false, error: 'counted_quantity must be zero or more' };
+    }
+    counts.push({
+      ingredient_id: c.ingredient_id,
+      counted_quantity: quantity,
+      unit: typeof c.unit === 'string' && c.unit.trim() ? c.unit.trim() : null,
+      note: typeof c.note === 'string' && c.note.trim() ? c.note.trim().slice(0, 500) : null,
+    });
+  }
+  return { ok: true, counts };
+}
+
+/**
+ * Record counts on an open stock-take. Counting an ingredient again replaces
+ * its count and the expected figure beside it. An ingredient added since the
+ * stock-take opened gets a line when it is counted. Each count is written
+ * under a share lock on the stock-take while it is still open, so a count
+ * cannot land after closing has read the lines; counts left when it closes
+ * come back as errors.
+ */
+export async function recordCounts(stockTake: StockTake, counts: CountInput[], countedBy: string) {
+  const ingredients = new Map(
+    (await prisma.ingredient.findMany({
+      where: { id: { in: counts.map((c) => c.ingredient_id) }, created_by: stockTake.created_by },
+    })).map((i) => [i.id, i])
+  );
+
+  const errors: { ingredient_id: string; error: string }[] = [];
+  let recorded = 0;
+  for (const [index, count] of counts.entries()) {
+    const ingredient = ingredients.get(count.ingredient_id);
+    if (!ingredient) {
+      errors.push({ ingredient_id: count.ingredient_id, error: 'Ingredient not found' });
+      continue;
+    }
+    const converted = toIngredientUnit(count.counted_quantity, count.unit || ingredient.unit, ingredient);
+    if (!converted.ok) {
+      errors.push({ ingredient_id: ingredient.id, error: converted.error });
+      continue;
+    }
+    const counted = {
+      counted_quantity: count.counted_quantity,
+      counted_unit: count.unit || ingredient.unit,
+      counted_stock: round4(converted.quantity),
+      expected_stock: await stockBalance(ingredient.id),
+      note: count.note,
+      counted_at: new Date(),
+      counted_by: countedBy,
+    };
+    const written = await prisma.$transaction(async (tx) => {
+      const [current] = await tx.$queryRaw<{ status: string }[]>`
+        SELECT "status" FROM "StockTake" WHERE "id" = ${stockTake.id} FOR SHARE`;
+      if (current?.status !== 'open') return false;
+      await tx.stockTakeLine.upsert({
+        where: { stock_take_id_ingredient_id: { stock_take_id: stockTake.id, ingredient_id: ingredient.id } },
+        create: {
+          stock_take_id: stockTake.id,
+          ingredient_id: ingredient.id,
+          ingredient_name: ingredient.name,
+          unit: ingredient.unit,
+          created_by: stockTake.created_by,
+          ...counted,
+        },
+        update: counted,
+      });
+      return true;
+    });
+    if (!written) {
+      for (const rest of counts.slice(index)) {
+        errors.push({ ingredient_id: rest.ingredient_id, error: 'The stock-take was closed before this count was saved' });
+      }
+      break;
+    }
+    recorded++;
+  }
+  return { recorded, errors };
+}
+
+/** Wastage per ingredient recorded in a stock-take's period, in the ingredient's unit. */
+async function wastageInPeriod(merchantId: string, from: Date, to: Date) {
+  const rows = await prisma.wastage.findMany({
+    where: { created_by: merchantId, is_deleted: false, created_at: { gt: from, lte: to } },
+    select: { ingredient_id: true, quantity: true, stock_quantity: true, cost_value: true },
+  });
+  const byIngredient = new Map<string, { quantity: number; value: number; entries: number }>();
+  for (const w of rows) {
+    const row = byIngredient.get(w.ingredient_id) || { quantity: 0, value: 0, entries: 0 };
+    row.quantity += w.stock_quantity ?? w.quantity ?? 0;
+    row.value += w.cost_value || 0;
+    row.entries++;
+    byIngredient.set(w.ingredient_id, row);
+  }
+  return byIngredient;
+}
+
+/**
+ * What closing writes on a line: its variance, valued at the ingredient's
+ * cost, and the period's wastage beside it. A line nobody counted, or whose
+ * ingredient is gone (`cost` null), gets only the wastage — not counting
+ * something is not counting it as zero.
+ */
+export function closedLine(
+  line: { counted_stock: number | null; expected_stock: number | null },
+  cost: number | null,
+  wasted: { quantity: number; value: number } | undefined
+) {
+  if (line.counted_stock == null || line.expected_stock == null || cost == null) {
+    return {
+      variance: null,
+      wastage_quantity: wasted ? round4(wasted.quantity) : null,
+      wastage_value: wasted ? round2(wasted.value) : null,
+    };
+  }
+  const variance = round4(line.counted_stock - line.expected_stock);
+  return {
+    variance,
+    cost_per_unit: cost,
+    variance_value: round2(variance * cost),
+    wastage_quantity: wasted ? round4(wasted.quantity) : 0,
+    wastage_value: wasted ? round2(wasted.value) : 0,
+  };
+}
+
+/**
+ * Close a stock-take: post each counted line's variance as a count movement,
+ * value it, and set the period's wastage beside it (closedLine).
+ *
+ * The status moves to closing first, which stops further counts. Each line's
+ * movement and the line that records it are written in one transaction under
+ * a lock on the line, and a line that already has its variance is passed
+ * over — so a close that died halfway is finished by closing again, and two
+ * closes at once cannot post a line twice. Returns null when the stock-take
+ * is neither open nor closing.
+ */
+export async function closeStockTake(stockTake: StockTake, closedBy: string) {
+  await prisma.stockTake.updateMany({
+    where: { id: stockTake.id, status: 'open' },
+    data: { status: 'closing' },
+  });
+  const claimed = await prisma.stockTake.findFirst({ where: { id: stockTake.id, status: 'closing' } });
+  if (!claimed) return null;
+
+  const closedAt = new Date();
+  const lines = await prisma.stockTakeLine.findMany({ where: { stock_take_id: stockTake.id } });
+  const ingredients = new Map(
+    (await prisma.ingredient.findMany({
+      where: { id: { in: lines.map((l) => l.ingredient_id) }, created_by: stockTake.created_by },
+      select: { id: true, cost_per_unit: true },
+    })).map((i) => [i.id, i])
+  );
+  const wastage = await wastageInPeriod(stockTake.created_by, stockTake.period_start, closedAt);
+
+  let wastageValue = 0;
+  for (const line of lines) {
+    const ingredient = ingredients.get(line.ingredient_id);
+    const wasted = wastage.get(line.ingredient_id);
+    wastageValue += wasted?.value || 0;
+    const data = closedLine(line, ingredient ? ingredient.cost_per_unit || 0 : null, wasted);
+
+    await prisma.$transaction(async (tx) => {
+      const [current] = await tx.$queryRaw<{ variance: number | null }[]>`
+        SELECT "variance" FROM "StockTakeLine" WHERE "id" = ${line.id} FOR UPDATE`;
+      if (current?.variance != null) return;
+      let movementId: string | null = null;
+      if (data.variance) {
+        const posted = await postStockMovementIn(tx, {
+          ingredient_id: line.ingredient_id,
+          created_by: stockTake.created_by,
+          movement_type: 'count',
+          quantity: data.variance,
+          reason: `Stock-take${stockTake.name ? `: ${stockTake.name}` : ''}`,
+          reference_type: 'stock_take',
+          reference_id: stockTake.id,
+          posted_by: closedBy,
+        });
+        movementId = posted.movement.id;
+      }
+      await tx.stockTakeLine.update({ where: { id: line.id }, data: { ...data, movement_id: movementId } });
+    });
+  }
+
+  // Totals from the lines as posted, including any an earlier attempt posted.
+  const posted = await prisma.stockTakeLine.findMany({
+    where: { stock_take_id: stockTake.id, variance: { not: null } },
+    select: { variance_value: true },
+  });
+  return prisma.stockTake.update({
+    where: { id: stockTake.id },
+    data: {
+      status: 'closed',
+      closed_at: closedAt,
+      closed_by: closedBy,
+      lines_counted: posted.length,
+      variance_value: round2(posted.reduce((sum, l) => sum + (l.variance_value || 0), 0)),
+      wastage_value: round2(wastageValue),
+    },
+  });
+}
+
+/**
+ * A stock-take with its lines. Open ones show the variance so far; closed ones
+ * what was posted. Recorded wastage already left the ledger before the count,
+ * so `shortfall_value` is loss nobody wrote down, and `wastage_value` the loss
+ * that was.
+ */
+export async function stockTakeReport(stockTake: StockTake) {
+  const lines = await prisma.stockTakeLine.findMany({
+    where: { stock_take_id: stockTake.id },
+    orderBy: { ingredient_name: 'asc' },
+  });
+  const rows = lines.map((l) => {
+    const variance = l.variance ?? (l.counted_stock != null && l.expected_stock != null
+      ? round4(l.counted_stock - l.expected_stock)
+      : null);
+    return { ...l, variance, counted: l.counted_stock != null };
+  });
+  const shortfall = rows.reduce((sum, r) => sum + Math.min(0, r.variance_value ?? 0), 0);
+  return {
+    stock_take: stockTake,
+    summary: {
+      lines: rows.length,
+      counted: rows.filter((r) => r.counted).length,
+      variance_value: stockTake.variance_value,
+      shortfall_value: round2(shortfall),
+      wastage_value: stockTake.wastage_value,
+    },
+    lines: rows,
+  };
+}
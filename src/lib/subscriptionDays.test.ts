@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { accountDays, AccountingCustomer, addDaysToDateStr, dayOffReason, DayAccountInput, paidDaysOf } from './subscriptionDays';
+
+// 2026-10-19 is a Monday.
+const MONDAY = '2026-10-19';
+
+function customer(overrides: Partial<AccountingCustomer> = {}): AccountingCustomer {
+  return {
+    meal_type: 'Lunch',
+    paid_days: 5,
+    delivered_days: 0,
+    is_trial: false,
+    start_date: null,
+    skip_weekends: false,
+    is_paused: false,
+    status: 'active',
+    pause_start_date: null,
+    pause_resume_date: null,
+    pause_start: null,
+    pause_end: null,
+    ...overrides,
+  };
+}
+
+function account(overrides: Partial<DayAccountInput> & { customer?: AccountingCustomer } = {}) {
+  return accountDays({
+    customer: customer(),
+    today: MONDAY,
+    todayCounted: false,
+    skips: [],
+    rules: [],
+    closures: [],
+    walletMeals: 0,
+    ...overrides,
+  });
+}
+
+test('paid days default to 30, or 3 on a trial', () => {
+  assert.equal(paidDaysOf({ paid_days: null, is_trial: false }), 30);
+  assert.equal(paidDaysOf({ paid_days: null, is_trial: true }), 3);
+  assert.equal(paidDaysOf({ paid_days: 12, is_trial: true }), 12);
+});
+
+test('addDaysToDateStr crosses month and year ends on the calendar alone', () => {
+  assert.equal(addDaysToDateStr('2026-10-31', 1), '2026-11-01');
+  assert.equal(addDaysToDateStr('2026-12-31', 1), '2027-01-01');
+  assert.equal(addDaysToDateStr('2026-03-01', -1), '2026-02-28');
+});
+
+test('remaining days run on from today with nothing in the way', () => {
+  const result = account();
+  assert.equal(result.days_remaining, 5);
+  assert.equal(result.counting_from, MONDAY);
+  assert.equal(result.end_date, '2026-10-23');
+  assert.deepEqual(result.days_off, []);
+});
+
+test('delivered days come off the paid days', () => {
+  const result = account({ customer: customer({ paid_days: 5, delivered_days: 2 }) });
+  assert.equal(result.days_remaining, 3);
+  assert.equal(result.end_date, '2026-10-21');
+});
+
+test('nothing remaining leaves no end date and is not open-ended', () => {
+  const result = account({ customer: customer({ paid_days: 5, delivered_days: 6 }) });
+  assert.equal(result.days_remaining, 0);
+  assert.equal(result.end_date, null);
+  assert.equal(result.open_ended, false);
+});
+
+test('today already counted starts the count tomorrow', () => {
+  const result = account({ todayCounted: true });
+  assert.equal(result.counting_from, '2026-10-20');
+  assert.equal(result.end_date, '2026-10-24');
+});
+
+test('a later start date is where counting begins', () => {
+  const result = account({ customer: customer({ start_date: new Date('2026-10-22T00:00:00.000Z') }) });
+  assert.equal(result.counting_from, '2026-10-22');
+  assert.equal(result.end_date, '2026-10-26');
+});
+
+test('weekends are passed over only for customers who skip them', () => {
+  assert.equal(account().end_date, '2026-10-23');
+  const result = account({ customer: customer({ paid_days: 6, skip_weekends: true }) });
+  assert.equal(result.end_date, '2026-10-26');
+  assert.deepEqual(result.days_off, [
+    { date: '2026-10-24', reason: 'weekend' },
+    { date: '2026-10-25', reason: 'weekend' },
+  ]);
+});
+
+test('a day skipped for every meal moves the end date; a partly skipped day does not', () => {
+  const plan = customer({ meal_type: 'Lunch + Dinner' });
+  const full = account({
+    customer: plan,
+    skips: [
+      { skip_date: '2026-10-20', meal_type: 'Lunch' },
+      { skip_date: '2026-10-20', meal_type: 'Dinner' },
+    ],
+  });
+  assert.equal(full.end_date, '2026-10-24');
+  assert.deepEqual(full.days_off, [{ date: '2026-10-20', reason: 'skip' }]);
+
+  const partial = account({ customer: plan, skips: [{ skip_date: '2026-10-20', meal_type: 'Dinner' }] });
+  assert.equal(partial.end_date, '2026-10-23');
+  assert.deepEqual(partial.partial_skips, [{ date: '2026-10-20', meals: 1 }]);
+});
+
+test('a skip with no meal type takes the whole day', () => {
+  const result = account({
+    customer: customer({ meal_type: 'Lunch + Dinner' }),
+    skips: [{ skip_date: '2026-10-20', meal_type: null }],
+  });
+  assert.deepEqual(result.days_off, [{ date: '2026-10-20', reason: 'skip' }]);
+});
+
+test('recurring skip rules are passed over on the days they apply', () => {
+  const result = account({
+    rules: [{ weekday: 3, meal_type: null, start_date: null, end_date: null, interval_weeks: 1, anchor_date: MONDAY }],
+  });
+  assert.equal(result.end_date, '2026-10-24');
+  assert.deepEqual(result.days_off, [{ date: '2026-10-21', reason: 'skip' }]);
+});
+
+test('kitchen closures are passed over and win over the other reasons', () => {
+  const result = account({
+    customer: customer({ skip_weekends: true }),
+    closures: [{ start_date: '2026-10-22', end_date: '2026-10-25' }],
+  });
+  assert.equal(result.end_date, '2026-10-27');
+  assert.deepEqual(result.days_off.map((d) => d.reason), ['closure', 'closure', 'closure', 'closure']);
+});
+
+test('a dated pause is passed over, resume day exclusive', () => {
+  const result = account({
+    customer: customer({ is_paused: true, pause_start_date: '2026-10-20', pause_resume_date: '2026-10-22' }),
+  });
+  assert.equal(result.end_date, '2026-10-25');
+  assert.deepEqual(result.days_off, [
+    { date: '2026-10-20', reason: 'pause' },
+    { date: '2026-10-21', reason: 'pause' },
+  ]);
+});
+
+test('a pause with no resume date leaves the remaining days open-ended', () => {
+  const result = account({ customer: customer({ is_paused: true }) });
+  assert.equal(result.open_ended, true);
+  assert.equal(result.end_date, null);
+  assert.deepEqual(result.days_off, []);
+});
+
+test('meals remaining add the wallet, never less than nothing', () => {
+  const plan = customer({ meal_type: 'Lunch + Dinner', paid_days: 3 });
+  assert.equal(account({ customer: plan, walletMeals: 4 }).meals_remaining, 10);
+  assert.equal(account({ customer: plan, walletMeals: -2 }).meals_remaining, 6);
+});
+
+test('dayOffReason answers null for a service day and names the reason otherwise', () => {
+  const plain = customer({ skip_weekends: true });
+  assert.equal(dayOffReason(plain, '2026-10-20', []), null);
+  assert.equal(dayOffReason(plain, '2026-10-24', []), 'weekend');
+  assert.equal(dayOffReason(plain, '2026-10-20', [{ skip_date: '2026-10-20', meal_type: 'Lunch' }]), 'skip');
+  assert.equal(
+    dayOffReason(plain, '2026-10-24', [], [{ start_date: '2026-10-24', end_date: '2026-10-24' }]),
+    'closure'
+  );
+});
@@ -0,0 +1,320 @@
+// Subscription day accounting: how many paid days a customer has left, and the
+// date the last of them falls on.
+//
+// days_remaining used to have competing writers. The daily maintenance job
+// counted calendar days to end_date, /functions/record-delivery subtracted
+// delivered_days from paid_days, and pause and carry-forward pushed end_date out
+// by whole calendar days on top. Whichever ran last won, so the portal could
+// show 12 days in the morning and 9 after lunch was marked delivered.
+//
+// There is one rule now, and every writer calls recomputeCustomerDays():
+//
+//   * paid_days are service days bought and delivered_days are service days
+//     counted (lib/orderRuns.ts), so days_remaining = paid − delivered.
+//   * end_date is where the remaining days land. Count forward from the first
+//     day still open — today, tomorrow once today has been counted, or
+//     start_date if that is later — leaving out every day the customer gets no
+//     food: weekends when they skip them, dates skipped for every meal on
+//     their plan (by a TiffinSkip or a recurring rule, lib/skipRules.ts),
+//     pauses, and days the merchant's kitchen is closed (lib/closures.ts).
+//     These are the same rules the batch builder and should-deliver-today
+//     apply, through dayOffReason().
+//
+// A skip of one meal on a day that is otherwise delivered moves neither
+// number. The day is still counted when the other meal arrives, and the
+// skipped meal goes to the wallet at carry-forward (lib/wallet.ts).
+
+import { prisma } from './prisma';
+import { DayOffFields, isPausedOn, isWeekendSkipped, skipCoversMeal } from './deliveries';
+import { mealsPerDay, planMeals } from './proration';
+import { todayInTimezone } from './weekend';
+import { loadSkipRules, ruleSkipsOn, SkipRuleRow } from './skipRules';
+import { ClosureRow, isClosedOn, loadClosures } from './closures';
+import { walletBalance } from './wallet';
+
+/** How far ahead an end date is looked for. An open-ended pause never finds one. */
+const MAX_PROJECTION_DAYS = 3 * 366;
+
+export type DayOffReason = 'closure' | 'weekend' | 'pause' | 'skip';
+
+export interface AccountingCustomer extends DayOffFields {
+  meal_type: string | null;
+  paid_days: number | null;
+  delivered_days: number | null;
+  is_trial: boolean | null;
+  start_date: Date | null;
+}
+
+export interface SkipRow {
+  skip_date: string;
+  meal_type: string | null;
+}
+
+/** Paid days, with the default the counters have always assumed when unset. */
+export function paidDaysOf(customer: { paid_days: number | null; is_trial: boolean | null }): number {
+  return customer.paid_days || (customer.is_trial ? 3 : 30);
+}
+
+/** "YYYY-MM-DD" plus `days`, on the calendar alone. */
+export function addDaysToDateStr(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+}
+
+/** The plan meals an active skip on the date takes out. */
+function skippedMeals(mealType: string | null, skips: SkipRow[]): number {
+  const meals = planMeals(mealType);
+  if (meals.length === 0) return skips.length > 0 ? 1 : 0;
+  return meals.filter((meal) => skips.some((s) => skipCoversMeal(s.meal_type, meal))).length;
+}
+
+/**
+ * Why the customer gets no food on a date, or null when it is a service day.
+ * `skips` are their active skips on that date, `closures` the merchant's.
+ */
+export function dayOffReason(
+  customer: AccountingCustomer,
+  dateStr: string,
+  skips: SkipRow[],
+  closures: ClosureRow[] = []
+): DayOffReason | null {
+  if (isClosedOn(closures, dateStr)) return 'closure';
+  if (isWeekendSkipped(customer, dateStr)) return 'weekend';
+  if (isPausedOn(customer, dateStr)) return 'pause';
+  if (skips.length > 0 && skippedMeals(customer.meal_type, skips) >= mealsPerDay(customer.meal_type)) return 'skip';
+  return null;
+}
+
+export interface DayAccountInput {
+  customer: AccountingCustomer;
+  /** The merchant's calendar date. */
+  today: string;
+  /** Today's delivery is already in delivered_days. */
+  todayCounted: boolean;
+  /** Active skips dated today or later. */
+  skips: SkipRow[];
+  /** Recurring skip rules still in force. */
+  rules: SkipRuleRow[];
+  /** The merchant's kitchen closures ending today or later. */
+  closures: ClosureRow[];
+  walletMeals: number;
+}
+
+export interface DayAccount {
+  paid_days: number;
+  delivered_days: number;
+  days_remaining: number;
+  meals_per_day: number;
+  /** Meals held in the wallet on top of the paid days. */
+  wallet_meals: number;
+  meals_remaining: number;
+  counting_from: string;
+  /** Null when nothing is left, or when a pause with no resume date means the days have no end. */
+  end_date: string | null;
+  open_ended: boolean;
+  /** Days passed over between counting_from and end_date. */
+  days_off: { date: string; reason: DayOffReason }[];
+  /** Service days in the window with some, not all, meals skipped. */
+  partial_skips: { date: string; meals: number }[];
+}
+
+/** The first day remaining days can fall on. */
+function countingFrom(customer: AccountingCustomer, today: string, todayCounted: boolean): string {
+  const from = todayCounted ? addDaysToDateStr(today, 1) : today;
+  const start = customer.start_date ? customer.start_date.toISOString().split('T')[0] : null;
+  return start && start > from ? start : from;
+}
+
+/** Skips by date, with what the rules add on each date they are asked about. */
+function skipsByDateWith(skips: SkipRow[], rules: SkipRuleRow[]) {
+  const byDate = new Map<string, SkipRow[]>();
+  for (const skip of skips) {
+    if (!byDate.has(skip.skip_date)) byDate.set(skip.skip_date, []);
+    byDate.get(skip.skip_date)!.push(skip);
+  }
+  return (date: string) => [...(byDate.get(date) || []), ...ruleSkipsOn(rules, date)];
+}
+
+/** The accounting itself, free of the database. */
+export function accountDays(input: DayAccountInput): DayAccount {
+  const { customer, today } = input;
+  const paid = paidDaysOf(customer);
+  const delivered = customer.delivered_days || 0;
+  const remaining = Math.max(paid - delivered, 0);
+  const perDay = mealsPerDay(customer.meal_type);
+
+  const from = countingFrom(customer, today, input.todayCounted);
+  const skipsOn = skipsByDateWith(input.skips, input.rules);
+
+  const daysOff: DayAccount['days_off'] = [];
+  const partialSkips: DayAccount['partial_skips'] = [];
+  let counted = 0;
+  let endDate: string | null = null;
+  let date = from;
+  for (let i = 0; counted < remaining && i < MAX_PROJECTION_DAYS; i++, date = addDaysToDateStr(date, 1)) {
+    const skips = skipsOn(date);
+    const reason = dayOffReason(customer, date, skips, input.closures);
+    if (reason) {
+      daysOff.push({ date, reason });
+      continue;
+    }
+    if (skips.length > 0) partialSkips.push({ date, meals: skippedMeals(customer.meal_type, skips) });
+    counted++;
+    endDate = date;
+  }
+  const openEnded = counted < remaining;
+  const walletMeals = Math.max(input.walletMeals, 0);
+
+  return {
+    paid_days: paid,
+    delivered_days: delivered,
+    days_remaining: remaining,
+    meals_per_day: perDay,
+    wallet_meals: walletMeals,
+    meals_remaining: remaining * perDay + walletMeals,
+    counting_from: from,
+    end_date: openEnded ? null : endDate,
+    open_ended: openEnded,
+    days_off: openEnded ? [] : daysOff,
+    partial_skips: partialSkips,
+  };
+}
+
+/** The account, worded step by step for the audit endpoint. */
+export function explainAccount(account: DayAccount): string[] {
+  const steps = [
+    `${account.paid_days} paid day(s) − ${account.delivered_days} delivered = ${account.days_remaining} day(s) remaining`,
+    `${account.days_remaining} day(s) × ${account.meals_per_day} meal(s) + ${account.wallet_meals} in the wallet = ${account.meals_remaining} meal(s) remaining`,
+  ];
+  if (account.days_remaining === 0) {
+    steps.push('No days remaining, so the end date is left as it was');
+    return steps;
+  }
+  steps.push(`Counting from ${account.counting_from}`);
+  const off = (reason: DayOffReason) => account.days_off.filter((d) => d.reason === reason).length;
+  if (off('closure')) steps.push(`${off('closure')} day(s) the kitchen is closed passed over`);
+  if (off('weekend')) steps.push(`${off('weekend')} weekend day(s) passed over`);
+  if (off('pause')) steps.push(`${off('pause')} paused day(s) passed over`);
+  if (off('skip')) steps.push(`${off('skip')} fully skipped day(s) passed over`);
+  if (account.partial_skips.length) {
+    const meals = account.partial_skips.reduce((s, p) => s + p.meals, 0);
+    steps.push(`${account.partial_skips.length} day(s) with ${meals} meal(s) skipped still count as days; the meals go to the wallet at carry-forward`);
+  }
+  steps.push(account.open_ended
+    ? 'Paused with no resume date, so the remaining days have no end date yet'
+    : `The last remaining day falls on ${account.end_date}`);
+  return steps;
+}
+
+type CustomerRow = NonNullable<Awaited<ReturnType<typeof prisma.customer.findUnique>>>;
+
+async function accountFor(customer: CustomerRow, timezone: string | null | undefined) {
+  const today = todayInTimezone(timezone);
+  const [skips, rules, closures, countedToday, walletMeals] = await Promise.all([
+    prisma.tiffinSkip.findMany({
+      where: { customer_id: customer.id, status: 'active', skip_date: { gte: today } },
+      select: { skip_date: true, meal_type: true },
+    }),
+    loadSkipRules({ customer_id: customer.id }, today),
+    loadClosures(customer.created_by, today),
+    prisma.order.count({ where: { customer_id: customer.id, order_date: today, counted_at: { not: null } } }),
+    walletBalance(customer.id),
+  ]);
+  return accountDays({ customer, today, todayCounted: countedToday > 0, skips, rules, closures, walletMeals });
+}
+
+async function merchantTimezone(merchantId: string) {
+  const merchant = await prisma.user.findUnique({ where: { id: merchantId }, select: { timezone: true } });
+  return merchant?.timezone ?? null;
+}
+
+/**
+ * Derive the customer's days and write days_remaining and end_date where they
+ * differ. Pass `timezone` when the caller already has the merchant's, to save
+ * the lookup. Returns null for an unknown customer.
+ */
+export async function recomputeCustomerDays(customerId: string, options: { timezone?: string | null } = {}) {
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+  if (!customer) return null;
+  const timezone = 'timezone' in options ? options.timezone : await merchantTimezone(customer.created_by);
+  const account = await accountFor(customer, timezone);
+
+  const data: { days_remaining?: number; end_date?: Date } = {};
+  const changed: Record<string, { from: unknown; to: unknown }> = {};
+  if (customer.days_remaining !== account.days_remaining) {
+    data.days_remaining = account.days_remaining;
+    changed.days_remaining = { from: customer.days_remaining, to: account.days_remaining };
+  }
+  const storedEnd = customer.end_date ? customer.end_date.toISOString().split('T')[0] : null;
+  if (account.end_date && account.end_date !== storedEnd) {
+    data.end_date = new Date(`${account.end_date}T00:00:00.000Z`);
+    changed.end_date = { from: storedEnd, to: account.end_date };
+  }
+
+  const updated = Object.keys(data).length > 0
+    ? await prisma.customer.update({ where: { id: customerId }, data })
+    : customer;
+  return { customer: updated, account, changed };
+}
+
+/**
+ * Recompute every active customer of a merchant — after a change that moves
+ * all of them at once, such as a kitchen closure. Returns the customers whose
+ * numbers moved, with what moved.
+ */
+export async function recomputeMerchantCustomers(merchantId: string, timezone: string | null | undefined) {
+  const customers = await prisma.customer.findMany({
+    where: { created_by: merchantId, is_deleted: false, active: true },
+    select: { id: true },
+  });
+  const moved: NonNullable<Awaited<ReturnType<typeof recomputeCustomerDays>>>[] = [];
+  for (const { id } of customers) {
+    const result = await recomputeCustomerDays(id, { timezone });
+    if (result && Object.keys(result.changed).length > 0) moved.push(result);
+  }
+  return moved;
+}
+
+/** What the audit endpoint shows: the stored numbers next to the derived ones. */
+export async function auditCustomerDays(customerId: string, merchantId: string) {
+  const customer = await prisma.customer.findFirst({ where: { id: customerId, created_by: merchantId } });
+  if (!customer) return null;
+  const account = await accountFor(customer, await merchantTimezone(merchantId));
+  const storedEnd = customer.end_date ? customer.end_date.toISOString().split('T')[0] : null;
+  return {
+    customer_id: customer.id,
+    customer_name: customer.full_name,
+    stored: { days_remaining: customer.days_remaining, end_date: storedEnd },
+    derived: account,
+    in_step: customer.days_remaining === account.days_remaining && (!account.end_date || account.end_date === storedEnd),
+    steps: explainAccount(account),
+  };
+}
+
+/**
+ * The paid_days that make the remaining days end on `endDate`: what an end date
+ * typed on the customer record means in days. A date that is not a service day
+ * ends on the service day before it.
+ */
+export async function paidDaysEndingOn(customerId: string, endDate: string) {
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+  if (!customer) return null;
+  const timezone = await merchantTimezone(customer.created_by);
+  const today = todayInTimezone(timezone);
+  const [skips, rules, closures, countedToday] = await Promise.all([
+    prisma.tiffinSkip.findMany({
+      where: { customer_id: customer.id, status: 'active', skip_date: { gte: today, lte: endDate } },
+      select: { skip_date: true, meal_type: true },
+    }),
+    loadSkipRules({ customer_id: customer.id }, today),
+    loadClosures(customer.created_by, today),
+    prisma.order.count({ where: { customer_id: customer.id, order_date: today, counted_at: { not: null } } }),
+  ]);
+  const skipsOn = skipsByDateWith(skips, rules);
+  let serviceDays = 0;
+  let date = countingFrom(customer, today, countedToday > 0);
+  for (let i = 0; date <= endDate && i < MAX_PROJECTION_DAYS; i++, date = addDaysToDateStr(date, 1)) {
+    if (!dayOffReason(customer, date, skipsOn(date), closures)) serviceDays++;
+  }
+  return (customer.delivered_days || 0) + serviceDays;
+}
@@ -0,0 +1,364 @@
+// Customer trials, from the first free day to paying or leaving.
+//
+// Customer.is_trial, trial_end_date and trial_converted said where a trial
+// customer was, but nothing acted on them until runTrialExpiryCheck switched
+// the customer off the morning after — by which point the offer to stay came
+// as a payment link for the price they happened to be set up on, the day after
+// the food stopped. Nobody could say how many trials became customers, or
+// which registration channel brought the ones who stayed.
+//
+// Each trial is now a CustomerTrial row:
+//
+//   active     running. On its last day runTrialOffers() sends the customer a
+//              renewal offer pointing at the portal, where /api/portal/renew
+//              lets them pick a plan and pays as a trial conversion.
+//   converted  paid (recordTrialConversion, from the Stripe webhook) — also
+//              after the trial ran out, which the funnel reports as a late
+//              conversion through the time it took.
+//   expired    ran out without a payment.
+//
+// A customer who turns the offer down says why (recordDropOff); the merchant
+// can add or correct the reason afterwards. The reason rides on the row whichever
+// way it ends, and trialFunnel() reports the lot by registration_source.
+
+import { prisma } from './prisma';
+import { listPlansForSale } from './plans';
+import { todayInTimezone } from './weekend';
+import { addDaysToDateStr } from './subscriptionDays';
+import { escapeHtml } from './html';
+import { hasProductAccess } from '../middleware/auth';
+import { sendEmail } from '../services/email';
+import { sendMerchantWhatsApp } from '../services/whatsapp';
+import { sendPushToCustomer, sendPushToUser } from '../services/pushNotification';
+
+export const DROP_OFF_REASONS = [
+  'too_expensive',
+  'food',
+  'delivery',
+  'schedule',
+  'moving_away',
+  'not_needed',
+  'other',
+] as const;
+export type DropOffReason = (typeof DROP_OFF_REASONS)[number];
+
+type Trial = NonNullable<Awaited<ReturnType<typeof prisma.customerTrial.findFirst>>>;
+
+function dateOf(value: Date | null | undefined): string | null {
+  return value ? value.toISOString().split('T')[0] : null;
+}
+
+/** The last trial day: where the customer's last paid day falls, else trial_end_date. */
+function lastTrialDay(customer: { end_date: Date | null; trial_end_date: Date | null }, startedOn: string): string {
+  return dateOf(customer.end_date) || dateOf(customer.trial_end_date) || addDaysToDateStr(startedOn, 2);
+}
+
+/** The customer's running trial, if any. */
+export async function openTrial(customerId: string) {
+  return prisma.customerTrial.findFirst({
+    where: { customer_id: customerId, status: 'active' },
+    orderBy: { created_at: 'desc' },
+  });
+}
+
+/**
+ * Open a trial row for a customer whose trial has just begun. Call it after
+ * the end date is recomputed, so ends_on is the last day food arrives.
+ */
+export async function startTrial(
+  customer: {
+    id: string;
+    plan_id: string | null;
+    registration_source: string | null;
+    end_date: Date | null;
+    trial_end_date: Date | null;
+    created_by: string;
+  },
+  today: string
+) {
+  const existing = await openTrial(customer.id);
+  if (existing) return existing;
+  return prisma.customerTrial.create({
+    data: {
+      customer_id: customer.id,
+      registration_source: customer.registration_source,
+      plan_id: customer.plan_id,
+      started_on: today,
+      ends_on: lastTrialDay(customer, today),
+      status: 'active',
+      created_by: customer.created_by,
+    },
+  });
+}
+
+/**
+ * Mark the customer's latest trial converted. An expired one counts too: a
+ * customer who pays two days after the food stopped still converted, and the
+ * funnel shows how long it took them.
+ */
+export async function recordTrialConversion(customerId: string, planId: string | null) {
+  const trial = await prisma.customerTrial.findFirst({
+    where: { customer_id: customerId, status: { in: ['active', 'expired'] } },
+    orderBy: { created_at: 'desc' },
+  });
+  if (!trial) return null;
+  return prisma.customerTrial.update({
+    where: { id: trial.id },
+    data: {
+      status: 'converted',
+      converted_at: new Date(),
+      converted_plan_id: planId ?? trial.plan_id,
+      ended_at: trial.ended_at ?? new Date(),
+    },
+  });
+}
+
+/** Close the customer's running trial as expired; runTrialExpiryCheck calls it. */
+export async function expireTrial(customerId: string) {
+  await prisma.customerTrial.updateMany({
+    where: { customer_id: customerId, status: 'active' },
+    data: { status: 'expired', ended_at: new Date() },
+  });
+}
+
+/** Check a drop-off reason as the customer or merchant sent it. */
+export function validateDropOff(body: any): { ok: true; reason: DropOffReason; note: string | null } | { ok: false; error: string } {
+  const reason = body?.reason;
+  if (!DROP_OFF_REASONS.includes(reason)) {
+    return { ok: false, error: `reason must be one of: ${DROP_OFF_REASONS.join(', ')}` };
+  }
+  const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim().slice(0, 500) : null;
+  if (reason === 'other' && !note) return { ok: false, error: 'Tell us a little more in note when the reason is other' };
+  return { ok: true, reason, note };
+}
+
+export async function recordDropOff(trial: Trial, reason: DropOffReason, note: string | null) {
+  return prisma.customerTrial.update({
+    where: { id: trial.id },
+    data: { drop_off_reason: reason, drop_off_note: note },
+  });
+}
+
+type OfferCustomer = {
+  id: string;
+  full_name: string;
+  phone_number: string | null;
+  email: string | null;
+};
+type OfferMerchant = {
+  id: string;
+  email: string;
+  business_name: string | null;
+  currency: string | null;
+  stripe_connect_account_id: string | null;
+  payment_account_connected: boolean | null;
+  payment_verification_status: string | null;
+};
+
+async function sendTrialOffer(
+  trial: Trial,
+  customer: OfferCustomer,
+  merchant: OfferMerchant,
+  plans: Awaited<ReturnType<typeof listPlansForSale>>
+) {
+  const business = merchant.business_name || 'our tiffin service';
+  const currency = (merchant.currency || 'USD').toUpperCase();
+  const appUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  const portalUrl = `${appUrl}/portal/login?merchant=${merchant.id}`;
+  const canPay = !!merchant.stripe_connect_account_id && !!merchant.payment_account_connected && merchant.payment_verification_status === 'verified';
+
+  const planLines = plans.slice(0, 4).map((p) => `• ${p.name}: ${currency} ${p.price} for ${p.days} days`);
+  const next = canPay ? `Pick a plan and pay in the portal: ${portalUrl}` : 'Reply to this message and we will set you up.';
+  const message = [
+    `Hello ${customer.full_name}, today is the last day of your free trial with ${business}.`,
+    ...(planLines.length > 0 ? ['', 'To keep your tiffins coming:', ...planLines] : []),
+    '',
+    next,
+  ].join('\n');
+
+  let whatsapp = false;
+  if (customer.phone_number) {
+    try {
+      whatsapp = (await sendMerchantWhatsApp(merchant.id, { to: customer.phone_number, message })).success;
+    } catch (e) { /* WhatsApp optional */ }
+  }
+  sendPushToCustomer(customer.id, 'Your trial ends today', `Choose a plan to keep your tiffins coming from ${business}.`, {
+    type: 'trial_offer',
+  }).catch(() => {});
+
+  let email = false;
+  if (customer.email) {
+    const rows = plans
+      .slice(0, 4)
+      .map((p) => `<li><strong>${escapeHtml(p.name)}</strong> — ${escapeHtml(currency)} ${p.price} for ${p.days} days</li>`)
+      .join('');
+    const result = await sendEmail({
+      to: customer.email,
+      subject: `Your trial with ${business} ends today`,
+      body: `<p>Hello ${escapeHtml(customer.full_name)},</p>
+<p>Today is the last day of your free trial with ${escapeHtml(business)}. We hope you enjoyed it.</p>
+${rows ? `<p>To keep your tiffins coming, pick a plan:</p><ul>${rows}</ul>` : ''}
+<p>${canPay ? `<a href="${portalUrl}">Choose a plan in your portal</a>` : 'Reply to this email and we will set you up.'}</p>`,
+    });
+    email = result.success;
+  }
+
+  await prisma.customerTrial.update({ where: { id: trial.id }, data: { offer_sent_at: new Date() } });
+  return { whatsapp, email };
+}
+
+/**
+ * The daily trial job, in each merchant's own calendar:
+ *
+ *  1. open a row for trials that began without one — customers added by hand
+ *     as trials, and trials running when this table arrived;
+ *  2. settle rows whose customer has moved on: converted by the merchant
+ *     (trial_converted set by hand), or switched off or deleted;
+ *  3. send the renewal offer on the trial's last day.
+ *
+ * It runs before runTrialExpiryCheck, which expires the trial the day after.
+ */
+export async function runTrialOffers() {
+  const [trialCustomers, open] = await Promise.all([
+    prisma.customer.findMany({
+      where: { is_trial: true, trial_converted: { not: true }, active: true, is_deleted: false },
+    }),
+    prisma.customerTrial.findMany({ where: { status: 'active' } }),
+  ]);
+  const merchantIds = [...new Set([...trialCustomers, ...open].map((r) => r.created_by))];
+  const merchants = new Map(
+    (await prisma.user.findMany({ where: { id: { in: merchantIds } } })).map((m) => [m.id, m])
+  );
+  const todayFor = (merchantId: string) => todayInTimezone(merchants.get(merchantId)?.timezone);
+
+  let adopted = 0;
+  let converted = 0;
+  let expired = 0;
+  let offersSent = 0;
+
+  const openByCustomer = new Map(open.map((t) => [t.customer_id, t]));
+  for (const customer of trialCustomers) {
+    if (openByCustomer.has(customer.id)) continue;
+    try {
+      const startedOn = dateOf(customer.start_date) || todayFor(customer.created_by);
+      openByCustomer.set(customer.id, await startTrial(customer, startedOn));
+      adopted++;
+    } catch (err) {
+      console.error(`[Trials] Failed to open a trial for customer ${customer.id}:`, err);
+    }
+  }
+
+  const stillTrial = new Map(trialCustomers.map((c) => [c.id, c]));
+  const settled = await prisma.customer.findMany({
+    where: { id: { in: open.filter((t) => !stillTrial.has(t.customer_id)).map((t) => t.customer_id) } },
+    select: { id: true, trial_converted: true, plan_id: true },
+  });
+  for (const customer of settled) {
+    if (customer.trial_converted) {
+      await recordTrialConversion(customer.id, customer.plan_id);
+      converted++;
+    } else {
+      await expireTrial(customer.id);
+      expired++;
+    }
+    openByCustomer.delete(customer.id);
+  }
+  // A trial whose customer row is gone entirely.
+  const gone = open.filter((t) => !stillTrial.has(t.customer_id) && !settled.some((c) => c.id === t.customer_id));
+  for (const trial of gone) {
+    await expireTrial(trial.customer_id);
+    openByCustomer.delete(trial.customer_id);
+    expired++;
+  }
+
+  const plansByMerchant = new Map<string, Awaited<ReturnType<typeof listPlansForSale>>>();
+  for (const trial of openByCustomer.values()) {
+    const customer = stillTrial.get(trial.customer_id);
+    const merchant = merchants.get(trial.created_by);
+    if (!customer || !merchant || trial.offer_sent_at) continue;
+
+    // The end date moves with skips, pauses and closures; the offer follows it.
+    const lastDay = lastTrialDay(customer, trial.started_on);
+    if (lastDay !== trial.ends_on) {
+      await prisma.customerTrial.update({ where: { id: trial.id }, data: { ends_on: lastDay } });
+    }
+    if (todayFor(trial.created_by) < lastDay) continue;
+    // Subscribers only — don't spend message credit on lapsed accounts.
+    if (!hasProductAccess(merchant)) continue;
+
+    try {
+      if (!plansByMerchant.has(merchant.id)) plansByMerchant.set(merchant.id, await listPlansForSale(merchant.id));
+      await sendTrialOffer(trial, customer, merchant, plansByMerchant.get(merchant.id)!);
+      sendPushToUser(merchant.id, 'Trial ends today', `${customer.full_name} was sent a plan offer`, {
+        type: 'trial_expiry', customerId: customer.id,
+      }).catch(() => {});
+      offersSent++;
+    } catch (err) {
+      console.error(`[Trials] Failed to send the offer for trial ${trial.id}:`, err);
+    }
+  }
+
+  return { success: true, adopted, converted, expired, offersSent };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Trials started between `from` and `to` (inclusive), by registration_source:
+ * how many started, converted, expired and are still running, the conversion
+ * rate over the trials that have finished, and the days from the first trial
+ * day to the payment.
+ */
+export async function trialFunnel(merchantId: string, from: string, to: string) {
+  const trials = await prisma.customerTrial.findMany({
+    where: { created_by: merchantId, started_on: { gte: from, lte: to } },
+  });
+
+  const summarise = (rows: Trial[]) => {
+    const converted = rows.filter((t) => t.status === 'converted');
+    const expired = rows.filter((t) => t.status === 'expired');
+    const finished = converted.length + expired.length;
+    const daysToConvert = converted
+      .filter((t) => t.converted_at)
+      .map((t) => (t.converted_at!.getTime() - Date.parse(t.started_on)) / 86_400_000);
+    const reasons: Record<string, number> = {};
+    for (const t of expired) {
+      const key = t.drop_off_reason || 'no_reason';
+      reasons[key] = (reasons[key] || 0) + 1;
+    }
+    return {
+      started: rows.length,
+      active: rows.filter((t) => t.status === 'active').length,
+      converted: converted.length,
+      expired: expired.length,
+      late_conversions: converted.filter((t) => t.converted_at && dateOf(t.converted_at)! > t.ends_on).length,
+      conversion_rate: finished > 0 ? round1((converted.length / finished) * 100) : null,
+      avg_days_to_convert: daysToConvert.length > 0 ? round1(daysToConvert.reduce((a, b) => a + b, 0) / daysToConvert.length) : null,
+      median_days_to_convert: daysToConvert.length > 0 ? round1(median(daysToConvert)!) : null,
+      drop_off_reasons: reasons,
+    };
+  };
+
+  const bySource = new Map<string, Trial[]>();
+  for (const trial of trials) {
+    const source = trial.registration_source || 'unknown';
+    if (!bySource.has(source)) bySource.set(source, []);
+    bySource.get(source)!.push(trial);
+  }
+
+  return {
+    from,
+    to,
+    total: summarise(trials),
+    sources: [...bySource.entries()]
+      .map(([source, rows]) => ({ registration_source: source, ...summarise(rows) }))
+      .sort((a, b) => b.started - a.started),
+  };
+}
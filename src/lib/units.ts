@@ -0,0 +1,150 @@
+// Units of measure for inventory.
+//
+// Ingredient.unit, Purchase.unit, Wastage.unit and the unit on each Recipe
+// line were free text that nothing compared. Rice stocked in kg, bought in
+// 25 kg sacks and cooked in grams went into current_stock as "1", "1" and
+// "500" — all read as kilograms.
+//
+// Stock is always kept in the ingredient's own unit. Anything arriving in
+// another unit is converted here first: mass, volume and count convert among
+// themselves through the registry below, and an ingredient can add its own
+// units in unit_conversions — "1 sack = 25 kg", "1 bunch = 150 g", or "1 cup
+// = 185 g" for rice, which is how a volume measure reaches a stock counted by
+// weight. A unit that cannot be reached is an error the caller shows, never a
+// silent 1:1.
+
+export type Dimension = 'mass' | 'volume' | 'count';
+export type UnitConversion = { unit: string; quantity: number; to_unit: string };
+export type ConvertResult = { ok: true; quantity: number } | { ok: false; error: string };
+
+/** Standard units: dimension and size in that dimension's base (g, ml, pc). */
+export const UNITS: Record<string, { dimension: Dimension; factor: number; label: string }> = {
+  mg: { dimension: 'mass', factor: 0.001, label: 'milligram' },
+  g: { dimension: 'mass', factor: 1, label: 'gram' },
+  kg: { dimension: 'mass', factor: 1000, label: 'kilogram' },
+  oz: { dimension: 'mass', factor: 28.349523, label: 'ounce' },
+  lb: { dimension: 'mass', factor: 453.59237, label: 'pound' },
+  ml: { dimension: 'volume', factor: 1, label: 'millilitre' },
+  l: { dimension: 'volume', factor: 1000, label: 'litre' },
+  tsp: { dimension: 'volume', factor: 5, label: 'teaspoon' },
+  tbsp: { dimension: 'volume', factor: 15, label: 'tablespoon' },
+  cup: { dimension: 'volume', factor: 240, label: 'cup' },
+  gal: { dimension: 'volume', factor: 3785.411784, label: 'gallon' },
+  pc: { dimension: 'count', factor: 1, label: 'piece' },
+  dozen: { dimension: 'count', factor: 12, label: 'dozen' },
+};
+
+const ALIASES: Record<string, string> = {
+  milligram: 'mg', milligrams: 'mg', mgs: 'mg',
+  gram: 'g', grams: 'g', gm: 'g', gms: 'g', gr: 'g', grm: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  millilitre: 'ml', milliliter: 'ml', millilitres: 'ml', milliliters: 'ml', mls: 'ml',
+  litre: 'l', liter: 'l', litres: 'l', liters: 'l', ltr: 'l', ltrs: 'l', lt: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cups: 'cup',
+  gallon: 'gal', gallons: 'gal',
+  piece: 'pc', pieces: 'pc', pcs: 'pc', nos: 'pc', no: 'pc', each: 'pc', ea: 'pc', unit: 'pc', units: 'pc',
+  doz: 'dozen', dozens: 'dozen',
+};
+
+const MAX_CONVERSIONS = 20;
+
+/** A unit as written, reduced to its registry key, or to lower case if it is not a standard unit. */
+export function normalizeUnit(unit: string | null | undefined): string {
+  const key = String(unit ?? '').trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+  return ALIASES[key] || key;
+}
+
+function conversionsOf(value: unknown): UnitConversion[] {
+  return Array.isArray(value) ? (value as UnitConversion[]) : [];
+}
+
+/**
+ * Where a unit sits: its dimension and size in the base unit. The ingredient's
+ * own conversions come first, so "cup" on rice can mean 185 g rather than
+ * 240 ml. Chains of custom units are followed a few steps, no further.
+ */
+function resolve(unit: string, conversions: UnitConversion[], depth = 0): { dimension: Dimension; factor: number } | null {
+  const key = normalizeUnit(unit);
+  const custom = depth < 3 ? conversions.find((c) => normalizeUnit(c.unit) === key) : undefined;
+  if (custom) {
+    const target = resolve(custom.to_unit, conversions, depth + 1);
+    if (target) return { dimension: target.dimension, factor: custom.quantity * target.factor };
+  }
+  return UNITS[key] ? { dimension: UNITS[key].dimension, factor: UNITS[key].factor } : null;
+}
+
+/**
+ * Convert a quantity between units for one ingredient. A missing unit on
+ * either side means "the ingredient's unit" — rows from before units were
+ * checked have none — and an unknown unit converts only to itself.
+ */
+export function convertQuantity(
+  quantity: number,
+  from: string | null | undefined,
+  to: string | null | undefined,
+  unitConversions?: unknown
+): ConvertResult {
+  if (!from || !to || normalizeUnit(from) === normalizeUnit(to)) return { ok: true, quantity };
+  const conversions = conversionsOf(unitConversions);
+  const source = resolve(from, conversions);
+  if (!source) return { ok: false, error: `Unknown unit "${from}"; add a conversion for it on the ingredient` };
+  const target = resolve(to, conversions);
+  if (!target) return { ok: false, error: `Unknown unit "${to}"; add a conversion for it on the ingredient` };
+  if (source.dimension !== target.dimension) {
+    return {
+      ok: false,
+      error: `Cannot convert ${from} to ${to}: one is ${source.dimension} and the other ${target.dimension}. Add a conversion on the ingredient`,
+    };
+  }
+  return { ok: true, quantity: (quantity * source.factor) / target.factor };
+}
+
+/** Convert into an ingredient's stock unit. */
+export function toIngredientUnit(
+  quantity: number,
+  unit: string | null | undefined,
+  ingredient: { unit: string | null; unit_conversions?: unknown }
+): ConvertResult {
+  return convertQuantity(quantity, unit, ingredient.unit, ingredient.unit_conversions);
+}
+
+/**
+ * Check an ingredient's unit_conversions as the merchant sent them. Each entry
+ * defines one unit in terms of a standard unit or another entry; a standard
+ * unit may be redefined only across dimensions (a cup of rice by weight),
+ * since "1 kg = 900 g" can only be a typo.
+ */
+export function validateUnitConversions(value: unknown): { ok: true; conversions: UnitConversion[] | null } | { ok: false; error: string } {
+  if (value == null) return { ok: true, conversions: null };
+  if (!Array.isArray(value)) return { ok: false, error: 'unit_conversions must be a list of { unit, quantity, to_unit }' };
+  if (value.length > MAX_CONVERSIONS) return { ok: false, error: `An ingredient can have at most ${MAX_CONVERSIONS} conversions` };
+
+  const conversions: UnitConversion[] = [];
+  const seen = new Set<string>();
+  for (const entry of value) {
+    const unit = typeof entry?.unit === 'string' ? entry.unit.trim() : '';
+    const toUnit = typeof entry?.to_unit === 'string' ? entry.to_unit.trim() : '';
+    const quantity = Number(entry?.quantity);
+    if (!unit || !toUnit) return { ok: false, error: 'Each conversion needs a unit and a to_unit' };
+    if (!Number.isFinite(quantity) || quantity <= 0) return { ok: false, error: `The conversion for ${unit} needs a quantity above zero` };
+    const key = normalizeUnit(unit);
+    if (seen.has(key)) return { ok: false, error: `${unit} is defined twice` };
+    if (key === normalizeUnit(toUnit)) return { ok: false, error: `${unit} cannot be defined in terms of itself` };
+    seen.add(key);
+    conversions.push({ unit, quantity, to_unit: toUnit });
+  }
+
+  for (const c of conversions) {
+    const target = resolve(c.to_unit, conversions.filter((o) => o !== c));
+    if (!target) return { ok: false, error: `${c.unit} is defined in ${c.to_unit}, which is not a known unit` };
+    const standard = UNITS[normalizeUnit(c.unit)];
+    if (standard && standard.dimension === target.dimension) {
+      return { ok: false, error: `${c.unit} is a standard unit and already converts to ${c.to_unit}` };
+    }
+  }
+  return { ok: true, conversions };
+}
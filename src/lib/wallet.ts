@@ -0,0 +1,91 @@
+// Customer wallet: an append-only ledger of prepaid meal credits.
+//
+// Customer.tiffin_balance used to be the only record — an integer that the
+// carry-forward job bumped and anyone could overwrite — so when a customer
+// asked "why do I have 3 meals?" there was nothing to show them. Every change
+// is now a WalletEntry row with a type and a reason, and tiffin_balance is only
+// a cache of the ledger's sum, rewritten after each entry.
+//
+// `meals` is the credit in meals, signed. `amount` is money in the merchant's
+// currency where there is any (a renewal payment, a refund); it is recorded for
+// the history and does not move the meal balance on its own.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const WALLET_ENTRY_TYPES = [
+  'opening_balance',
+  'skip_carry_forward',
+  'renewal',
+  'adjustment',
+  'refund',
+  'meal_consumed',
+  'plan_change',
+] as const;
+
+export type WalletEntryType = (typeof WALLET_ENTRY_TYPES)[number];
+
+export interface WalletPosting {
+  customer_id: string;
+  created_by: string;
+  entry_type: WalletEntryType;
+  meals: number;
+  amount?: number | null;
+  reason?: string | null;
+  /** What caused the entry, e.g. 'tiffin_skip' / 'payment_link' / 'order'. */
+  reference_type?: string | null;
+  reference_id?: string | null;
+  /** Who posted it: a merchant's email, 'customer' or 'system'. */
+  posted_by?: string | null;
+}
+
+/**
+ * Append an entry and refresh the cached balance, in one transaction. The
+ * customer row is locked first so two postings at once cannot each write a
+ * sum that misses the other.
+ */
+export async function postWalletEntry(posting: WalletPosting) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Customer" WHERE "id" = ${posting.customer_id} FOR UPDATE`;
+    const entry = await tx.walletEntry.create({
+      data: {
+        customer_id: posting.customer_id,
+        created_by: posting.created_by,
+        entry_type: posting.entry_type,
+        meals: Math.trunc(posting.meals),
+        amount: posting.amount ?? null,
+        reason: posting.reason ?? null,
+        reference_type: posting.reference_type ?? null,
+        reference_id: posting.reference_id ?? null,
+        posted_by: posting.posted_by ?? 'system',
+      },
+    });
+    const balance = await sumMeals(tx, posting.customer_id);
+    await tx.customer.update({ where: { id: posting.customer_id }, data: { tiffin_balance: balance } });
+    return { entry, balance };
+  });
+}
+
+async function sumMeals(client: Prisma.TransactionClient | typeof prisma, customerId: string) {
+  const result = await client.walletEntry.aggregate({ where: { customer_id: customerId }, _sum: { meals: true } });
+  return result._sum.meals ?? 0;
+}
+
+/** The balance in meals, from the ledger rather than the cache. */
+export async function walletBalance(customerId: string) {
+  return sumMeals(prisma, customerId);
+}
+
+/** Newest first, with the running balance after each entry. */
+export async function walletHistory(customerId: string, limit = 200) {
+  const entries = await prisma.walletEntry.findMany({
+    where: { customer_id: customerId },
+    orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+  });
+  let running = 0;
+  const withBalance = entries.map((e) => {
+    running += e.meals;
+    return { ...e, balance_after: running };
+  });
+  return { balance: running, entries: withBalance.reverse().slice(0, limit) };
+}
@@ -0,0 +1,271 @@
+// Win-back campaigns: one templated message to customers who have lapsed, and
+// a count of who came back.
+//
+// Merchants chased lapsed customers one WhatsApp at a time from their own
+// phone, and had no way to tell afterwards whether it worked. A campaign picks
+// the customers whose service ended within a window, sends each the same
+// template with their name filled in, and keeps a WinBackRecipient row per
+// customer. A recipient counts as renewed when the customer pays within
+// ATTRIBUTION_DAYS of the message (Customer.last_payment_date, which every
+// payment path sets); recordWinBackRenewals() stamps that nightly and whenever
+// the merchant opens a campaign.
+//
+// Nobody is messaged by two campaigns within WIN_BACK_COOLDOWN_DAYS, whatever
+// the audience says: the second message in a week is the one that gets a
+// number blocked.
+
+import { prisma } from './prisma';
+import { escapeHtml } from './html';
+import { sendEmail } from '../services/email';
+import { sendMerchantWhatsApp } from '../services/whatsapp';
+
+export const WIN_BACK_CHANNELS = ['whatsapp', 'email', 'both'] as const;
+export type WinBackChannel = (typeof WIN_BACK_CHANNELS)[number];
+
+/** Placeholders a message may use: {name}, {business}, {portal_link}. */
+export const WIN_BACK_TEMPLATES: Record<string, { name: string; message: string }> = {
+  we_miss_you: {
+    name: 'We miss you',
+    message: 'Hello {name}, we miss cooking for you at {business}! Your tiffins are one tap away whenever you are ready: {portal_link}',
+  },
+  come_back: {
+    name: 'Come back this week',
+    message: 'Hello {name}, it has been a little while. Pick up where you left off with {business} — renew in a minute here: {portal_link}',
+  },
+  new_menu: {
+    name: 'New menu',
+    message: 'Hello {name}, {business} has a new menu this month and we would love you to try it. Restart your tiffins here: {portal_link}',
+  },
+};
+
+export const MAX_WIN_BACK_RECIPIENTS = 300;
+export const MAX_LAPSED_DAYS = 365;
+export const WIN_BACK_COOLDOWN_DAYS = 14;
+/** How long after the message a payment still counts as won back. */
+export const ATTRIBUTION_DAYS = 30;
+
+const DAY_MS = 86_400_000;
+const PLACEHOLDER_RE = /\{(\w+)\}/g;
+const PLACEHOLDERS = ['name', 'business', 'portal_link'];
+
+export type CampaignInput = {
+  name: string;
+  template: string | null;
+  message: string;
+  channel: WinBackChannel;
+  lapsed_within_days: number;
+  /** Narrow the audience to these customers; they must still be lapsed. */
+  customer_ids: string[] | null;
+};
+
+/** Check a campaign as the merchant sent it: a template key or their own text. */
+export function validateCampaign(body: any): { ok: true; campaign: CampaignInput } | { ok: false; error: string } {
+  const template = body?.template ? String(body.template) : null;
+  if (template && !WIN_BACK_TEMPLATES[template]) {
+    return { ok: false, error: `template must be one of: ${Object.keys(WIN_BACK_TEMPLATES).join(', ')}` };
+  }
+  const message = typeof body?.message === 'string' && body.message.trim()
+    ? body.message.trim()
+    : template ? WIN_BACK_TEMPLATES[template].message : '';
+  if (!message) return { ok: false, error: 'Choose a template or write a message' };
+  if (message.length > 1000) return { ok: false, error: 'message can be at most 1000 characters' };
+  const unknown = [...message.matchAll(PLACEHOLDER_RE)].map((m) => m[1]).filter((p) => !PLACEHOLDERS.includes(p));
+  if (unknown.length > 0) {
+    return { ok: false, error: `Unknown placeholder {${unknown[0]}}; use ${PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}` };
+  }
+
+  const channel = body.channel || 'whatsapp';
+  if (!WIN_BACK_CHANNELS.includes(channel)) {
+    return { ok: false, error: `channel must be one of: ${WIN_BACK_CHANNELS.join(', ')}` };
+  }
+  const days = body.lapsed_within_days == null ? 60 : Number(body.lapsed_within_days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_LAPSED_DAYS) {
+    return { ok: false, error: `lapsed_within_days must be a whole number from 1 to ${MAX_LAPSED_DAYS}` };
+  }
+  let customerIds: string[] | null = null;
+  if (body.customer_ids != null) {
+    if (!Array.isArray(body.customer_ids) || body.customer_ids.some((id: unknown) => typeof id !== 'string')) {
+      return { ok: false, error: 'customer_ids must be an array of customer ids' };
+    }
+    customerIds = body.customer_ids;
+  }
+
+  const name = typeof body.name === 'string' && body.name.trim()
+    ? body.name.trim().slice(0, 120)
+    : template ? WIN_BACK_TEMPLATES[template].name : 'Win-back';
+  return { ok: true, campaign: { name, template, message, channel, lapsed_within_days: days, customer_ids: customerIds } };
+}
+
+/**
+ * The merchant's lapsed customers: switched off, not deleted, and whose last
+ * paid day fell within the window — minus anyone a campaign reached in the
+ * cooldown.
+ */
+export async function lapsedAudience(merchantId: string, lapsedWithinDays: number, customerIds: string[] | null) {
+  const now = new Date();
+  const [customers, recent] = await Promise.all([
+    prisma.customer.findMany({
+      where: {
+        created_by: merchantId,
+        is_deleted: false,
+        active: false,
+        status: { not: 'pending_verification' },
+        end_date: { gte: new Date(now.getTime() - lapsedWithinDays * DAY_MS), lt: now },
+        ...(customerIds ? { id: { in: customerIds } } : {}),
+      },
+      select: { id: true, full_name: true, phone_number: true, email: true, end_date: true, inactive_reason: true },
+      orderBy: { end_date: 'desc' },
+    }),
+    prisma.winBackRecipient.findMany({
+      where: { created_by: merchantId, sent_at: { gte: new Date(now.getTime() - WIN_BACK_COOLDOWN_DAYS * DAY_MS) } },
+      select: { customer_id: true },
+    }),
+  ]);
+  const cooling = new Set(recent.map((r) => r.customer_id));
+  return {
+    customers: customers.filter((c) => !cooling.has(c.id)),
+    in_cooldown: customers.filter((c) => cooling.has(c.id)).length,
+  };
+}
+
+export function renderWinBack(message: string, values: { name: string; business: string; portal_link: string }): string {
+  return message.replace(PLACEHOLDER_RE, (_, key: keyof typeof values) => values[key] ?? '');
+}
+
+type Campaign = NonNullable<Awaited<ReturnType<typeof prisma.winBackCampaign.findFirst>>>;
+type AudienceCustomer = Awaited<ReturnType<typeof lapsedAudience>>['customers'][number];
+
+/**
+ * Send a campaign to its audience, one recipient row per customer. A customer
+ * with no address on the campaign's channel is recorded as failed with why,
+ * so the counts add up to the audience the merchant was shown.
+ */
+export async function sendCampaign(
+  campaign: Campaign,
+  merchant: { id: string; business_name?: string | null },
+  customers: AudienceCustomer[]
+) {
+  const business = merchant.business_name || 'our tiffin service';
+  const appUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  const portalLink = `${appUrl}/portal/login?merchant=${merchant.id}`;
+  const useWhatsApp = campaign.channel !== 'email';
+  const useEmail = campaign.channel !== 'whatsapp';
+
+  let sent = 0;
+  let failed = 0;
+  for (const customer of customers) {
+    const text = renderWinBack(campaign.message, { name: customer.full_name, business, portal_link: portalLink });
+    let whatsapp = false;
+    let email = false;
+    const errors: string[] = [];
+
+    if (useWhatsApp) {
+      if (!customer.phone_number) errors.push('no phone number');
+      else {
+        try {
+          whatsapp = (await sendMerchantWhatsApp(merchant.id, { to: customer.phone_number, message: text })).success;
+          if (!whatsapp) errors.push('WhatsApp not delivered');
+        } catch (e: any) { errors.push(`WhatsApp: ${e.message}`); }
+      }
+    }
+    if (useEmail) {
+      if (!customer.email) errors.push('no email address');
+      else {
+        try {
+          email = (await sendEmail({
+            to: customer.email,
+            subject: `${business} misses you`,
+            body: `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`,
+          })).success;
+          if (!email) errors.push('email not delivered');
+        } catch (e: any) { errors.push(`Email: ${e.message}`); }
+      }
+    }
+
+    const ok = whatsapp || email;
+    await prisma.winBackRecipient.create({
+      data: {
+        campaign_id: campaign.id,
+        customer_id: customer.id,
+        customer_name: customer.full_name,
+        status: ok ? 'sent' : 'failed',
+        whatsapp_sent: whatsapp,
+        email_sent: email,
+        error: errors.length > 0 ? errors.join('; ').slice(0, 300) : null,
+        created_by: campaign.created_by,
+      },
+    });
+    if (ok) sent++;
+    else failed++;
+  }
+
+  return prisma.winBackCampaign.update({
+    where: { id: campaign.id },
+    data: { recipients: customers.length, sent, failed, sent_at: new Date() },
+  });
+}
+
+/**
+ * Stamp recipients whose customer has paid since the message, within the
+ * attribution window. A customer reached by more than one campaign is credited
+ * to the latest message before the payment.
+ */
+export async function recordWinBackRenewals(merchantId?: string) {
+  const oldest = new Date(Date.now() - ATTRIBUTION_DAYS * DAY_MS * 2);
+  const open = await prisma.winBackRecipient.findMany({
+    where: {
+      status: 'sent',
+      renewed_at: null,
+      sent_at: { gte: oldest },
+      ...(merchantId ? { created_by: merchantId } : {}),
+    },
+    orderBy: { sent_at: 'desc' },
+  });
+  if (open.length === 0) return 0;
+
+  const customers = new Map(
+    (await prisma.customer.findMany({
+      where: { id: { in: [...new Set(open.map((r) => r.customer_id))] }, last_payment_date: { not: null } },
+      select: { id: true, last_payment_date: true, last_payment_amount: true },
+    })).map((c) => [c.id, c])
+  );
+
+  let renewed = 0;
+  const credited = new Set<string>();
+  for (const recipient of open) {
+    const customer = customers.get(recipient.customer_id);
+    const paidAt = customer?.last_payment_date;
+    if (!paidAt || credited.has(recipient.customer_id)) continue;
+    if (paidAt <= recipient.sent_at || paidAt.getTime() - recipient.sent_at.getTime() > ATTRIBUTION_DAYS * DAY_MS) continue;
+    await prisma.winBackRecipient.update({
+      where: { id: recipient.id },
+      data: { renewed_at: paidAt, renewal_amount: customer.last_payment_amount },
+    });
+    credited.add(recipient.customer_id);
+    renewed++;
+  }
+  return renewed;
+}
+
+/** What a campaign achieved, from its recipient rows. */
+export async function campaignResults(campaignIds: string[]) {
+  const recipients = await prisma.winBackRecipient.findMany({
+    where: { campaign_id: { in: campaignIds }, renewed_at: { not: null } },
+    select: { campaign_id: true, renewal_amount: true },
+  });
+  const results = new Map<string, { renewed: number; renewal_revenue: number }>();
+  for (const r of recipients) {
+    const row = results.get(r.campaign_id) || { renewed: 0, renewal_revenue: 0 };
+    row.renewed++;
+    row.renewal_revenue += r.renewal_amount || 0;
+    results.set(r.campaign_id, row);
+  }
+  return (campaign: Campaign) => {
+    const row = results.get(campaign.id) || { renewed: 0, renewal_revenue: 0 };
+    return {
+      ...row,
+      renewal_revenue: Math.round(row.renewal_revenue * 100) / 100,
+      renewal_rate: campaign.sent > 0 ? Math.round((row.renewed / campaign.sent) * 1000) / 10 : null,
+    };
+  };
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
+import { isAccessCodeExpired } from '../lib/driverAccess';
 
 const JWT_SECRET: string = process.env.JWT_SECRET || 'change-me-in-production';
 if (!process.env.JWT_SECRET) {
@@ -48,8 +49,21 @@ export function generateCustomerToken(customerId: string, merchantId: string): s
   return jwt.sign({ customerId, merchantId, type: 'customer' }, JWT_SECRET, { expiresIn: '30d' });
 }
 
-export function generateDriverToken(driverId: string, merchantId: string): string {
-  return jwt.sign({ driverId, merchantId, type: 'driver' }, JWT_SECRET, { expiresIn: '12h' });
+/**
+ * `tv` is the driver's token_version when the token was issued and `device` the
+ * device that signed in; driverAuthMiddleware checks both against the live row.
+ */
+export function generateDriverToken(
+  driverId: string,
+  merchantId: string,
+  tokenVersion = 0,
+  deviceId: string | null = null
+): string {
+  return jwt.sign(
+    { driverId, merchantId, type: 'driver', tv: tokenVersion, device: deviceId },
+    JWT_SECRET,
+    { expiresIn: '12h' }
+  );
 }
 
 export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
@@ -176,7 +190,9 @@ export async function driverAuthMiddleware(req: DriverAuthRequest, res: Response
 
   const token = authHeader.slice(7);
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { driverId: string; merchantId: string; type: string };
+    const decoded = jwt.verify(token, JWT_SECRET) as {
+      driverId: string; merchantId: string; type: string; tv?: number; device?: string | null;
+    };
 
     if (decoded.type !== 'driver') {
       return res.status(401).json({ error: 'Invalid token type' });
@@ -194,6 +210,18 @@ export async function driverAuthMiddleware(req: DriverAuthRequest, res: Response
       return res.status(401).json({ error: 'Driver not found' });
     }
 
+    // Tokens from before versioning carry no tv and count as version 0. A
+    // rotate, revoke or deactivate bumps the version and ends them all.
+    if ((decoded.tv ?? 0) !== driver.token_version) {
+      return res.status(401).json({ error: 'Session ended. Please sign in again with your access code.' });
+    }
+    if (isAccessCodeExpired(driver)) {
+      return res.status(401).json({ error: 'Access code has expired' });
+    }
+    if (driver.device_binding && driver.bound_device_id && decoded.device !== driver.bound_device_id) {
+      return res.status(401).json({ error: 'This access code is registered to another device' });
+    }
+
     req.driver = {
       ...driver,
       merchant_id: decoded.merchantId,
@@ -1,10 +1,13 @@
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
 import { generateToken, authMiddleware, superAdminOnly, AuthRequest, blockIfImpersonating } from '../middleware/auth';
 import { sendEmail } from '../services/email';
 import { OAuth2Client } from 'google-auth-library';
+import { parseDeliveryWindow } from '../lib/driverReport';
+import { LATE_SKIP_POLICIES, validateSkipCutoffs } from '../lib/skipCutoffs';
 
 const router = Router();
 
@@ -308,12 +311,69 @@ router.put('/me', authMiddleware, async (req: AuthRequest, res) => {
       'brand_primary_color', 'brand_accent_color', 'custom_domain',
       // Onboarding progress, so a half-finished setup survives closing the tab.
       'onboarding_state',
+      'pod_retention_days', 'pod_dispute_retention_days',
+      'lunch_delivery_window', 'dinner_delivery_window',
+      'driver_pay_per_drop', 'driver_pay_per_km',
+      'arrival_radius_m',
+      'skip_cutoffs', 'late_skip_policy',
     ];
     const data: any = {};
     for (const field of allowedFields) {
       if (req.body[field] !== undefined) data[field] = req.body[field];
     }
 
+    // Retention windows are whole days. A zero or negative value would have the
+    // nightly job delete today's proof photos, so it is refused, not clamped.
+    for (const field of ['pod_retention_days', 'pod_dispute_retention_days']) {
+      if (data[field] === undefined) continue;
+      const days = Number(data[field]);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: `${field} must be a whole number of days between 1 and 365` });
+      }
+      data[field] = days;
+    }
+
+    // Windows must parse, or the driver report would silently score every
+    // stop against nothing. Empty clears the window.
+    for (const field of ['lunch_delivery_window', 'dinner_delivery_window']) {
+      if (data[field] === undefined) continue;
+      if (data[field] === null || data[field] === '') { data[field] = null; continue; }
+      if (!parseDeliveryWindow(data[field])) {
+        return res.status(400).json({ error: `${field} must look like "11:30-13:30"` });
+      }
+      data[field] = String(data[field]).replace(/\s+/g, '');
+    }
+    for (const field of ['driver_pay_per_drop', 'driver_pay_per_km']) {
+      if (data[field] === undefined) continue;
+      if (data[field] === null || data[field] === '') { data[field] = null; continue; }
+      const rate = Number(data[field]);
+      if (!Number.isFinite(rate) || rate < 0) {
+        return res.status(400).json({ error: `${field} must be a number of zero or more` });
+      }
+      data[field] = rate;
+    }
+
+    // Under ~20 m is inside GPS error, so arrivals would never fire; over
+    // 500 m a whole tower block "arrives" as the driver turns into the street.
+    if (data.arrival_radius_m !== undefined) {
+      const radius = Number(data.arrival_radius_m);
+      if (!Number.isInteger(radius) || radius < 20 || radius > 500) {
+        return res.status(400).json({ error: 'arrival_radius_m must be a whole number of metres between 20 and 500' });
+      }
+      data.arrival_radius_m = radius;
+    }
+
+    // Cutoffs are read on every portal skip; one that does not parse would
+    // quietly mean "no cutoff", which is the problem they exist to fix.
+    if (data.skip_cutoffs !== undefined) {
+      const checked = validateSkipCutoffs(data.skip_cutoffs);
+      if (!checked.ok) return res.status(400).json({ error: checked.error });
+      data.skip_cutoffs = checked.cutoffs ?? Prisma.DbNull;
+    }
+    if (data.late_skip_policy !== undefined && !LATE_SKIP_POLICIES.includes(data.late_skip_policy)) {
+      return res.status(400).json({ error: `late_skip_policy must be one of: ${LATE_SKIP_POLICIES.join(', ')}` });
+    }
+
     // Completion is a server-side timestamp rather than a client-supplied one:
     // the client says "I am done", the server decides when that was. Skipping
     // counts as done — a merchant who skips has made a choice, and asking again
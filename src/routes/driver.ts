@@ -4,6 +4,16 @@ import path from 'path';
 import { prisma } from '../lib/prisma';
 import { generateDriverToken, driverAuthMiddleware, DriverAuthRequest } from '../middleware/auth';
 import { uploadToCloudinary } from '../lib/cloudinary';
+import { sequenceBatch } from '../lib/routePlanner';
+import {
+  FAILURE_REASONS,
+  findLinkedOrder,
+  refreshBatchProgress,
+  runMealFor,
+} from '../lib/deliveries';
+import { clearStop, markStopDelivered } from '../lib/orderRuns';
+import { DEFAULT_ARRIVAL_RADIUS_M, markArrivals, notifyUpcomingStops } from '../lib/eta';
+import { isAccessCodeExpired, recordDriverLogin } from '../lib/driverAccess';
 
 const router = Router();
 
@@ -26,22 +36,72 @@ const upload = multer({
   fileFilter: imageFilter,
 });
 
-// POST /api/driver/auth — validate access_code, return driver JWT + merchant info
+// POST /api/driver/auth — validate access_code, return driver JWT + merchant info.
+// The app sends device_id (a stable per-install id), device_name and platform
+// alongside the code; they are recorded on every attempt and device_id is what
+// a bound code is checked against.
 router.post('/auth', async (req, res) => {
   try {
-    const { access_code } = req.body;
+    const { access_code, device_id, device_name, platform } = req.body;
     if (!access_code) {
       return res.status(400).json({ error: 'Access code is required' });
     }
 
     const driver = await prisma.driver.findFirst({
-      where: { access_code, is_active: true },
+      where: { access_code },
     });
 
     if (!driver) {
       return res.status(401).json({ error: 'Invalid access code' });
     }
 
+    const deviceId = typeof device_id === 'string' && device_id.trim() ? device_id.trim() : null;
+    const attempt = {
+      driver_id: driver.id,
+      created_by: driver.created_by,
+      device_id: deviceId,
+      device_name,
+      platform,
+      ip: req.ip,
+      user_agent: req.get('user-agent'),
+    };
+    const refuse = async (status: number, reason: string, error: string) => {
+      await recordDriverLogin({ ...attempt, success: false, failure_reason: reason });
+      return res.status(status).json({ error });
+    };
+
+    // An inactive driver answers exactly like an unknown code, so a code
+    // cannot be confirmed as real by someone who no longer works there.
+    if (!driver.is_active) {
+      return refuse(401, 'inactive', 'Invalid access code');
+    }
+    if (isAccessCodeExpired(driver)) {
+      return refuse(401, 'expired', 'Access code has expired. Ask your manager for a new one.');
+    }
+
+    if (driver.device_binding) {
+      if (!deviceId) {
+        return refuse(400, 'device_required', 'Please update the app to sign in with this access code');
+      }
+      if (driver.bound_device_id && driver.bound_device_id !== deviceId) {
+        return refuse(403, 'device_mismatch', 'This access code is registered to another device');
+      }
+      if (!driver.bound_device_id) {
+        // Claim the binding conditionally, so two phones racing with the same
+        // fresh code cannot both win it.
+        const claimed = await prisma.driver.updateMany({
+          where: { id: driver.id, bound_device_id: null },
+          data: { bound_device_id: deviceId },
+        });
+        if (claimed.count === 0) {
+          const current = await prisma.driver.findUnique({ where: { id: driver.id } });
+          if (current?.bound_device_id !== deviceId) {
+            return refuse(403, 'device_mismatch', 'This access code is registered to another device');
+          }
+        }
+      }
+    }
+
     // Get merchant info
     const merchant = await prisma.user.findUnique({
       where: { id: driver.created_by },
@@ -52,12 +112,14 @@ router.post('/auth', async (req, res) => {
       return res.status(401).json({ error: 'Merchant not found' });
     }
 
-    const token = generateDriverToken(driver.id, merchant.id);
+    const token = generateDriverToken(driver.id, merchant.id, driver.token_version, deviceId);
+    await recordDriverLogin({ ...attempt, success: true });
 
     res.json({
       token,
       driver: { id: driver.id, name: driver.name, phone: driver.phone },
       merchant: { id: merchant.id, business_name: merchant.business_name || merchant.full_name },
+      access_code_expires_at: driver.access_code_expires_at,
     });
   } catch (error) {
     console.error('[Driver Auth] Error:', error);
@@ -87,7 +149,33 @@ router.get('/batches', driverAuthMiddleware, async (req: DriverAuthRequest, res)
   }
 });
 
-// GET /api/driver/items/:batchId — items in a batch (verified driver owns it)
+// POST /api/driver/batches/:batchId/optimize — plan the stop order for a run
+router.post('/batches/:batchId/optimize', driverAuthMiddleware, async (req: DriverAuthRequest, res) => {
+  try {
+    const driver = req.driver!;
+    const batchId = req.params.batchId as string;
+
+    const batch = await prisma.deliveryBatch.findFirst({
+      where: { id: batchId, driver_id: driver.id, created_by: driver.merchant_id },
+      select: { id: true },
+    });
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const result = await sequenceBatch(batch.id, driver.merchant_id);
+    res.json(result);
+  } catch (error) {
+    console.error('[Driver Optimize] Error:', error);
+    res.status(500).json({ error: 'Failed to plan route' });
+  }
+});
+
+// GET /api/driver/items/:batchId — items in a batch (verified driver owns it),
+// in planned stop order. leg_distance_m on each item is the estimated road
+// distance from the previous stop (the kitchen, for the first). Items added
+// after planning have no sequence yet and come last, in the order they were
+// added.
 router.get('/items/:batchId', driverAuthMiddleware, async (req: DriverAuthRequest, res) => {
   try {
     const driver = req.driver!;
@@ -108,7 +196,7 @@ router.get('/items/:batchId', driverAuthMiddleware, async (req: DriverAuthReques
 
     const items = await prisma.deliveryItem.findMany({
       where: { batch_id: batchId },
-      orderBy: { created_at: 'asc' },
+      orderBy: [{ stop_sequence: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }],
     });
 
     res.json(items);
@@ -173,35 +261,155 @@ router.put('/items/:itemId/deliver', driverAuthMiddleware, async (req: DriverAut
       return res.status(403).json({ error: 'Not authorized for this item' });
     }
 
-    // Update item as delivered
+    // Update item as delivered. A successful reattempt keeps its
+    // failure_reason: that there was a failed first attempt is still true.
     const updated = await prisma.deliveryItem.update({
       where: { id: itemId },
       data: {
         status: 'delivered',
         delivered_at: new Date(),
+        reattempt: false,
         ...(delivery_photo ? { delivery_photo } : {}),
         ...(latitude != null ? { delivery_latitude: parseFloat(latitude) } : {}),
         ...(longitude != null ? { delivery_longitude: parseFloat(longitude) } : {}),
       },
     });
 
-    // Update batch delivered count
-    const deliveredCount = await prisma.deliveryItem.count({
-      where: { batch_id: item.batch_id, status: 'delivered' },
+    await refreshBatchProgress(item.batch_id);
+    // Not awaited: the customers' pushes should not hold up the driver's tap.
+    notifyUpcomingStops(item.batch_id).catch(() => {});
+
+    // The driver's tap is the record: stamp the run on the order and count the
+    // day. A re-mark of a delivered stop finds the stamp set and counts nothing.
+    const order = await findLinkedOrder(item, batch);
+    if (order) {
+      await markStopDelivered(order, runMealFor(item, batch), batch.driver_name || driver.name);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('[Driver Deliver] Error:', error);
+    res.status(500).json({ error: 'Failed to mark as delivered' });
+  }
+});
+
+// PUT /api/driver/items/:itemId/undo — reopen a stop tapped by mistake. The
+// order's run stamp is cleared and, if that day had been counted, given back.
+router.put('/items/:itemId/undo', driverAuthMiddleware, async (req: DriverAuthRequest, res) => {
+  try {
+    const driver = req.driver!;
+    const itemId = req.params.itemId as string;
+
+    const item = await prisma.deliveryItem.findUnique({ where: { id: itemId } });
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const batch = await prisma.deliveryBatch.findFirst({
+      where: {
+        id: item.batch_id,
+        driver_id: driver.id,
+        created_by: driver.merchant_id,
+      },
     });
 
-    await prisma.deliveryBatch.update({
-      where: { id: item.batch_id },
+    if (!batch) {
+      return res.status(403).json({ error: 'Not authorized for this item' });
+    }
+    if (item.status === 'pending') {
+      return res.json(item);
+    }
+
+    const updated = await prisma.deliveryItem.update({
+      where: { id: itemId },
+      data: { status: 'pending', delivered_at: null, reattempt: false },
+    });
+
+    await refreshBatchProgress(item.batch_id);
+
+    const order = await findLinkedOrder(item, batch);
+    if (order) await clearStop(order, runMealFor(item, batch));
+
+    res.json(updated);
+  } catch (error) {
+    console.error('[Driver Undo] Error:', error);
+    res.status(500).json({ error: 'Failed to undo' });
+  }
+});
+
+// GET /api/driver/failure-reasons — the codes the fail action accepts
+router.get('/failure-reasons', driverAuthMiddleware, async (_req: DriverAuthRequest, res) => {
+  res.json(Object.entries(FAILURE_REASONS).map(([code, label]) => ({ code, label })));
+});
+
+// PUT /api/driver/items/:itemId/fail — could not deliver: reason code, optional
+// photo URL + GPS as evidence, and whether the driver will try again this run
+router.put('/items/:itemId/fail', driverAuthMiddleware, async (req: DriverAuthRequest, res) => {
+  try {
+    const driver = req.driver!;
+    const itemId = req.params.itemId as string;
+    const { reason_code, notes, delivery_photo, latitude, longitude, reattempt } = req.body;
+
+    if (!reason_code || !FAILURE_REASONS[reason_code]) {
+      return res.status(400).json({ error: 'A valid reason_code is required', reasons: Object.keys(FAILURE_REASONS) });
+    }
+    if (reason_code === 'other' && !String(notes || '').trim()) {
+      return res.status(400).json({ error: 'Notes are required when the reason is "other"' });
+    }
+
+    const item = await prisma.deliveryItem.findUnique({ where: { id: itemId } });
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const batch = await prisma.deliveryBatch.findFirst({
+      where: {
+        id: item.batch_id,
+        driver_id: driver.id,
+        created_by: driver.merchant_id,
+      },
+    });
+
+    if (!batch) {
+      return res.status(403).json({ error: 'Not authorized for this item' });
+    }
+    if (item.status === 'delivered') {
+      return res.status(409).json({ error: 'Item is already marked delivered' });
+    }
+
+    const willReattempt = reattempt === true || reattempt === 'true';
+    const updated = await prisma.deliveryItem.update({
+      where: { id: itemId },
       data: {
-        delivered_count: deliveredCount,
-        status: deliveredCount >= (batch.total_orders || 0) ? 'completed' : 'in_progress',
+        status: willReattempt ? 'reattempt' : 'failed',
+        failure_reason: reason_code,
+        failed_at: new Date(),
+        reattempt: willReattempt,
+        ...(notes ? { notes: String(notes) } : {}),
+        ...(delivery_photo ? { delivery_photo } : {}),
+        ...(latitude != null ? { delivery_latitude: parseFloat(latitude) } : {}),
+        ...(longitude != null ? { delivery_longitude: parseFloat(longitude) } : {}),
       },
     });
 
+    await refreshBatchProgress(item.batch_id);
+    notifyUpcomingStops(item.batch_id).catch(() => {});
+
+    // Same shape mark-round writes for a missed run, so the dashboard's order
+    // list shows the failure without knowing delivery items exist. A final
+    // failure marks the order Missed; a reattempt only notes it, because the
+    // food is still going out.
+    const order = await findLinkedOrder(item, batch);
+    if (order) {
+      const label = FAILURE_REASONS[reason_code];
+      const note = `${willReattempt ? 'Reattempting: ' : ''}${label}${notes ? ` — ${notes}` : ''}`;
+      await clearStop(order, runMealFor(item, batch), { note, missed: !willReattempt });
+    }
+
     res.json(updated);
   } catch (error) {
-    console.error('[Driver Deliver] Error:', error);
-    res.status(500).json({ error: 'Failed to mark as delivered' });
+    console.error('[Driver Fail] Error:', error);
+    res.status(500).json({ error: 'Failed to mark as not delivered' });
   }
 });
 
@@ -255,6 +463,29 @@ router.post('/location', driverAuthMiddleware, async (req: DriverAuthRequest, re
       },
     });
 
+    // A ping on a run is what tells the first stops the driver has set off,
+    // and what marks a stop arrived when it lands inside the merchant's radius.
+    // batch_id comes from the app, so it is checked against this driver first.
+    if (batch_id) {
+      const ownBatch = await prisma.deliveryBatch.findFirst({
+        where: { id: String(batch_id), driver_id: driver.id, created_by: driver.merchant_id },
+        select: { id: true },
+      });
+      if (ownBatch) {
+        const merchant = await prisma.user.findUnique({
+          where: { id: driver.merchant_id },
+          select: { arrival_radius_m: true },
+        });
+        markArrivals(
+          ownBatch.id,
+          { latitude: location.latitude, longitude: location.longitude },
+          location.accuracy,
+          merchant?.arrival_radius_m ?? DEFAULT_ARRIVAL_RADIUS_M
+        ).catch(() => {});
+        notifyUpcomingStops(ownBatch.id).catch(() => {});
+      }
+    }
+
     res.json({ success: true, id: location.id });
   } catch (error) {
     console.error('[Driver Location] Error:', error);
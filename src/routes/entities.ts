@@ -1,8 +1,18 @@
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { authMiddleware, checkActiveSubscription, AuthRequest } from '../middleware/auth';
 import { isWeekendDate, todayInTimezone } from '../lib/weekend';
 import { validateAttributeValues } from '../lib/tiffinAttributes';
+import { snapshotCustomerForItem } from '../lib/deliveries';
+import { mintAccessCode } from '../lib/driverAccess';
+import { customerFieldsFromPlan, findPlan } from '../lib/plans';
+import { postWalletEntry } from '../lib/wallet';
+import { paidDaysEndingOn, recomputeCustomerDays } from '../lib/subscriptionDays';
+import { endSkipRule, loadSkipRules, rulesSkipMeals } from '../lib/skipRules';
+import { closureOn } from '../lib/closures';
+import { validateUnitConversions } from '../lib/units';
+import { postStockMovement } from '../lib/stock';
 
 const router = Router();
 
@@ -23,7 +33,8 @@ const dateFields = new Set([
   'subscription_start_date', 'payment_date', 'expires_at', 'paid_at',
   'trial_end_date', 'period_start', 'period_end',
   'given_date', 'last_reminder', 'delivered_at', 'prepared_at',
-  'resolved_at', 'resolved_date',
+  'resolved_at', 'resolved_date', 'failed_at', 'disputed_at',
+  'access_code_expires_at', 'arrived_at',
 ]);
 
 // Boolean fields that may arrive as strings from CSV imports
@@ -37,13 +48,17 @@ const booleanFields = new Set([
   'show_on_portal',
   'show_on_label',
   'show_on_kitchen',
-  'include_in_totals',]);
+  'include_in_totals',
+  'reattempt',
+  'device_binding',
+  'is_late',]);
 
 // Fields that are Float/Int in Prisma — empty strings must become null or 0
 const numericFields = new Set([
   'payment_amount', 'last_payment_amount', 'paid_days', 'delivered_days', 'days_remaining',
   'meals_delivered', 'tiffin_balance', 'roti_quantity', 'total_pause_days',
   'price', 'current_stock', 'min_stock_threshold', 'cost_per_unit', 'total_value',
+  'reorder_point', 'reorder_quantity',
   'total_cost', 'cost_per_serving', 'quantity', 'cost_value',
   'amount', 'tax_amount', 'total_amount', 'platform_fee_amount', 'net_amount',
   'discount_amount', 'billing_amount', 'capacity', 'given_count', 'returned_count',
@@ -51,7 +66,9 @@ const numericFields = new Set([
   'rating', 'total_orders', 'delivered_count', 'fee_percentage',
   'sort_order',
   'min_value',
-  'max_value',]);
+  'max_value',
+  'latitude', 'longitude', 'stop_sequence', 'leg_distance_m', 'failed_count',
+  'days',]);
 
 // Sanitize empty strings: convert to null for non-string fields
 function sanitizeEmptyStrings(data: any) {
@@ -136,6 +153,9 @@ const entityConfig: Record<string, {
   // attribute would strand values on every customer row that referenced it, so
   // DELETE is rejected outright below and deactivation is is_active: false.
   tiffin_attributes: { model: () => prisma.tiffinAttribute, ownerField: 'created_by', ownerValue: 'id' },
+  // Customer plans. Like tiffin attributes, customers reference them by id,
+  // so DELETE is rejected below and a plan is retired with is_active: false.
+  subscription_plans: { model: () => prisma.subscriptionPlan, ownerField: 'created_by', ownerValue: 'id' },
   purchases: { model: () => prisma.purchase, ownerField: 'created_by', ownerValue: 'id' },
   wastages: { model: () => prisma.wastage, ownerField: 'created_by', ownerValue: 'id' },
   support_tickets: { model: () => prisma.supportTicket, ownerField: 'user_email', ownerValue: 'email' },
@@ -148,6 +168,34 @@ const entityConfig: Record<string, {
   consumption_logs: { model: () => prisma.consumptionLog, ownerField: 'created_by', ownerValue: 'id' },
   invoices: { model: () => prisma.invoice, ownerField: 'created_by', ownerValue: 'id' },
   drivers: { model: () => prisma.driver, ownerField: 'created_by', ownerValue: 'id' },
+  // Created through the portal, which checks them against the customer's plan
+  // (lib/skipRules.ts). DELETE ends a rule rather than erasing what it skipped.
+  skip_rules: { model: () => prisma.skipRule, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Added and removed through /functions/kitchen-closures, which moves every
+  // customer's end date with them.
+  kitchen_closures: { model: () => prisma.kitchenClosure, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Booked, moved and cancelled through the portal; started and ended by the
+  // pause job (lib/pauses.ts), which is what moves the end date.
+  customer_pauses: { model: () => prisma.customerPause, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // The trial funnel's record (lib/trials.ts); drop-off reasons go through
+  // /functions/trials/:id/drop-off.
+  customer_trials: { model: () => prisma.customerTrial, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Written by the nightly scoring and /functions/win-back-campaigns.
+  churn_risk_scores: { model: () => prisma.churnRiskScore, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  win_back_campaigns: { model: () => prisma.winBackCampaign, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  win_back_recipients: { model: () => prisma.winBackRecipient, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Append-only; posted through lib/wallet.ts, which keeps tiffin_balance in step.
+  // Same for stock_movements and lib/stock.ts with Ingredient.current_stock.
+  stock_movements: { model: () => prisma.stockMovement, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Drafted, sent and received through /functions/purchase-orders.
+  purchase_orders: { model: () => prisma.purchaseOrder, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  purchase_order_lines: { model: () => prisma.purchaseOrderLine, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Opened, counted and closed through /functions/stock-takes.
+  stock_takes: { model: () => prisma.stockTake, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  stock_take_lines: { model: () => prisma.stockTakeLine, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  wallet_entries: { model: () => prisma.walletEntry, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
+  // Written by POST /api/driver/auth on every sign-in attempt.
+  driver_logins: { model: () => prisma.driverLogin, ownerField: 'created_by', ownerValue: 'id', readOnly: true },
   delivery_batches: { model: () => prisma.deliveryBatch, ownerField: 'created_by', ownerValue: 'id' },
   delivery_items: { model: () => prisma.deliveryItem, ownerField: 'created_by', ownerValue: 'id' },
   kitchens: { model: () => prisma.kitchen, ownerField: 'created_by', ownerValue: 'id' },
@@ -346,6 +394,20 @@ router.get('/:entity/:id', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+// Customer fields lib/subscriptionDays.ts derives days_remaining and end_date
+// from. A write touching any of them is followed by a recompute.
+const DAY_INPUT_FIELDS = [
+  'paid_days', 'delivered_days', 'start_date', 'is_trial', 'meal_type', 'skip_weekends',
+  'is_paused', 'status', 'pause_start_date', 'pause_resume_date', 'pause_start', 'pause_end',
+];
+
+/** "YYYY-MM-DD" of a date-ish value from a request body, or null. */
+function dateOnly(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
 // POST /api/:entity
 router.post('/:entity', authMiddleware, checkActiveSubscription, async (req: AuthRequest, res) => {
   const config = entityConfig[req.params.entity as string];
@@ -363,11 +425,10 @@ router.post('/:entity', authMiddleware, checkActiveSubscription, async (req: Aut
     // browser. A guessed code authenticates against whichever tenant owns it,
     // since the lookup searches all merchants.
     if (req.params.entity === 'drivers') {
-      const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no look-alikes
-      const bytes = require('crypto').randomBytes(8);
-      data.access_code = Array.from(bytes as Buffer)
-        .map((b: number) => alphabet[b % alphabet.length])
-        .join('');
+      data.access_code = mintAccessCode();
+      data.access_code_rotated_at = new Date();
+      delete data.token_version;
+      delete data.bound_device_id;
     }
 
     // Auto-set owner field
@@ -387,6 +448,38 @@ router.post('/:entity', authMiddleware, checkActiveSubscription, async (req: Aut
     if (req.params.entity === 'menu_items' && !data.name && data.item_name) {
       data.name = data.item_name;
     }
+    if (req.params.entity === 'menu_items' && data.recipe_id) {
+      const recipe = await prisma.recipe.findFirst({ where: { id: data.recipe_id, created_by: req.user!.id } });
+      if (!recipe) return res.status(400).json({ error: 'Unknown recipe' });
+    }
+
+    // A customer created on a plan takes the plan's terms for anything the
+    // form left out; what the merchant typed in still wins.
+    if (req.params.entity === 'customers' && data.plan_id) {
+      const plan = await findPlan(data.plan_id, req.user!.id);
+      if (!plan) return res.status(400).json({ error: 'Unknown plan' });
+      const fromPlan = customerFieldsFromPlan(plan, data.attribute_values);
+      for (const [field, value] of Object.entries(fromPlan)) {
+        if (data[field] === undefined || field === 'attribute_values') data[field] = value;
+      }
+    }
+
+    // days_remaining and end_date are derived from the paid days. An end date
+    // typed without paid days is read as "paid through this date".
+    let requestedEndDate: string | null = null;
+    if (req.params.entity === 'customers') {
+      if (data.paid_days === undefined) requestedEndDate = dateOnly(data.end_date);
+      delete data.days_remaining;
+      delete data.end_date;
+    }
+
+    // The balance lives in the wallet ledger; tiffin_balance only caches it.
+    // A balance typed on the new-customer form becomes the opening entry.
+    let openingBalance = 0;
+    if (req.params.entity === 'customers') {
+      openingBalance = Math.trunc(Number(data.tiffin_balance) || 0);
+      delete data.tiffin_balance;
+    }
 
     if (req.params.entity === 'customers' && data.attribute_values !== undefined) {
       const checked = await validateAttributeValues(data.attribute_values, req.user!.id);
@@ -394,6 +487,32 @@ router.post('/:entity', authMiddleware, checkActiveSubscription, async (req: Aut
       data.attribute_values = checked.values;
     }
 
+    if (req.params.entity === 'subscription_plans' && data.default_attribute_values !== undefined) {
+      const checked = await validateAttributeValues(data.default_attribute_values, req.user!.id);
+      if (!checked.ok) return res.status(400).json({ error: checked.error });
+      data.default_attribute_values = checked.values;
+    }
+
+    // Stock lives in the stock ledger; current_stock only caches it. Stock
+    // typed on the new-ingredient form becomes the opening movement.
+    let openingStock = 0;
+    if (req.params.entity === 'ingredients') {
+      openingStock = Math.max(0, Number(data.current_stock) || 0);
+      delete data.current_stock;
+      delete data.total_value;
+      delete data.is_critical;
+    }
+
+    if (req.params.entity === 'ingredients' && data.preferred_supplier_id) {
+      const supplier = await prisma.supplier.findFirst({ where: { id: data.preferred_supplier_id, created_by: req.user!.id } });
+      if (!supplier) return res.status(400).json({ error: 'Unknown supplier' });
+    }
+    if (req.params.entity === 'ingredients' && data.unit_conversions !== undefined) {
+      const checked = validateUnitConversions(data.unit_conversions);
+      if (!checked.ok) return res.status(400).json({ error: checked.error });
+      data.unit_conversions = checked.conversions ?? Prisma.DbNull;
+    }
+
     // DeliveryItem: always snapshot the LIVE customer record so labels reflect the
     // latest saved address. The frontend may send a stale snapshot (e.g. an address
     // edited after the customer list was loaded); the Customer row is the source of truth.
@@ -419,21 +538,72 @@ router.post('/:entity', authMiddleware, checkActiveSubscription, async (req: Aut
         if (customer.skip_weekends && isWeekendDate(deliveryDateStr)) {
           return res.status(200).json({ success: true, skipped: true, reason: 'Weekend skip enabled for this customer' });
         }
+        if (await closureOn(req.user!.id, deliveryDateStr)) {
+          return res.status(200).json({ success: true, skipped: true, reason: 'Kitchen closed' });
+        }
 
-        const mealType = String(data.meal_type ?? customer.meal_type ?? '').toLowerCase();
-        let liveAddress = customer.address;
-        if (mealType.includes('breakfast') && customer.breakfast_address) liveAddress = customer.breakfast_address;
-        else if (mealType.includes('lunch') && customer.lunch_address) liveAddress = customer.lunch_address;
-        else if (mealType.includes('dinner') && customer.dinner_address) liveAddress = customer.dinner_address;
+        // Identity and address always come from the live row. The per-tiffin
+        // fields are only filled when the caller left them out, so a one-off
+        // edit made on the label screen still wins.
+        const snapshot = snapshotCustomerForItem(customer, data.meal_type);
+        data.customer_name = snapshot.customer_name;
+        data.customer_phone = snapshot.customer_phone;
+        data.customer_address = snapshot.customer_address;
+        data.area = snapshot.area;
+        for (const field of ['roti_quantity', 'rice_type', 'special_notes', 'attribute_values'] as const) {
+          if (data[field] === undefined) data[field] = snapshot[field];
+        }
+      }
+    }
 
-        data.customer_name = customer.full_name;
-        data.customer_phone = customer.phone_number;
-        data.customer_address = liveAddress;
-        data.area = customer.area;
+    // An order on a day the kitchen is closed, or a date the customer's skip
+    // rules take every one of its meals off, is not cooked. Answered like the
+    // weekend skip above, so the screens that generate a day's orders can post
+    // every customer and let this decide.
+    if (req.params.entity === 'orders' && data.customer_id && typeof data.order_date === 'string') {
+      if (await closureOn(req.user!.id, data.order_date)) {
+        return res.status(200).json({ success: true, skipped: true, reason: 'Kitchen closed' });
+      }
+      const rules = await loadSkipRules({ customer_id: data.customer_id }, data.order_date);
+      if (rulesSkipMeals(rules.filter((r) => r.created_by === req.user!.id), data.order_date, data.meal_type)) {
+        return res.status(200).json({ success: true, skipped: true, reason: 'Skipped by a recurring skip rule' });
       }
     }
 
-    const record = await config.model().create({ data });
+    let record = await config.model().create({ data });
+    if (req.params.entity === 'customers') {
+      if (requestedEndDate) {
+        const paidDays = await paidDaysEndingOn(record.id, requestedEndDate);
+        if (paidDays !== null) await prisma.customer.update({ where: { id: record.id }, data: { paid_days: paidDays } });
+      }
+      record = (await recomputeCustomerDays(record.id))!.customer;
+    }
+    if (req.params.entity === 'tiffin_skips' && record.customer_id) {
+      await recomputeCustomerDays(record.customer_id);
+    }
+    if (openingStock) {
+      const posted = await postStockMovement({
+        ingredient_id: record.id,
+        created_by: req.user!.id,
+        movement_type: 'opening_balance',
+        quantity: openingStock,
+        unit_cost: record.cost_per_unit,
+        reason: 'Entered when the ingredient was created',
+        posted_by: req.user!.email,
+      });
+      record = posted.ingredient;
+    }
+    if (openingBalance) {
+      const posted = await postWalletEntry({
+        customer_id: record.id,
+        created_by: req.user!.id,
+        entry_type: 'opening_balance',
+        meals: openingBalance,
+        reason: 'Entered when the customer was created',
+        posted_by: req.user!.email,
+      });
+      record.tiffin_balance = posted.balance;
+    }
     res.status(201).json(addVirtualFields(record));
   } catch (error: any) {
     // A duplicate order is not an error — it is the same delivery being
@@ -531,6 +701,97 @@ router.put('/:entity/:id', authMiddleware, checkActiveSubscription, async (req:
     coerceBooleans(updateData);
     coerceDates(updateData);
 
+    // Codes change only through /functions/rotate-driver-code and
+    // revoke-driver-code, which also end the old code's sessions; a code set
+    // here would leave them running. Activating or deactivating a driver ends
+    // their sessions too, so a deactivated driver's phone is signed out now and
+    // not when its token expires.
+    if (entity === 'drivers') {
+      for (const f of ['access_code', 'access_code_rotated_at', 'token_version', 'bound_device_id']) delete updateData[f];
+      if (updateData.is_active !== undefined && updateData.is_active !== (existing as any).is_active) {
+        updateData.token_version = { increment: 1 };
+      }
+      if (updateData.device_binding === false) updateData.bound_device_id = null;
+    }
+
+    // days_remaining and end_date are derived (lib/subscriptionDays.ts), so
+    // neither is written as sent. A changed end date becomes the paid days
+    // that reach it; days_remaining follows from paid_days, which is the number
+    // to change.
+    let requestedEndDate: string | null = null;
+    let recomputeDays = false;
+    if (entity === 'customers') {
+      const paidChanged = updateData.paid_days !== undefined
+        && Number(updateData.paid_days) !== (existing as any).paid_days;
+      const endDate = dateOnly(updateData.end_date);
+      if (!paidChanged && endDate && endDate !== dateOnly((existing as any).end_date)) requestedEndDate = endDate;
+      delete updateData.end_date;
+      delete updateData.days_remaining;
+      recomputeDays = !!requestedEndDate || DAY_INPUT_FIELDS.some((f) => updateData[f] !== undefined);
+    }
+
+    // Editing the balance on the customer record posts the difference as an
+    // adjustment, so the change shows in the wallet history with who made it.
+    // /functions/wallet-adjustment is the way to give a reason.
+    let balanceAdjustment = 0;
+    if (entity === 'customers' && updateData.tiffin_balance !== undefined) {
+      const wanted = Math.trunc(Number(updateData.tiffin_balance) || 0);
+      balanceAdjustment = wanted - ((existing as any).tiffin_balance || 0);
+      delete updateData.tiffin_balance;
+    }
+
+    // Moving a customer to another plan changes what they renew on, not the
+    // cycle they have paid for — that keeps its own payment_amount and days.
+    if (entity === 'customers' && updateData.plan_id) {
+      const plan = await findPlan(updateData.plan_id, (existing as any).created_by);
+      if (!plan) return res.status(400).json({ error: 'Unknown plan' });
+    }
+    if (entity === 'menu_items' && updateData.recipe_id) {
+      const recipe = await prisma.recipe.findFirst({ where: { id: updateData.recipe_id, created_by: (existing as any).created_by } });
+      if (!recipe) return res.status(400).json({ error: 'Unknown recipe' });
+    }
+    // Editing the stock on the ingredient record posts the difference as a
+    // correction; /functions/stock-adjustment is the way to give a reason or
+    // record a count. The cached value follows the cost and threshold.
+    let stockCorrection = 0;
+    if (entity === 'ingredients') {
+      const stock = (existing as any).current_stock || 0;
+      if (updateData.current_stock != null) stockCorrection = (Number(updateData.current_stock) || 0) - stock;
+      delete updateData.current_stock;
+      delete updateData.total_value;
+      delete updateData.is_critical;
+      if (updateData.cost_per_unit != null) updateData.total_value = stock * (Number(updateData.cost_per_unit) || 0);
+      if (updateData.min_stock_threshold != null) updateData.is_critical = stock <= (Number(updateData.min_stock_threshold) || 0);
+    }
+    // Stock, movements, costs, reorder points and recipe lines are all in the
+    // ingredient's unit. Renaming it under them would turn 5 kg into 5 g, so
+    // the unit is fixed once anything has been recorded against it.
+    if (entity === 'ingredients' && updateData.unit != null && updateData.unit !== (existing as any).unit) {
+      const movements = await prisma.stockMovement.count({ where: { ingredient_id: id } });
+      if (movements > 0 || ((existing as any).current_stock || 0) !== 0) {
+        return res.status(400).json({
+          error: `${(existing as any).name} already has stock recorded in ${(existing as any).unit}. Add a unit conversion instead of changing its unit`,
+        });
+      }
+    }
+    if (entity === 'ingredients' && updateData.preferred_supplier_id) {
+      const supplier = await prisma.supplier.findFirst({ where: { id: updateData.preferred_supplier_id, created_by: (existing as any).created_by } });
+      if (!supplier) return res.status(400).json({ error: 'Unknown supplier' });
+    }
+    if (entity === 'ingredients' && updateData.unit_conversions !== undefined) {
+      const checked = validateUnitConversions(updateData.unit_conversions);
+      if (!checked.ok) return res.status(400).json({ error: checked.error });
+      updateData.unit_conversions = checked.conversions ?? Prisma.DbNull;
+    }
+    if (entity === 'subscription_plans' && updateData.default_attribute_values !== undefined) {
+      const checked = await validateAttributeValues(
+        updateData.default_attribute_values,
+        (existing as any).created_by
+      );
+      if (!checked.ok) return res.status(400).json({ error: checked.error });
+      updateData.default_attribute_values = checked.values;
+    }
+
     // Validated against the *record owner*, not the caller: a super admin acting
     // on a merchant's customer must still be held to that merchant's attributes.
     if (entity === 'customers' && updateData.attribute_values !== undefined) {
@@ -563,6 +824,38 @@ router.put('/:entity/:id', authMiddleware, checkActiveSubscription, async (req:
         throw innerErr;
       }
     }
+    if (requestedEndDate) {
+      const paidDays = await paidDaysEndingOn(id, requestedEndDate);
+      if (paidDays !== null) await prisma.customer.update({ where: { id }, data: { paid_days: paidDays } });
+    }
+    if (recomputeDays) record = (await recomputeCustomerDays(id))!.customer;
+    if (entity === 'tiffin_skips') {
+      for (const customerId of new Set([(existing as any).customer_id, record.customer_id])) {
+        if (customerId) await recomputeCustomerDays(customerId);
+      }
+    }
+    if (Math.abs(stockCorrection) > 0.0001) {
+      const posted = await postStockMovement({
+        ingredient_id: id,
+        created_by: (existing as any).created_by,
+        movement_type: 'correction',
+        quantity: stockCorrection,
+        reason: 'Edited on the ingredient record',
+        posted_by: req.user!.email,
+      });
+      record = posted.ingredient;
+    }
+    if (balanceAdjustment) {
+      const posted = await postWalletEntry({
+        customer_id: id,
+        created_by: (existing as any).created_by,
+        entry_type: 'adjustment',
+        meals: balanceAdjustment,
+        reason: 'Edited on the customer record',
+        posted_by: req.user!.email,
+      });
+      record = { ...record, tiffin_balance: posted.balance };
+    }
     console.log(`[PUT] ✓ ${entity}/${id} updated`);
     res.json(addVirtualFields(record));
   } catch (error: any) {
@@ -585,6 +878,53 @@ router.delete('/:entity/:id', authMiddleware, checkActiveSubscription, async (re
       error: 'Tiffin attributes cannot be deleted. Set is_active to false to retire one — customer records reference it by id.',
     });
   }
+  if (req.params.entity === 'subscription_plans') {
+    return res.status(405).json({
+      error: 'Plans cannot be deleted. Set is_active to false to retire one — customers renew on it by id.',
+    });
+  }
+  if (req.params.entity === 'kitchen_closures') {
+    return res.status(405).json({
+      error: 'Remove a closure through /functions/kitchen-closures, which moves customer end dates back with it.',
+    });
+  }
+  if (['churn_risk_scores', 'win_back_campaigns', 'win_back_recipients'].includes(req.params.entity as string)) {
+    return res.status(405).json({ error: 'Scores and campaign records cannot be deleted — renewals are attributed from them.' });
+  }
+  if (req.params.entity === 'customer_trials') {
+    return res.status(405).json({ error: 'Trials cannot be deleted — the conversion funnel is counted from them.' });
+  }
+  if (req.params.entity === 'customer_pauses') {
+    return res.status(405).json({
+      error: 'Pauses are cancelled through the customer portal, or ended by resuming the customer.',
+    });
+  }
+  if (req.params.entity === 'wallet_entries') {
+    return res.status(405).json({
+      error: 'Wallet entries cannot be deleted. Post an adjustment through /functions/wallet-adjustment to correct one.',
+    });
+  }
+  if (req.params.entity === 'purchase_orders' || req.params.entity === 'purchase_order_lines') {
+    return res.status(405).json({
+      error: 'Purchase orders are kept as a record. Cancel one through /functions/purchase-orders.',
+    });
+  }
+  if (req.params.entity === 'stock_takes' || req.params.entity === 'stock_take_lines') {
+    return res.status(405).json({
+      error: 'Stock-takes are kept as a record. Cancel an open one through /functions/stock-takes.',
+    });
+  }
+  if (req.params.entity === 'stock_movements') {
+    return res.status(405).json({
+      error: 'Stock movements cannot be deleted. Post a correction through /functions/stock-adjustment instead.',
+    });
+  }
+  // Every other server-owned record (driver_logins, subscriptions, payments,
+  // system logs) is an audit trail. Skip rules are the one exception: DELETE
+  // ends the rule below rather than erasing it.
+  if (config.readOnly && req.params.entity !== 'skip_rules') {
+    return res.status(405).json({ error: 'This record is managed by the server and cannot be deleted' });
+  }
 
   try {
     const existing = await config.model().findUnique({ where: { id: req.params.id } });
@@ -598,6 +938,13 @@ router.delete('/:entity/:id', authMiddleware, checkActiveSubscription, async (re
       }
     }
 
+    if (req.params.entity === 'skip_rules') {
+      const timezone = (req.user as any)?.timezone;
+      const ended = await endSkipRule(existing, todayInTimezone(timezone));
+      await recomputeCustomerDays(existing.customer_id, { timezone });
+      return res.json({ success: true, ...ended });
+    }
+
     if (config.softDelete) {
       await config.model().update({
         where: { id: req.params.id },
@@ -606,6 +953,9 @@ router.delete('/:entity/:id', authMiddleware, checkActiveSubscription, async (re
     } else {
       await config.model().delete({ where: { id: req.params.id } });
     }
+    if (req.params.entity === 'tiffin_skips' && (existing as any).customer_id) {
+      await recomputeCustomerDays((existing as any).customer_id);
+    }
 
     res.json({ success: true });
   } catch (error: any) {
@@ -6,13 +6,66 @@ import { sendEmail } from '../services/email';
 import { sendSMS } from '../services/sms';
 import { sendMerchantWhatsApp } from '../services/whatsapp';
 import { stripe, STRIPE_PREMIUM_PRICE_ID } from '../services/stripe';
-import { sendPushToUser, sendPushToUserByEmail } from '../services/pushNotification';
+import { sendPushToCustomer, sendPushToUser, sendPushToUserByEmail } from '../services/pushNotification';
+import { lookupBudget } from '../services/geocoding';
 import { uploadToCloudinary } from '../lib/cloudinary';
 import { addDays, format } from 'date-fns';
-import { isWeekendDate } from '../lib/weekend';
+import { isWeekendDate, todayInTimezone } from '../lib/weekend';
 import { calculatePlatformFee, DEFAULT_FEE_PERCENTAGE } from '../lib/fees';
 import { requireFeature } from '../lib/features';
 import { logActivity } from '../lib/activityLog';
+import { sequenceBatch } from '../lib/routePlanner';
+import { loadBatchTrack } from '../lib/driverTracks';
+import { buildDriverReport, driverReportCsv } from '../lib/driverReport';
+import { applyPlanChange, findPlan } from '../lib/plans';
+import { mealsPerDay, partialSkipMeals, planMeals, prorate } from '../lib/proration';
+import { postWalletEntry, walletBalance, walletHistory } from '../lib/wallet';
+import {
+  addDaysToDateStr,
+  auditCustomerDays,
+  dayOffReason,
+  paidDaysOf,
+  recomputeCustomerDays,
+  recomputeMerchantCustomers,
+} from '../lib/subscriptionDays';
+import { closureOn, describeClosure, loadClosures, validateClosure } from '../lib/closures';
+import { loadSkipRules, ruleMealsToCredit, ruleSkipsOn, rulesSkipMeals } from '../lib/skipRules';
+import { isAccessCodeExpired, parseCodeExpiry, revokeAccessCode, rotateAccessCode } from '../lib/driverAccess';
+import {
+  FAILURE_REASONS,
+  isPausedOn,
+  isWeekendSkipped,
+  proofRetentionUntil,
+  skipCoversMeal,
+  snapshotCustomerForItem,
+} from '../lib/deliveries';
+import { adjustDeliveredDays, clearRuns, markRunsDelivered } from '../lib/orderRuns';
+import { expireTrial, recordDropOff, startTrial, trialFunnel, validateDropOff } from '../lib/trials';
+import { isRiskLevel, RISK_LEVELS, scoreMerchantCustomers } from '../lib/churnRisk';
+import {
+  MAX_WIN_BACK_RECIPIENTS,
+  WIN_BACK_COOLDOWN_DAYS,
+  WIN_BACK_TEMPLATES,
+  campaignResults,
+  lapsedAudience,
+  recordWinBackRenewals,
+  sendCampaign,
+  validateCampaign,
+} from '../lib/winBack';
+import { deductRecipe, recipesForMeal, recordPurchase, servingsDeducted } from '../lib/inventory';
+import { postStockMovement, postStockMovementIn, repairStockCache, stockHistory, verifyStock } from '../lib/stock';
+import { closeStockTake, openStockTake, recordCounts, stockTakeReport, validateCounts } from '../lib/stockTakes';
+import {
+  PO_CHANNELS,
+  closePurchaseOrder,
+  draftPurchaseOrders,
+  receivePurchaseOrder,
+  reorderSuggestions,
+  sendPurchaseOrder,
+  updateDraft,
+  validateReceipts,
+} from '../lib/purchaseOrders';
+import { UNITS, toIngredientUnit } from '../lib/units';
 
 const router = Router();
 
@@ -59,47 +112,36 @@ router.post('/record-delivery', async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Weekend skip enabled for this customer', skipped: true });
     }
 
-    const newDeliveredDays = (customer.delivered_days || 0) + 1;
-    const paidDays = customer.paid_days || (customer.is_trial ? 3 : 30);
-    const daysRemaining = paidDays - newDeliveredDays;
-
-    await prisma.customer.update({
-      where: { id: customerId },
-      data: {
-        delivered_days: newDeliveredDays,
-        days_remaining: daysRemaining,
-        meals_delivered: (customer.meals_delivered || 0) + 1,
-      },
+    // Claim the day on the order row first. If the driver app or mark-round
+    // already counted this order's day, recording it again here would count it
+    // twice, so the claim failing means there is nothing left to do.
+    const orders = await prisma.order.findMany({
+      where: { created_by: user.id, customer_id: customerId, order_date: String(orderDate) },
+      select: { id: true },
     });
-
-    if (newDeliveredDays >= paidDays) {
-      await prisma.customer.update({
-        where: { id: customerId },
-        data: { active: false, status: 'inactive', inactive_reason: 'service_complete', notification_sent: false },
+    if (orders.length > 0) {
+      const claimed = await prisma.order.updateMany({
+        where: { id: { in: orders.map((o) => o.id) }, counted_at: null },
+        data: { counted_at: new Date() },
       });
-
-      if (customer.phone_number) {
-        try {
-          await sendMerchantWhatsApp(user.id, {
-            to: customer.phone_number,
-            message: `Your ${paidDays}-day tiffin service is complete. Please renew your subscription to continue service.`,
-          });
-        } catch (e) { /* WhatsApp optional */ }
+      if (claimed.count === 0) {
+        return res.json({
+          success: true,
+          already_counted: true,
+          delivered_days: customer.delivered_days,
+          days_remaining: customer.days_remaining,
+        });
       }
+    }
 
-      await sendEmail({
-        to: user.email,
-        subject: `Payment Due - ${customer.full_name}`,
-        body: `<h2>Service Completed - Payment Required</h2>
-          <p><strong>Customer:</strong> ${customer.full_name}</p>
-          <p><strong>Days Delivered:</strong> ${newDeliveredDays} / ${paidDays}</p>
-          <p><strong>Amount Due:</strong> ${user.currency || 'USD'} ${customer.payment_amount}</p>`,
-      });
+    const updated = await adjustDeliveredDays(customerId, 1, 1);
+    const paidDays = paidDaysOf(updated);
 
-      return res.json({ success: true, delivered_days: newDeliveredDays, service_complete: true });
+    if ((updated.delivered_days || 0) >= paidDays) {
+      return res.json({ success: true, delivered_days: updated.delivered_days, service_complete: true });
     }
 
-    res.json({ success: true, delivered_days: newDeliveredDays, days_remaining: daysRemaining });
+    res.json({ success: true, delivered_days: updated.delivered_days, days_remaining: updated.days_remaining });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -439,110 +481,116 @@ router.post('/check-low-stock', checkPremiumAccess, async (req: AuthRequest, res
 });
 
 // ─── Batch Cooking ────────────────────────────────────────────
+// Logs a batch cooked for a meal. Servings the daily deduction or deliveries
+// have already taken for the same recipe, day and meal are not taken again,
+// so logging a batch after the job has run only deducts the extra.
 router.post('/batch-cooking', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
-    const { meal_type, quantity } = req.body;
+    const { meal_type, recipe_id } = req.body;
+    const quantity = Number(req.body.quantity);
 
     if (!meal_type || !quantity) return res.status(400).json({ error: 'meal_type and quantity required' });
+    if (!Number.isInteger(quantity) || quantity < 1) return res.status(400).json({ error: 'quantity must be a whole number of servings' });
 
     const recipe = await prisma.recipe.findFirst({
-      where: { meal_type, is_active: true, created_by: user.id },
+      where: recipe_id
+        ? { id: recipe_id, created_by: user.id }
+        : { meal_type, is_active: true, created_by: user.id },
     });
     if (!recipe) return res.status(404).json({ error: `No active recipe found for ${meal_type}` });
 
-    const ingredients = (recipe.ingredients as any[]) || [];
-    const deductions: any[] = [];
-    let totalCost = 0;
-
-    for (const ing of ingredients) {
-      const current = await prisma.ingredient.findUnique({ where: { id: ing.ingredient_id } });
-      if (current) {
-        const totalQty = ing.quantity * quantity;
-        const newStock = (current.current_stock || 0) - totalQty;
-        const cost = totalQty * (current.cost_per_unit || 0);
-        totalCost += cost;
-
-        await prisma.ingredient.update({
-          where: { id: current.id },
-          data: {
-            current_stock: Math.max(0, newStock),
-            is_critical: newStock <= (current.min_stock_threshold || 0),
-            total_value: newStock * (current.cost_per_unit || 0),
-          },
-        });
+    // Keyed the way the daily deduction keys it, so "lunch" and "Lunch" are one meal.
+    const meal = planMeals(meal_type)[0] || meal_type;
+    const date = todayInTimezone(user.timezone);
+    const already = (await servingsDeducted(user.id, date, recipe.id, meal)).total;
+    const owed = Math.max(0, quantity - already);
+    const result = owed > 0
+      ? await deductRecipe({ merchantId: user.id, recipe, servings: owed, date, mealType: meal, source: 'batch_cooking' })
+      : { ok: true as const, deductions: [], total_cost: 0 };
+    if (!result.ok) return res.status(400).json({ error: result.error });
 
-        deductions.push({ ingredient: ing.ingredient_name, deducted: totalQty, unit: ing.unit, remaining: Math.max(0, newStock), cost });
-      }
-    }
-
-    await prisma.consumptionLog.create({
-      data: {
-        date: new Date().toISOString().split('T')[0],
-        recipe_id: recipe.id,
-        recipe_name: recipe.name,
-        meal_type: recipe.meal_type,
-        quantity_prepared: quantity,
-        ingredients_used: recipe.ingredients || undefined,
-        total_cost: totalCost,
-        cost_per_meal: totalCost / quantity,
+    res.json({
+      success: true,
+      batch_details: {
+        meal_type,
+        quantity,
+        already_deducted: already,
+        deducted_servings: owed,
+        total_cost: result.total_cost,
+        cost_per_meal: owed > 0 ? result.total_cost / owed : 0,
       },
+      deductions: result.deductions,
     });
-
-    res.json({ success: true, batch_details: { meal_type, quantity, total_cost: totalCost, cost_per_meal: totalCost / quantity }, deductions });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
 // ─── Apply Tiffin Carry Forward ───────────────────────────────
+// Settles skips that have already happened. A day skipped for every meal needs
+// nothing: it was never counted as delivered, so the paid day is still there
+// and the end date passed over it (lib/subscriptionDays.ts). Meals skipped on
+// a day that was otherwise delivered were lost from that day, so they go to
+// the wallet, where they buy a whole day once the paid days run out. Skip
+// rules leave no rows to mark, so each rule keeps the date it has been carried
+// through instead.
 router.post('/apply-tiffin-carry-forward', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
-    const currentMonth = format(new Date(), 'yyyy-MM');
+    const today = todayInTimezone(user.timezone);
+    const yesterday = addDaysToDateStr(today, -1);
     const customers = await prisma.customer.findMany({ where: { created_by: user.id, is_deleted: false } });
+    const rules = await prisma.skipRule.findMany({
+      where: { created_by: user.id, OR: [{ carried_through: null }, { carried_through: { lt: yesterday } }] },
+    });
 
     let processedCount = 0;
     let totalDaysApplied = 0;
+    let mealsCredited = 0;
 
     for (const customer of customers) {
       const skips = await prisma.tiffinSkip.findMany({
-        where: { customer_id: customer.id, carry_forward_applied: false, status: 'active' },
+        where: { customer_id: customer.id, carry_forward_applied: false, status: 'active', skip_date: { lt: today } },
       });
-      const skipsThisMonth = skips.filter(s => s.skip_date.startsWith(currentMonth));
-
-      if (skipsThisMonth.length > 0) {
-        const mealType = customer.meal_type || 'Lunch';
-        let mealsPerDay = 0;
-        if (mealType.includes('Breakfast')) mealsPerDay++;
-        if (mealType.includes('Lunch')) mealsPerDay++;
-        if (mealType.includes('Dinner')) mealsPerDay++;
-        if (mealsPerDay === 0) mealsPerDay = 1;
-
-        const daysToAdd = Math.floor(skipsThisMonth.length / mealsPerDay);
-        const remainingMeals = skipsThisMonth.length % mealsPerDay;
-
-        const currentEndDate = customer.end_date ? new Date(customer.end_date) : new Date();
-        const newEndDate = addDays(currentEndDate, daysToAdd);
-
-        await prisma.customer.update({
-          where: { id: customer.id },
-          data: { end_date: newEndDate, tiffin_balance: (customer.tiffin_balance || 0) + remainingMeals },
+      const customerRules = rules.filter((r) => r.customer_id === customer.id);
+      if (skips.length === 0 && customerRules.length === 0) continue;
+
+      const ruleMeals = await ruleMealsToCredit(customer, customerRules, yesterday);
+      // A late skip (lib/skipCutoffs.ts) was taken on the understanding that
+      // the food was cooked: it is settled here like the others, for nothing.
+      const meals = partialSkipMeals(skips.filter((s) => !s.is_late), customer.meal_type) + ruleMeals;
+      if (meals > 0) {
+        await postWalletEntry({
+          customer_id: customer.id,
+          created_by: user.id,
+          entry_type: 'skip_carry_forward',
+          meals,
+          reason: `${meals} meal(s) skipped on days that were otherwise delivered, up to ${today}`,
+          posted_by: user.email,
         });
+        mealsCredited += meals;
+      }
 
-        for (const skip of skipsThisMonth) {
-          await prisma.tiffinSkip.update({
-            where: { id: skip.id },
-            data: { carry_forward_applied: true, status: 'applied' },
-          });
-        }
-
-        processedCount++;
-        totalDaysApplied += skipsThisMonth.length;
+      if (skips.length > 0) {
+        await prisma.tiffinSkip.updateMany({
+          where: { id: { in: skips.map((s) => s.id) }, carry_forward_applied: false },
+          data: { carry_forward_applied: true, status: 'applied' },
+        });
       }
+      if (customerRules.length > 0) {
+        await prisma.skipRule.updateMany({
+          where: { id: { in: customerRules.map((r) => r.id) } },
+          data: { carried_through: yesterday },
+        });
+      }
+      if (skips.length === 0 && meals === 0) continue;
+
+      processedCount++;
+      totalDaysApplied += skips.length;
     }
 
-    res.json({ success: true, processed: processedCount, totalDaysApplied });
+    res.json({ success: true, processed: processedCount, totalDaysApplied, mealsCredited });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -613,160 +661,488 @@ router.post('/clear-deleted-customers', async (req: AuthRequest, res) => {
   }
 });
 
+// ─── Units ────────────────────────────────────────────────────
+router.get('/units', async (_req: AuthRequest, res) => {
+  res.json({ units: Object.entries(UNITS).map(([unit, u]) => ({ unit, ...u })) });
+});
+
 // ─── Add Purchase ─────────────────────────────────────────────
+// `unit` is what the purchase was bought in (a sack, a crate) and
+// cost_per_unit is per that unit (lib/inventory.ts recordPurchase).
 router.post('/add-purchase', checkPremiumAccess, async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
-    const { ingredient_id, quantity, cost_per_unit, supplier_id, purchase_date, expiry_date, notes } = req.body;
+    const { ingredient_id, cost_per_unit, supplier_id, purchase_date, expiry_date, notes } = req.body;
+    const quantity = Number(req.body.quantity);
 
     if (!ingredient_id || !quantity) return res.status(400).json({ error: 'ingredient_id and quantity required' });
+    if (!(quantity > 0)) return res.status(400).json({ error: 'quantity must be above zero' });
+    const cost = cost_per_unit == null || cost_per_unit === '' ? null : Number(cost_per_unit);
+    if (cost !== null && !(cost >= 0)) return res.status(400).json({ error: 'cost_per_unit must be zero or more' });
 
     const ingredient = await prisma.ingredient.findFirst({ where: { id: ingredient_id, created_by: user.id } });
     if (!ingredient) return res.status(404).json({ error: 'Ingredient not found' });
 
-    let supplier_name = null;
+    let supplier = null;
     if (supplier_id) {
-      const supplier = await prisma.supplier.findFirst({ where: { id: supplier_id, created_by: user.id } });
-      supplier_name = supplier?.name || null;
+      supplier = await prisma.supplier.findFirst({ where: { id: supplier_id, created_by: user.id }, select: { id: true, name: true } });
+    }
+
+    const recorded = await recordPurchase(ingredient, {
+      quantity,
+      unit: req.body.unit || ingredient.unit,
+      cost_per_unit: cost,
+      supplier: supplier || (supplier_id ? { id: supplier_id, name: null } : null),
+      purchase_date,
+      expiry_date,
+      notes,
+    }, user.email);
+    if (!recorded.ok) return res.status(400).json({ error: recorded.error });
+    const { purchase, stock_quantity: stockQuantity } = recorded;
+
+    res.json({ success: true, purchase, message: `Added ${stockQuantity} ${ingredient.unit} of ${ingredient.name} to stock` });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Add Wastage ──────────────────────────────────────────────
+router.post('/add-wastage', checkPremiumAccess, async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { ingredient_id, reason, notes } = req.body;
+    const quantity = Number(req.body.quantity);
+
+    if (!ingredient_id || !quantity || !reason) {
+      return res.status(400).json({ error: 'ingredient_id, quantity, and reason required' });
     }
+    if (!(quantity > 0)) return res.status(400).json({ error: 'quantity must be above zero' });
 
-    const effectiveCost = cost_per_unit || ingredient.cost_per_unit || 0;
+    const ingredient = await prisma.ingredient.findFirst({ where: { id: ingredient_id, created_by: user.id } });
+    if (!ingredient) return res.status(404).json({ error: 'Ingredient not found' });
 
-    const purchase = await prisma.purchase.create({
-      data: {
+    const unit = req.body.unit || ingredient.unit;
+    const converted = toIngredientUnit(quantity, unit, ingredient);
+    if (!converted.ok) return res.status(400).json({ error: converted.error });
+    const stockQuantity = converted.quantity;
+    const costValue = stockQuantity * (ingredient.cost_per_unit || 0);
+
+    // The wastage row and its stock movement land together, so a failed
+    // posting never leaves a logged wastage the stock doesn't reflect.
+    const wastage = await prisma.$transaction(async (tx) => {
+      const created = await tx.wastage.create({
+        data: {
+          ingredient_id,
+          ingredient_name: ingredient.name,
+          quantity,
+          unit,
+          stock_quantity: stockQuantity,
+          reason,
+          cost_value: costValue,
+          wastage_date: new Date().toISOString().split('T')[0],
+          notes: notes || '',
+          created_by: user.id,
+        },
+      });
+      await postStockMovementIn(tx, {
         ingredient_id,
-        ingredient_name: ingredient.name,
-        quantity,
-        unit: ingredient.unit,
-        cost_per_unit: effectiveCost,
-        total_cost: quantity * effectiveCost,
-        supplier_id: supplier_id || null,
-        supplier_name,
-        purchase_date: purchase_date || new Date().toISOString().split('T')[0],
-        expiry_date: expiry_date || null,
-        notes: notes || null,
         created_by: user.id,
-      },
+        movement_type: 'wastage',
+        quantity: -stockQuantity,
+        reason,
+        reference_type: 'wastage',
+        reference_id: created.id,
+        posted_by: user.email,
+      });
+      return created;
     });
 
-    const newStock = (ingredient.current_stock || 0) + quantity;
-    await prisma.ingredient.update({
-      where: { id: ingredient_id },
-      data: {
-        current_stock: newStock,
-        cost_per_unit: effectiveCost,
-        total_value: newStock * effectiveCost,
-        is_critical: newStock <= (ingredient.min_stock_threshold || 0),
-        last_purchase_date: new Date().toISOString().split('T')[0],
-      },
+    res.json({ success: true, wastage, message: `Logged wastage: ${quantity}${unit ? ` ${unit}` : ''} of ${ingredient.name}` });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Stock Ledger ────────────────────────────────────────────
+// current_stock is the sum of the ingredient's stock movements (lib/stock.ts).
+// A store-room count or a correction is posted as a movement with a reason —
+// never by editing an old one — so the history always adds up to the stock.
+router.get('/ingredients/:ingredientId/stock-history', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const ingredient = await prisma.ingredient.findFirst({
+      where: { id: req.params.ingredientId as string, created_by: user.id },
+      select: { id: true, name: true, unit: true, current_stock: true },
     });
+    if (!ingredient) return res.status(404).json({ error: 'Ingredient not found' });
 
-    res.json({ success: true, purchase, message: `Added ${quantity} ${ingredient.unit} of ${ingredient.name} to stock` });
+    const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 1000);
+    const history = await stockHistory(ingredient.id, limit);
+    res.json({
+      ingredient_id: ingredient.id,
+      ingredient_name: ingredient.name,
+      unit: ingredient.unit,
+      current_stock: ingredient.current_stock,
+      in_step: Math.abs((ingredient.current_stock || 0) - history.balance) <= 0.0001,
+      ...history,
+    });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
-// ─── Add Wastage ──────────────────────────────────────────────
-router.post('/add-wastage', checkPremiumAccess, async (req: AuthRequest, res) => {
+router.post('/stock-adjustment', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
-    const { ingredient_id, quantity, reason, notes } = req.body;
-
-    if (!ingredient_id || !quantity || !reason) {
-      return res.status(400).json({ error: 'ingredient_id, quantity, and reason required' });
+    const { ingredient_id, reason, type = 'correction' } = req.body;
+    if (!ingredient_id) return res.status(400).json({ error: 'ingredient_id is required' });
+    if (!['count', 'correction'].includes(type)) {
+      return res.status(400).json({ error: 'type must be count or correction' });
+    }
+    if (type === 'correction' && (typeof reason !== 'string' || !reason.trim())) {
+      return res.status(400).json({ error: 'A reason is required' });
     }
 
     const ingredient = await prisma.ingredient.findFirst({ where: { id: ingredient_id, created_by: user.id } });
     if (!ingredient) return res.status(404).json({ error: 'Ingredient not found' });
 
-    const costValue = quantity * (ingredient.cost_per_unit || 0);
+    // A count is what is on the shelf; a correction is a change to it. Either
+    // may be given in any unit the ingredient converts from.
+    const raw = Number(type === 'count' ? req.body.counted_quantity : req.body.quantity);
+    if (!Number.isFinite(raw) || (type === 'count' ? raw < 0 : raw === 0)) {
+      return res.status(400).json({
+        error: type === 'count' ? 'counted_quantity must be zero or more' : 'quantity must be a number other than 0',
+      });
+    }
+    const converted = toIngredientUnit(raw, req.body.unit || ingredient.unit, ingredient);
+    if (!converted.ok) return res.status(400).json({ error: converted.error });
 
-    const wastage = await prisma.wastage.create({
-      data: {
-        ingredient_id,
-        ingredient_name: ingredient.name,
-        quantity,
-        unit: ingredient.unit,
-        reason,
-        cost_value: costValue,
-        wastage_date: new Date().toISOString().split('T')[0],
-        notes: notes || '',
-        created_by: user.id,
-      },
+    const posted = await postStockMovement({
+      ingredient_id: ingredient.id,
+      created_by: user.id,
+      movement_type: type,
+      ...(type === 'count' ? { counted: converted.quantity } : { quantity: converted.quantity }),
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim().slice(0, 500) : 'Stock count',
+      posted_by: user.email,
     });
 
-    const newStock = Math.max(0, (ingredient.current_stock || 0) - quantity);
-    await prisma.ingredient.update({
-      where: { id: ingredient_id },
-      data: {
-        current_stock: newStock,
-        total_value: newStock * (ingredient.cost_per_unit || 0),
-        is_critical: newStock <= (ingredient.min_stock_threshold || 0),
-      },
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: type === 'count' ? 'stock_count' : 'stock_correction',
+      entityType: 'Ingredient',
+      entityId: ingredient.id,
+      description: `${ingredient.name}: ${posted.movement.quantity > 0 ? '+' : ''}${posted.movement.quantity}${ingredient.unit ? ` ${ingredient.unit}` : ''} (${posted.movement.reason})`,
+      metadata: { stock_movement_id: posted.movement.id, quantity: posted.movement.quantity, balance: posted.balance },
+      createdBy: user.id,
+    });
+
+    res.json({ success: true, movement: posted.movement, balance: posted.balance });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.get('/stock-ledger/verify', async (req: AuthRequest, res) => {
+  try {
+    const result = await verifyStock(req.user!.id);
+    res.json({ success: true, in_step: result.mismatches.length === 0, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/stock-ledger/repair', async (req: AuthRequest, res) => {
+  try {
+    const result = await repairStockCache(req.user!.id);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Stock-Takes ─────────────────────────────────────────────
+// Open, count, close (lib/stockTakes.ts). One open at a time per merchant, so
+// two people counting the same shelf write to the same lines.
+const findStockTake = (id: string, merchantId: string) =>
+  prisma.stockTake.findFirst({ where: { id, created_by: merchantId } });
+
+router.get('/stock-takes', async (req: AuthRequest, res) => {
+  try {
+    const stockTakes = await prisma.stockTake.findMany({
+      where: { created_by: req.user!.id, status: { not: 'cancelled' } },
+      orderBy: { opened_at: 'desc' },
+      take: 100,
+    });
+    res.json({ stock_takes: stockTakes });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/stock-takes', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const opened = await openStockTake(user, req.body || {});
+    if (!opened.ok) return res.status(400).json({ error: opened.error });
+    res.status(201).json({ success: true, stock_take: opened.stockTake, lines: opened.lines });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.get('/stock-takes/:stockTakeId', async (req: AuthRequest, res) => {
+  try {
+    const stockTake = await findStockTake(req.params.stockTakeId as string, req.user!.id);
+    if (!stockTake) return res.status(404).json({ error: 'Stock-take not found' });
+    res.json(await stockTakeReport(stockTake));
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.put('/stock-takes/:stockTakeId/counts', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const stockTake = await findStockTake(req.params.stockTakeId as string, user.id);
+    if (!stockTake) return res.status(404).json({ error: 'Stock-take not found' });
+    if (stockTake.status !== 'open') return res.status(400).json({ error: `This stock-take is ${stockTake.status}` });
+
+    const checked = validateCounts(req.body?.counts);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    const result = await recordCounts(stockTake, checked.counts, user.email);
+    res.json({ success: result.errors.length === 0, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/stock-takes/:stockTakeId/close', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const stockTake = await findStockTake(req.params.stockTakeId as string, user.id);
+    if (!stockTake) return res.status(404).json({ error: 'Stock-take not found' });
+    // A closing one is a close that did not finish; closing again finishes it.
+    if (stockTake.status !== 'open' && stockTake.status !== 'closing') {
+      return res.status(400).json({ error: `This stock-take is ${stockTake.status}` });
+    }
+
+    const counted = await prisma.stockTakeLine.count({ where: { stock_take_id: stockTake.id, counted_stock: { not: null } } });
+    if (counted === 0) return res.status(400).json({ error: 'Nothing has been counted yet' });
+
+    const closed = await closeStockTake(stockTake, user.email);
+    if (!closed) return res.status(409).json({ error: 'This stock-take has already been closed' });
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'stock_take_closed',
+      entityType: 'StockTake',
+      entityId: closed.id,
+      description: `Closed stock-take${closed.name ? ` ${closed.name}` : ''}: ${closed.lines_counted} counted, variance ${closed.variance_value}`,
+      metadata: { lines_counted: closed.lines_counted, variance_value: closed.variance_value, wastage_value: closed.wastage_value },
+      createdBy: user.id,
+    });
+    res.json({ success: true, ...(await stockTakeReport(closed)) });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.delete('/stock-takes/:stockTakeId', async (req: AuthRequest, res) => {
+  try {
+    const stockTake = await findStockTake(req.params.stockTakeId as string, req.user!.id);
+    if (!stockTake) return res.status(404).json({ error: 'Stock-take not found' });
+    if (stockTake.status !== 'open') return res.status(400).json({ error: 'Only an open stock-take can be cancelled' });
+    const cancelled = await prisma.stockTake.update({ where: { id: stockTake.id }, data: { status: 'cancelled' } });
+    res.json({ success: true, stock_take: cancelled });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Purchase Orders ─────────────────────────────────────────
+// Drafted from reorder points, one per supplier, then sent and received by
+// the merchant (lib/purchaseOrders.ts). The daily job drafts on its own; these
+// let the merchant draft now, edit, send and receive.
+const findPurchaseOrder = (id: string, merchantId: string) =>
+  prisma.purchaseOrder.findFirst({ where: { id, created_by: merchantId } });
+
+router.get('/reorder-suggestions', async (req: AuthRequest, res) => {
+  try {
+    res.json({ suggestions: await reorderSuggestions(req.user!.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.get('/purchase-orders', async (req: AuthRequest, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : null;
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where: { created_by: req.user!.id, ...(status ? { status } : {}) },
+      orderBy: { created_at: 'desc' },
+      take: 200,
+    });
+    res.json({ purchase_orders: purchaseOrders });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/purchase-orders/draft', checkPremiumAccess, async (req: AuthRequest, res) => {
+  try {
+    const result = await draftPurchaseOrders(req.user!.id);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.get('/purchase-orders/:poId', async (req: AuthRequest, res) => {
+  try {
+    const po = await findPurchaseOrder(req.params.poId as string, req.user!.id);
+    if (!po) return res.status(404).json({ error: 'Purchase order not found' });
+    const [lines, purchases] = await Promise.all([
+      prisma.purchaseOrderLine.findMany({ where: { purchase_order_id: po.id }, orderBy: { ingredient_name: 'asc' } }),
+      prisma.purchase.findMany({ where: { purchase_order_id: po.id, created_by: po.created_by }, orderBy: { created_at: 'asc' } }),
+    ]);
+    res.json({ purchase_order: po, lines, receipts: purchases });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.put('/purchase-orders/:poId', async (req: AuthRequest, res) => {
+  try {
+    const po = await findPurchaseOrder(req.params.poId as string, req.user!.id);
+    if (!po) return res.status(404).json({ error: 'Purchase order not found' });
+    const result = await updateDraft(po, req.body || {});
+    if (!result.ok) return res.status(400).json({ error: result.error });
+    res.json({ success: true, purchase_order: result.po });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/purchase-orders/:poId/send', checkPremiumAccess, async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const channel = req.body?.channel || 'email';
+    if (!PO_CHANNELS.includes(channel)) {
+      return res.status(400).json({ error: `channel must be one of: ${PO_CHANNELS.join(', ')}` });
+    }
+    const po = await findPurchaseOrder(req.params.poId as string, user.id);
+    if (!po) return res.status(404).json({ error: 'Purchase order not found' });
+    if (!['draft', 'sent', 'partially_received'].includes(po.status)) {
+      return res.status(400).json({ error: `This purchase order is ${po.status}` });
+    }
+
+    const sent = await sendPurchaseOrder(po, user, channel);
+    if (!sent.ok) return res.status(400).json({ error: sent.error });
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'purchase_order_sent',
+      entityType: 'PurchaseOrder',
+      entityId: po.id,
+      description: `Sent ${po.po_number} to ${po.supplier_name || 'the supplier'} by ${sent.po.sent_via}`,
+      metadata: { po_number: po.po_number, total_cost: po.total_cost, sent_via: sent.po.sent_via },
+      createdBy: user.id,
     });
+    res.json({ success: true, purchase_order: sent.po, whatsapp: sent.whatsapp, email: sent.email, warnings: sent.errors });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/purchase-orders/:poId/receive', checkPremiumAccess, async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const po = await findPurchaseOrder(req.params.poId as string, user.id);
+    if (!po) return res.status(404).json({ error: 'Purchase order not found' });
+    if (!['draft', 'sent', 'partially_received'].includes(po.status)) {
+      return res.status(400).json({ error: `This purchase order is ${po.status}` });
+    }
+    const checked = validateReceipts(req.body?.lines);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+
+    const result = await receivePurchaseOrder(po, checked.receipts, user.email);
+    if (!result.ok) return res.status(400).json({ error: result.error });
+    res.json({ success: true, purchase_order: result.po, lines: result.lines, purchases: result.purchases });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
 
-    res.json({ success: true, wastage, message: `Logged wastage: ${quantity} ${ingredient.unit} of ${ingredient.name}` });
+// Cancelling keeps the order as a record. One with goods received against it
+// is closed instead: those purchases stay in stock and the rest is written off.
+router.delete('/purchase-orders/:poId', async (req: AuthRequest, res) => {
+  try {
+    const po = await findPurchaseOrder(req.params.poId as string, req.user!.id);
+    if (!po) return res.status(404).json({ error: 'Purchase order not found' });
+    if (po.status === 'partially_received') {
+      const closed = await closePurchaseOrder(po);
+      if (!closed.ok) return res.status(409).json({ error: closed.error });
+      return res.json({ success: true, purchase_order: closed.po, written_off: closed.written_off });
+    }
+    if (!['draft', 'sent'].includes(po.status)) {
+      return res.status(400).json({ error: `A ${po.status.replace('_', ' ')} purchase order cannot be cancelled` });
+    }
+    const cancelled = await prisma.purchaseOrder.update({ where: { id: po.id }, data: { status: 'cancelled' } });
+    res.json({ success: true, purchase_order: cancelled });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
 // ─── Deduct Inventory ─────────────────────────────────────────
+// A manual deduction of a recipe: taken as given, and counted by the daily
+// deduction like any other servings of that recipe today. That needs the one
+// meal they were for, keyed as the job keys it: the recipe's own meal_type, or
+// the body's when the recipe is for several ("Both", "Lunch + Dinner").
 router.post('/deduct-inventory', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
-    const { recipe_id, quantity } = req.body;
+    const { recipe_id } = req.body;
+    const quantity = Number(req.body.quantity);
 
     if (!recipe_id || !quantity) return res.status(400).json({ error: 'recipe_id and quantity required' });
+    if (!Number.isInteger(quantity) || quantity < 1) return res.status(400).json({ error: 'quantity must be a whole number of servings' });
 
     const recipe = await prisma.recipe.findFirst({
       where: { id: recipe_id, created_by: user.id },
     });
     if (!recipe) return res.status(404).json({ error: 'Recipe not found or access denied' });
 
-    const ingredients = (recipe.ingredients as any[]) || [];
-    const deductions: any[] = [];
-
-    for (const ing of ingredients) {
-      const current = await prisma.ingredient.findFirst({
-        where: { id: ing.ingredient_id, created_by: user.id },
-      });
-      if (current) {
-        const totalQty = ing.quantity * quantity;
-        const newStock = (current.current_stock || 0) - totalQty;
-        await prisma.ingredient.update({
-          where: { id: current.id },
-          data: {
-            current_stock: Math.max(0, newStock),
-            is_critical: newStock <= (current.min_stock_threshold || 0),
-            total_value: newStock * (current.cost_per_unit || 0),
-          },
-        });
-        deductions.push({ ingredient: ing.ingredient_name, deducted: totalQty, remaining: Math.max(0, newStock) });
-      }
+    const meals = planMeals(req.body.meal_type || recipe.meal_type);
+    if (meals.length !== 1) {
+      return res.status(400).json({ error: `Say which meal these servings of ${recipe.name} were for: meal_type must be Breakfast, Lunch or Dinner` });
     }
 
-    await prisma.consumptionLog.create({
-      data: {
-        date: new Date().toISOString().split('T')[0],
-        recipe_id: recipe.id,
-        recipe_name: recipe.name,
-        meal_type: recipe.meal_type,
-        quantity_prepared: quantity,
-        ingredients_used: recipe.ingredients || undefined,
-        total_cost: (recipe.total_cost || 0) * quantity,
-        cost_per_meal: recipe.cost_per_serving,
-      },
+    const result = await deductRecipe({
+      merchantId: user.id,
+      recipe,
+      servings: quantity,
+      date: todayInTimezone(user.timezone),
+      mealType: meals[0],
+      source: 'manual',
     });
+    if (!result.ok) return res.status(400).json({ error: result.error });
 
-    res.json({ success: true, deductions });
+    res.json({ success: true, deductions: result.deductions, missing_ingredients: result.missing });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
 // ─── Should Deliver Today ─────────────────────────────────────
+const DAY_OFF_MESSAGES = {
+  closure: 'Kitchen closed',
+  weekend: 'Weekend skip enabled',
+  pause: 'Service paused',
+  skip: 'Date is skipped',
+} as const;
+
 router.post('/should-deliver-today', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
@@ -780,7 +1156,7 @@ router.post('/should-deliver-today', async (req: AuthRequest, res) => {
     if (!customer) return res.status(404).json({ error: 'Customer not found or access denied' });
 
     if (!customer.active) return res.json({ shouldDeliver: false, reason: 'Service inactive' });
-    if ((customer.delivered_days || 0) >= (customer.paid_days || 30)) {
+    if ((customer.delivered_days || 0) >= paidDaysOf(customer)) {
       return res.json({ shouldDeliver: false, reason: 'All paid days delivered' });
     }
 
@@ -789,21 +1165,20 @@ router.post('/should-deliver-today', async (req: AuthRequest, res) => {
       return res.json({ shouldDeliver: false, reason: 'Before service start date' });
     }
 
-    if (customer.status === 'paused' && customer.pause_start && customer.pause_end) {
-      if (checkDate >= new Date(customer.pause_start) && checkDate <= new Date(customer.pause_end)) {
-        return res.json({ shouldDeliver: false, reason: 'Service paused' });
-      }
-    }
-
-    const skips = await prisma.tiffinSkip.findMany({
-      where: { customer_id: customerId, created_by: user.id, skip_date: date, status: 'active' },
-    });
+    // The day-off rules the end date is projected with (lib/subscriptionDays.ts),
+    // so a day this answers "no" for is one the end date already passed over.
+    const [oneOff, rules, closures] = await Promise.all([
+      prisma.tiffinSkip.findMany({
+        where: { customer_id: customerId, created_by: user.id, skip_date: date, status: 'active' },
+      }),
+      loadSkipRules({ customer_id: customerId }, String(date)),
+      loadClosures(user.id, String(date)),
+    ]);
+    const skips = [...oneOff, ...ruleSkipsOn(rules, String(date))];
+    const dayOff = dayOffReason(customer, String(date), skips, closures);
+    if (dayOff) return res.json({ shouldDeliver: false, reason: DAY_OFF_MESSAGES[dayOff] });
     if (skips.length > 0) return res.json({ shouldDeliver: false, reason: 'Date is skipped' });
 
-    if (customer.skip_weekends && isWeekendDate(String(date))) {
-      return res.json({ shouldDeliver: false, reason: 'Weekend skip enabled' });
-    }
-
     res.json({ shouldDeliver: true, customer });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
@@ -823,46 +1198,455 @@ router.post('/calculate-end-date', async (req: AuthRequest, res) => {
     });
     if (!customer) return res.status(404).json({ error: 'Customer not found or access denied' });
 
-    const skips = await prisma.tiffinSkip.findMany({
-      where: { customer_id: customerId, created_by: user.id, status: 'active' },
-    });
-    const skipDates = new Set(skips.map(s => s.skip_date));
-
-    let currentDate = customer.start_date ? new Date(customer.start_date) : new Date();
-    let deliveredCount = 0;
-    const paidDays = customer.paid_days || 30;
-
-    while (deliveredCount < paidDays) {
-      const dateStr = currentDate.toISOString().split('T')[0];
-      const isSkipped = skipDates.has(dateStr);
-      // Use the same calendar date the loop formats above (UTC) to decide the
-      // weekday, so the weekend check can't drift from the server's local clock.
-      const skipWeekend = customer.skip_weekends && isWeekendDate(dateStr);
+    const result = await recomputeCustomerDays(customer.id, { timezone: user.timezone });
+    const { account } = result!;
+    const endDate = account.end_date
+      ?? (result!.customer.end_date ? result!.customer.end_date.toISOString().split('T')[0] : null);
 
-      if (!isSkipped && !skipWeekend) deliveredCount++;
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    currentDate.setDate(currentDate.getDate() - 1);
-    const endDate = currentDate.toISOString().split('T')[0];
-
-    await prisma.customer.update({
-      where: { id: customerId },
-      data: { end_date: currentDate, days_remaining: paidDays - (customer.delivered_days || 0) },
+    res.json({
+      success: true,
+      endDate,
+      daysRemaining: account.days_remaining,
+      totalSkips: account.days_off.filter((d) => d.reason === 'skip').length,
     });
-
-    res.json({ success: true, endDate, totalSkips: skipDates.size });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
-// ─── Initialize New User ──────────────────────────────────────
-router.post('/initialize-new-user', async (req: AuthRequest, res) => {
+// ─── Customer Days Audit ─────────────────────────────────────
+// How a customer's days_remaining and end_date are reached, step by step, next
+// to what is stored. `in_step: false` means something wrote the columns
+// without going through lib/subscriptionDays.ts; POST /calculate-end-date
+// brings them back in line.
+router.get('/customer-days/:customerId', async (req: AuthRequest, res) => {
   try {
-    const user = req.user!;
-    if (user.subscription_status) {
-      return res.json({ message: 'User already initialized', status: user.subscription_status });
+    const audit = await auditCustomerDays(req.params.customerId as string, req.user!.id);
+    if (!audit) return res.status(404).json({ error: 'Customer not found' });
+    res.json(audit);
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Prorate Plan Change ─────────────────────────────────────
+// A customer moving to another plan (planId) or meal combination (mealType)
+// mid-cycle. The math is in lib/proration.ts. action:
+//   'preview'         — the numbers only (default)
+//   'adjust_end_date' — spend the unused value as days on the new terms
+//   'payment_link'    — keep the paid days and charge the difference; the
+//                       change applies when the Stripe webhook sees it paid
+router.post('/prorate-plan-change', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { customerId, planId, mealType, action = 'preview' } = req.body;
+    if (!customerId) return res.status(400).json({ error: 'customerId is required' });
+    if (!planId && !mealType) return res.status(400).json({ error: 'planId or mealType is required' });
+    if (!['preview', 'adjust_end_date', 'payment_link'].includes(action)) {
+      return res.status(400).json({ error: 'action must be preview, adjust_end_date or payment_link' });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, created_by: user.id, is_deleted: false },
+    });
+    if (!customer) return res.status(404).json({ error: 'Customer not found' });
+
+    const targetPlan = planId ? await findPlan(planId, user.id) : null;
+    if (planId && !targetPlan) return res.status(404).json({ error: 'Plan not found' });
+    const targetMealType = targetPlan?.meal_type || String(mealType);
+    if (planMeals(targetMealType).length === 0) {
+      return res.status(400).json({ error: 'mealType must be Breakfast, Lunch, Dinner or a combination of them' });
+    }
+
+    const currentPlan = customer.plan_id ? await findPlan(customer.plan_id, user.id) : null;
+    const cycleStart = customer.start_date ? customer.start_date.toISOString().split('T')[0] : null;
+    const skips = await prisma.tiffinSkip.findMany({
+      where: {
+        customer_id: customer.id,
+        created_by: user.id,
+        status: 'active',
+        carry_forward_applied: false,
+        is_late: false,
+        ...(cycleStart ? { skip_date: { gte: cycleStart } } : {}),
+      },
+    });
+
+    // The cycle a plan customer is on was bought at the plan's days, and anyone
+    // else's at 30, as renewalTerms() sells it. paid_days is not a cycle
+    // length: renewals stack unused days on top of it.
+    const result = prorate({
+      current: {
+        meal_type: customer.meal_type,
+        price: customer.payment_amount || 0,
+        cycle_days: currentPlan?.days || 30,
+        paid_days: paidDaysOf(customer),
+        delivered_days: customer.delivered_days || 0,
+        tiffin_balance: customer.tiffin_balance || 0,
+        partial_skip_meals: partialSkipMeals(skips, customer.meal_type),
+      },
+      target: { meal_type: targetMealType, price: targetPlan?.price, days: targetPlan?.days },
+    });
+    const cycleDays = targetPlan?.days || currentPlan?.days || 30;
+    const cyclePrice = targetPlan ? targetPlan.price : Math.round(result.target_day_rate * cycleDays * 100) / 100;
+    const currency = (user.currency || 'USD').toUpperCase();
+    const summary = {
+      customer_id: customer.id,
+      from: { meal_type: customer.meal_type, plan_id: customer.plan_id, meals_per_day: mealsPerDay(customer.meal_type) },
+      to: { meal_type: targetMealType, plan_id: targetPlan?.id ?? null, meals_per_day: mealsPerDay(targetMealType) },
+      currency,
+      new_cycle_price: cyclePrice,
+      ...result,
+    };
+
+    if (action === 'preview') return res.json(summary);
+
+    // Only skips whose meals were counted are consumed by the change.
+    const skipIds = skips.map((s) => s.id);
+
+    if (action === 'adjust_end_date') {
+      const updated = await applyPlanChange(customer.id, {
+        plan: targetPlan,
+        meal_type: targetMealType,
+        cycle_price: cyclePrice,
+        skip_ids: result.unused_meals > 0 ? skipIds : [],
+        extend: { ...result.extend, delivered_days: customer.delivered_days || 0 },
+      });
+      await logActivity({
+        userEmail: user.email,
+        userName: user.full_name,
+        actionType: 'customer_plan_changed',
+        entityType: 'Customer',
+        entityId: customer.id,
+        description: `${customer.full_name}: ${customer.meal_type || 'no plan'} → ${targetMealType}, ${result.extend.days} days remaining`,
+        metadata: { ...result, action },
+        createdBy: user.id,
+      });
+      return res.json({ ...summary, applied: true, customer: updated });
+    }
+
+    // payment_link
+    if (result.difference <= 0) {
+      return res.status(400).json({
+        error: 'The change does not cost more than the unused days are worth. Use adjust_end_date to give the credit as days.',
+        ...summary,
+      });
+    }
+    if (!user.stripe_connect_account_id || !user.payment_account_connected || user.payment_verification_status !== 'verified') {
+      return res.status(400).json({ error: 'Online payments are not set up. Collect the difference another way and use adjust_end_date.' });
+    }
+
+    const amount = result.difference;
+    const platformFee = calculatePlatformFee(amount, user.fee_percentage);
+    const appUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+    const metadata = {
+      payment_type: 'plan_change',
+      customer_id: customer.id,
+      customer_owner_email: user.email,
+      meal_type: targetMealType,
+      plan_id: targetPlan?.id ?? '',
+      cycle_price: String(cyclePrice),
+    };
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      line_items: [{
+        price_data: {
+          currency: currency.toLowerCase(),
+          product_data: { name: `Plan change to ${targetPlan?.name || targetMealType} - ${customer.full_name}` },
+          unit_amount: Math.round(amount * 100),
+        },
+        quantity: 1,
+      }],
+      payment_intent_data: {
+        application_fee_amount: platformFee.feeMinor,
+        metadata: { customer_id: customer.id, merchant_email: user.email },
+      },
+      metadata,
+      success_url: `${appUrl}/portal/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${appUrl}/portal/dashboard`,
+    }, { stripeAccount: user.stripe_connect_account_id });
+
+    await prisma.paymentLink.create({
+      data: {
+        customer_id: customer.id,
+        customer_name: customer.full_name,
+        amount,
+        currency,
+        description: `Plan change: ${customer.meal_type || 'current plan'} → ${targetPlan?.name || targetMealType}`,
+        status: 'pending',
+        stripe_checkout_session_id: session.id,
+        checkout_url: session.url,
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        platform_fee_amount: platformFee.fee,
+        net_amount: platformFee.net,
+        payment_metadata: { ...metadata, skip_ids: result.unused_meals > 0 ? skipIds : [] },
+        created_by: user.id,
+      },
+    });
+
+    res.json({ ...summary, applied: false, checkoutUrl: session.url, amount });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Customer Wallet ─────────────────────────────────────────
+// The balance is the sum of the customer's wallet entries (lib/wallet.ts).
+// Merchants correct it by posting an entry with a reason — never by editing
+// an old one — so the history always adds up to what the customer sees.
+router.get('/wallet/:customerId', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const customer = await prisma.customer.findFirst({
+      where: { id: req.params.customerId as string, created_by: user.id },
+      select: { id: true, full_name: true },
+    });
+    if (!customer) return res.status(404).json({ error: 'Customer not found' });
+
+    const history = await walletHistory(customer.id);
+    res.json({ customer_id: customer.id, customer_name: customer.full_name, ...history });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/wallet-adjustment', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { customerId, meals, amount, reason, type = 'adjustment' } = req.body;
+    if (!customerId) return res.status(400).json({ error: 'customerId is required' });
+    if (!['adjustment', 'refund'].includes(type)) {
+      return res.status(400).json({ error: 'type must be adjustment or refund' });
+    }
+    const mealDelta = Number(meals);
+    if (!Number.isInteger(mealDelta) || mealDelta === 0) {
+      return res.status(400).json({ error: 'meals must be a whole number other than 0' });
+    }
+    // A refund pays the customer out for meals they held, so it can only take
+    // meals off the balance.
+    if (type === 'refund' && mealDelta > 0) {
+      return res.status(400).json({ error: 'A refund removes meals: meals must be negative' });
+    }
+    const money = amount === undefined || amount === null || amount === '' ? null : Number(amount);
+    if (money !== null && (!Number.isFinite(money) || money < 0)) {
+      return res.status(400).json({ error: 'amount must be a positive number' });
+    }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ error: 'A reason is required' });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, created_by: user.id, is_deleted: false },
+      select: { id: true, full_name: true },
+    });
+    if (!customer) return res.status(404).json({ error: 'Customer not found' });
+
+    const balance = await walletBalance(customer.id);
+    if (balance + mealDelta < 0) {
+      return res.status(400).json({ error: `The balance is ${balance} meal(s); it cannot go below zero` });
+    }
+
+    const posted = await postWalletEntry({
+      customer_id: customer.id,
+      created_by: user.id,
+      entry_type: type,
+      meals: mealDelta,
+      amount: money,
+      reason: reason.trim().slice(0, 500),
+      posted_by: user.email,
+    });
+
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: type === 'refund' ? 'wallet_refund' : 'wallet_adjustment',
+      entityType: 'Customer',
+      entityId: customer.id,
+      description: `${mealDelta > 0 ? '+' : ''}${mealDelta} meal(s) for ${customer.full_name}: ${reason.trim()}`,
+      metadata: { wallet_entry_id: posted.entry.id, meals: mealDelta, amount: money, balance: posted.balance },
+      createdBy: user.id,
+    });
+
+    res.json({ success: true, entry: posted.entry, balance: posted.balance });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Kitchen Closures ────────────────────────────────────────
+// Days the whole kitchen is shut (lib/closures.ts). Adding or removing one
+// moves the end date of every active customer at once, so each move is written
+// to the activity log against the customer, and the customers whose end date
+// moved are told once, on every channel they can be reached on. A customer the
+// closure misses — paused through it, or not delivered on those days anyway —
+// has nothing to be told.
+
+type ClosureNotice = { email: number; whatsapp: number; push: number; customers: number };
+
+async function notifyClosure(
+  user: NonNullable<AuthRequest['user']>,
+  closure: { start_date: string; end_date: string; reason: string | null },
+  moved: Awaited<ReturnType<typeof recomputeMerchantCustomers>>,
+  opened: boolean
+): Promise<ClosureNotice> {
+  const business = user.business_name || 'Your tiffin service';
+  const when = describeClosure(closure);
+  const title = opened ? `${business} reopens ${when}` : `${business} is closed ${when}`;
+  const textFor = (endDate: string) => opened
+    ? `Good news: ${business} is no longer closed on ${when}. Deliveries on those days go ahead as usual and your end date has been moved back to ${endDate}.`
+    : `${business} is closed on ${when}${closure.reason ? ` (${closure.reason})` : ''}. There are no deliveries on those days, and your subscription end date has been moved out to ${endDate} so you do not lose any paid days.`;
+
+  const endDates = new Map(
+    moved.filter((m) => m.changed.end_date).map((m) => [m.customer.id, String(m.changed.end_date!.to)])
+  );
+  const customers = endDates.size === 0 ? [] : await prisma.customer.findMany({
+    where: { id: { in: [...endDates.keys()] }, created_by: user.id },
+    select: { id: true, full_name: true, email: true, phone_number: true },
+  });
+  const notice: ClosureNotice = { email: 0, whatsapp: 0, push: 0, customers: customers.length };
+  const withDevice = new Set(
+    (await prisma.deviceToken.findMany({
+      where: { customer_id: { in: customers.map((c) => c.id) }, is_active: true },
+      select: { customer_id: true },
+    })).map((t) => t.customer_id)
+  );
+
+  for (const customer of customers) {
+    const greeting = `Hello ${customer.full_name},`;
+    const text = textFor(endDates.get(customer.id)!);
+    if (customer.email) {
+      try {
+        const sent = await sendEmail({ to: customer.email, subject: title, body: `<p>${greeting}</p><p>${text}</p>` });
+        if (sent?.success) notice.email++;
+      } catch (e: any) { console.error('[Closures] Email failed:', e.message); }
+    }
+    if (customer.phone_number) {
+      try {
+        const sent = await sendMerchantWhatsApp(user.id, { to: customer.phone_number, message: `${greeting}\n\n${text}` });
+        if (sent?.success) notice.whatsapp++;
+      } catch (e: any) { console.error('[Closures] WhatsApp failed:', e.message); }
+    }
+    if (withDevice.has(customer.id)) {
+      try {
+        await sendPushToCustomer(customer.id, title, text, { type: 'kitchen_closure' });
+        notice.push++;
+      } catch (e: any) { console.error('[Closures] Push failed:', e.message); }
+    }
+  }
+  return notice;
+}
+
+/** One activity row per customer whose end date moved. */
+async function logClosureShifts(
+  user: NonNullable<AuthRequest['user']>,
+  closure: { id: string; start_date: string; end_date: string },
+  moved: Awaited<ReturnType<typeof recomputeMerchantCustomers>>,
+  opened: boolean
+) {
+  for (const { customer, changed } of moved) {
+    if (!changed.end_date) continue;
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: opened ? 'closure_removed_end_date_moved' : 'closure_end_date_moved',
+      entityType: 'Customer',
+      entityId: customer.id,
+      description: `${customer.full_name}: end date ${changed.end_date.from ?? 'unset'} → ${changed.end_date.to} (kitchen ${opened ? 'reopened' : 'closed'} ${describeClosure(closure)})`,
+      metadata: { closure_id: closure.id, end_date: changed.end_date, days_remaining: changed.days_remaining ?? null },
+      createdBy: user.id,
+    });
+  }
+}
+
+router.get('/kitchen-closures', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const closures = await loadClosures(user.id, todayInTimezone(user.timezone));
+    res.json({ closures });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/kitchen-closures', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const checked = await validateClosure(req.body, user.id, todayInTimezone(user.timezone));
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+
+    const closure = await prisma.kitchenClosure.create({ data: { ...checked.closure, created_by: user.id } });
+    const moved = await recomputeMerchantCustomers(user.id, user.timezone);
+    await logClosureShifts(user, closure, moved, false);
+
+    let notice: ClosureNotice | null = null;
+    if (req.body.notify !== false) {
+      notice = await notifyClosure(user, closure, moved, false);
+      await prisma.kitchenClosure.update({
+        where: { id: closure.id },
+        data: { notified_at: new Date(), notify_summary: notice },
+      });
+    }
+
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'kitchen_closure_added',
+      entityType: 'KitchenClosure',
+      entityId: closure.id,
+      description: `Kitchen closed ${describeClosure(closure)}${closure.reason ? ` (${closure.reason})` : ''}; ${moved.length} customer(s) moved`,
+      metadata: { start_date: closure.start_date, end_date: closure.end_date, customers_moved: moved.length, notice },
+      createdBy: user.id,
+    });
+
+    res.json({ success: true, closure, customersMoved: moved.length, notified: notice });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// Only a closure that has not started can be removed: days already past were
+// not delivered, and reopening them would take paid days back for food nobody
+// cooked.
+router.delete('/kitchen-closures/:closureId', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const closure = await prisma.kitchenClosure.findFirst({
+      where: { id: req.params.closureId as string, created_by: user.id },
+    });
+    if (!closure) return res.status(404).json({ error: 'Closure not found' });
+    if (closure.start_date <= todayInTimezone(user.timezone)) {
+      return res.status(400).json({ error: 'This closure has already started and cannot be removed' });
+    }
+
+    await prisma.kitchenClosure.delete({ where: { id: closure.id } });
+    const moved = await recomputeMerchantCustomers(user.id, user.timezone);
+    await logClosureShifts(user, closure, moved, true);
+    // Customers were told about the closure, so they are told it is off.
+    const notice = closure.notified_at && req.body?.notify !== false ? await notifyClosure(user, closure, moved, true) : null;
+
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'kitchen_closure_removed',
+      entityType: 'KitchenClosure',
+      entityId: closure.id,
+      description: `Kitchen closure ${describeClosure(closure)} removed; ${moved.length} customer(s) moved`,
+      metadata: { start_date: closure.start_date, end_date: closure.end_date, customers_moved: moved.length, notice },
+      createdBy: user.id,
+    });
+
+    res.json({ success: true, customersMoved: moved.length, notified: notice });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Initialize New User ──────────────────────────────────────
+router.post('/initialize-new-user', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    if (user.subscription_status) {
+      return res.json({ message: 'User already initialized', status: user.subscription_status });
     }
 
     const trialEndsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
@@ -1870,7 +2654,12 @@ export async function runTrialExpiryCheck() {
               application_fee_amount: platformFee.feeMinor,
               metadata: { customer_id: customer.id, merchant_email: user.email },
             },
-            metadata: { customer_id: customer.id, customer_owner_email: user.email, amount: amount.toString() },
+            metadata: {
+              customer_id: customer.id,
+              customer_owner_email: user.email,
+              amount: amount.toString(),
+              payment_type: 'trial_conversion',
+            },
             success_url: `${appUrl}/PaymentSuccess?session_id={CHECKOUT_SESSION_ID}`,
             cancel_url: `${appUrl}/PaymentCancelled?session_id={CHECKOUT_SESSION_ID}`,
           }, { stripeAccount: user.stripe_connect_account_id });
@@ -1895,6 +2684,7 @@ export async function runTrialExpiryCheck() {
           payment_status: 'Pending',
         },
       });
+      await expireTrial(customer.id);
 
       // Email the merchant about this trial expiry
       if (user.email) {
@@ -2025,9 +2815,6 @@ router.post('/mark-round', async (req: AuthRequest, res) => {
       return res.status(400).json({ error: "action must be 'delivered', 'undo' or 'missed'" });
     }
 
-    const column = meal === 'Lunch' ? 'lunch_delivered_at' : 'dinner_delivered_at';
-    const stamp = action === 'delivered' ? new Date() : null;
-
     // Tenant isolation: created_by comes from the token, never the body.
     const scoped = await prisma.order.findMany({
       where: { id: { in: orderIds }, created_by: user.id },
@@ -2036,40 +2823,14 @@ router.post('/mark-round', async (req: AuthRequest, res) => {
     const ids = scoped.map((o) => o.id);
     if (ids.length === 0) return res.json({ success: true, updated: 0 });
 
-    await prisma.order.updateMany({
-      where: { id: { in: ids } },
-      data: {
-        [column]: stamp,
-        ...(driverName && action === 'delivered' ? { delivered_by: driverName } : {}),
-        delivery_note: action === 'missed' ? note || 'Not delivered' : null,
-      } as any,
-    });
-
-    // Derive delivery_status from the per-run stamps. A row is Delivered only
-    // once every run its meal_type requires has been stamped.
-    if (action === 'missed') {
-      await prisma.order.updateMany({
-        where: { id: { in: ids } },
-        data: { delivery_status: 'Missed' },
-      });
-    } else {
-      // $executeRaw (tagged template), not $executeRawUnsafe: the ids are
-      // server-derived from a tenant-scoped query above, but the tagged form
-      // parameterises by construction and removes any chance of a future edit
-      // concatenating user input into this string.
-      await prisma.$executeRaw`
-        UPDATE "Order" SET "delivery_status" = CASE
-           WHEN (("meal_type" ILIKE '%lunch%') IS NOT TRUE OR "lunch_delivered_at" IS NOT NULL)
-            AND (("meal_type" ILIKE '%dinner%') IS NOT TRUE OR "dinner_delivered_at" IS NOT NULL)
-             THEN 'Delivered'
-           WHEN "lunch_delivered_at" IS NOT NULL OR "dinner_delivered_at" IS NOT NULL
-             THEN 'Out for Delivery'
-           ELSE 'Pending'
-         END
-         WHERE "id" = ANY(${ids}::text[])`;
-    }
+    // Stamping and clearing go through lib/orderRuns, which also moves the
+    // customers' day counters — exactly once, however many times the round is
+    // marked and whether the driver app got there first.
+    const result = action === 'delivered'
+      ? await markRunsDelivered(ids, meal, driverName)
+      : await clearRuns(ids, meal, action === 'missed' ? { note: note || 'Not delivered', missed: true } : {});
 
-    res.json({ success: true, updated: ids.length, meal, action });
+    res.json({ success: true, updated: ids.length, meal, action, ...result });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -2091,18 +2852,19 @@ router.post('/approve-customer', async (req: AuthRequest, res) => {
       status: 'active',
     };
 
-    // If trial, set start/end dates now
+    // If trial, start the three days now; the end date is where the third
+    // service day lands (lib/subscriptionDays.ts).
     if (customer.is_trial) {
       updateData.start_date = new Date();
-      updateData.end_date = addDays(new Date(), 3);
       updateData.trial_end_date = addDays(new Date(), 3);
       updateData.paid_days = 3;
-      updateData.days_remaining = 3;
       updateData.delivered_days = 0;
       updateData.meals_delivered = 0;
     }
 
     await prisma.customer.update({ where: { id: customerId }, data: updateData });
+    const days = await recomputeCustomerDays(customerId, { timezone: user.timezone });
+    if (customer.is_trial && days) await startTrial(days.customer, todayInTimezone(user.timezone));
 
     // Auto-generate Stripe payment link if merchant has Connect and customer has payment_amount
     let checkoutUrl: string | null = null;
@@ -2296,6 +3058,9 @@ router.post('/reconcile-subscription', async (req: AuthRequest, res) => {
 });
 
 // ─── Auto Deduct Inventory on Delivery ────────────────────────
+// One serving of each recipe the order's meals were cooked from. A recipe a
+// batch or the daily deduction has already covered for the day is left alone:
+// those counted this order's serving.
 router.post('/auto-deduct-on-delivery', async (req: AuthRequest, res) => {
   try {
     const user = req.user!;
@@ -2308,56 +3073,27 @@ router.post('/auto-deduct-on-delivery', async (req: AuthRequest, res) => {
     });
     if (!order) return res.json({ success: true, skipped: true, reason: 'Order not found' });
 
-    const mealType = order.meal_type;
-    if (!mealType) return res.json({ success: true, skipped: true, reason: 'No meal_type on order' });
+    const meals = planMeals(order.meal_type);
+    if (meals.length === 0) return res.json({ success: true, skipped: true, reason: 'No meal_type on order' });
 
-    const recipe = await prisma.recipe.findFirst({
-      where: { meal_type: mealType, is_active: true, created_by: user.id },
-    });
-    if (!recipe) return res.json({ success: true, skipped: true, reason: `No active recipe for ${mealType}` });
-
-    const ingredients = (recipe.ingredients as any[]) || [];
-    const servings = recipe.servings || 1;
+    const date = order.order_date || todayInTimezone(user.timezone);
     const deductions: any[] = [];
-    let totalCost = 0;
-
-    for (const ing of ingredients) {
-      const current = await prisma.ingredient.findFirst({
-        where: { id: ing.ingredient_id, created_by: user.id },
-      });
-      if (current) {
-        const deductQty = ing.quantity / servings;
-        const newStock = Math.max(0, (current.current_stock || 0) - deductQty);
-        const cost = deductQty * (current.cost_per_unit || 0);
-        totalCost += cost;
-
-        await prisma.ingredient.update({
-          where: { id: current.id },
-          data: {
-            current_stock: newStock,
-            total_value: newStock * (current.cost_per_unit || 0),
-            is_critical: newStock <= (current.min_stock_threshold || 0),
-          },
-        });
-
-        deductions.push({ ingredient: ing.ingredient_name, deducted: deductQty, unit: ing.unit, remaining: newStock });
+    const unitErrors: string[] = [];
+    let recipesFound = 0;
+    for (const meal of meals) {
+      const { recipes } = await recipesForMeal(user.id, date, meal);
+      recipesFound += recipes.length;
+      for (const recipe of recipes) {
+        const { total, bySource } = await servingsDeducted(user.id, date, recipe.id, meal);
+        if (total > (bySource.delivery || 0)) continue;
+        const result = await deductRecipe({ merchantId: user.id, recipe, servings: 1, date, mealType: meal, source: 'delivery' });
+        if (result.ok) deductions.push(...result.deductions);
+        else unitErrors.push(result.error);
       }
     }
+    if (recipesFound === 0) return res.json({ success: true, skipped: true, reason: `No active recipe for ${order.meal_type}` });
 
-    await prisma.consumptionLog.create({
-      data: {
-        date: new Date().toISOString().split('T')[0],
-        recipe_id: recipe.id,
-        recipe_name: recipe.name,
-        meal_type: recipe.meal_type,
-        quantity_prepared: 1,
-        ingredients_used: recipe.ingredients || undefined,
-        total_cost: totalCost,
-        cost_per_meal: totalCost,
-      },
-    });
-
-    res.json({ success: true, deductions });
+    res.json({ success: true, deductions, unit_errors: unitErrors });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -2375,21 +3111,709 @@ router.post('/share-driver-access', async (req: AuthRequest, res) => {
     if (!driver) return res.status(404).json({ error: 'Driver not found' });
     if (!driver.phone) return res.status(400).json({ error: 'Driver has no phone number' });
     if (!driver.access_code) return res.status(400).json({ error: 'Driver has no access code. Please generate one first.' });
+    // Sending a dead code only produces a confused phone call from the driver.
+    if (isAccessCodeExpired(driver)) {
+      return res.status(400).json({ error: 'This access code has expired. Rotate it to issue a new one.' });
+    }
 
     const appLink = 'tiffinhub://driver/login';
+    const expiry = driver.access_code_expires_at
+      ? `\n\nThis code is valid until ${format(driver.access_code_expires_at, 'd MMM yyyy')}.`
+      : '';
 
     let whatsappSent = false;
     try {
       await sendMerchantWhatsApp(user.id, {
         to: driver.phone,
-        message: `Hello ${driver.name}!\n\nYour driver access code is: ${driver.access_code}\n\nOpen the TiffinHub app and enter this code to view your deliveries.\n\n${appLink}`,
+        message: `Hello ${driver.name}!\n\nYour driver access code is: ${driver.access_code}${expiry}\n\nOpen the TiffinHub app and enter this code to view your deliveries.\n\n${appLink}`,
       });
       whatsappSent = true;
     } catch (e: any) {
       console.error('[Functions] Driver access WhatsApp send failed:', e.message);
     }
 
-    res.json({ success: true, whatsappSent });
+    res.json({ success: true, whatsappSent, expires_at: driver.access_code_expires_at });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Rotate Driver Code ──────────────────────────────────────
+// Issues a new access code and signs the driver out everywhere. Optional
+// expires_at (ISO date) or expires_in_days sets an expiry on the new code;
+// null clears it; omitted keeps the current expiry setting. Share the new code
+// with /share-driver-access.
+router.post('/rotate-driver-code', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { driverId } = req.body;
+    if (!driverId) return res.status(400).json({ error: 'driverId is required' });
+
+    const driver = await prisma.driver.findFirst({ where: { id: driverId, created_by: user.id } });
+    if (!driver) return res.status(404).json({ error: 'Driver not found' });
+
+    const expiresAt = parseCodeExpiry(req.body);
+    if (typeof expiresAt === 'string') return res.status(400).json({ error: expiresAt });
+
+    const updated = await rotateAccessCode(driver.id, expiresAt);
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'driver_code_rotated',
+      entityType: 'Driver',
+      entityId: driver.id,
+      description: `Rotated the access code for ${driver.name}`,
+      metadata: { expires_at: updated.access_code_expires_at },
+      createdBy: user.id,
+    });
+
+    res.json({
+      success: true,
+      access_code: updated.access_code,
+      access_code_expires_at: updated.access_code_expires_at,
+      access_code_rotated_at: updated.access_code_rotated_at,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Revoke Driver Code ──────────────────────────────────────
+// Removes the code and signs the driver out. The driver record, its batches
+// and history are untouched; /rotate-driver-code issues a fresh code later.
+router.post('/revoke-driver-code', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { driverId } = req.body;
+    if (!driverId) return res.status(400).json({ error: 'driverId is required' });
+
+    const driver = await prisma.driver.findFirst({ where: { id: driverId, created_by: user.id } });
+    if (!driver) return res.status(404).json({ error: 'Driver not found' });
+
+    await revokeAccessCode(driver.id);
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'driver_code_revoked',
+      entityType: 'Driver',
+      entityId: driver.id,
+      description: `Revoked the access code for ${driver.name}`,
+      createdBy: user.id,
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Optimize Route ──────────────────────────────────────────
+// Plans the stop order for one delivery batch from its kitchen. Safe to re-run:
+// items added since the last plan are slotted in, and nothing but the sequence,
+// leg distances and geocoded stop coordinates is written.
+router.post('/optimize-route', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { batchId } = req.body;
+    if (!batchId) return res.status(400).json({ error: 'batchId is required' });
+
+    const result = await sequenceBatch(batchId, user.id);
+    if (!result) return res.status(404).json({ error: 'Batch not found' });
+
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Build Delivery Batches ──────────────────────────────────
+// Turns one day's orders for one meal into driver runs, instead of the merchant
+// creating every batch and item by hand through the entities router. Customers
+// who should not get food that day are left out with the same rules the rest
+// of the app uses: an active skip or skip rule covering the meal, a pause,
+// weekend-skip.
+//
+// Re-running for the same date and meal is safe: an order that already has a
+// stop in a batch for that day and meal is not batched again, so a late order
+// can be added by running the builder a second time.
+router.post('/build-delivery-batches', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { date, meal, groupBy = 'area', capacity, driverIds, optimize } = req.body as {
+      date?: string;
+      meal?: string;
+      groupBy?: string;
+      capacity?: number | string;
+      driverIds?: string[];
+      optimize?: boolean;
+    };
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    }
+    if (meal !== 'Lunch' && meal !== 'Dinner') {
+      return res.status(400).json({ error: "meal must be 'Lunch' or 'Dinner'" });
+    }
+    if (groupBy !== 'area' && groupBy !== 'capacity') {
+      return res.status(400).json({ error: "groupBy must be 'area' or 'capacity'" });
+    }
+    const perRun = capacity != null && capacity !== '' ? Math.floor(Number(capacity)) : null;
+    if (perRun != null && (!Number.isFinite(perRun) || perRun < 1)) {
+      return res.status(400).json({ error: 'capacity must be a positive number' });
+    }
+    if (groupBy === 'capacity' && perRun == null) {
+      return res.status(400).json({ error: 'capacity is required when grouping by capacity' });
+    }
+
+    const closure = await closureOn(user.id, date);
+    if (closure) {
+      return res.status(400).json({ error: `The kitchen is closed on ${date}${closure.reason ? ` (${closure.reason})` : ''}` });
+    }
+
+    // Drivers are assigned to runs in the order given; extra runs stay unassigned.
+    const drivers = Array.isArray(driverIds) && driverIds.length > 0
+      ? await prisma.driver.findMany({ where: { id: { in: driverIds }, created_by: user.id, is_active: true } })
+      : [];
+    const driverQueue = (driverIds || [])
+      .map((id) => drivers.find((d) => d.id === id))
+      .filter((d): d is NonNullable<typeof d> => !!d);
+
+    const orders = await prisma.order.findMany({
+      where: {
+        created_by: user.id,
+        order_date: date,
+        meal_type: { contains: meal, mode: 'insensitive' },
+        NOT: { status: 'cancelled' },
+      },
+      include: { customerRef: true },
+    });
+
+    const sameDayBatches = await prisma.deliveryBatch.findMany({
+      where: { created_by: user.id, delivery_date: date, OR: [{ meal_type: meal }, { meal_type: null }] },
+      select: { id: true },
+    });
+    const [skips, rules, alreadyBatched] = await Promise.all([
+      prisma.tiffinSkip.findMany({
+        where: { created_by: user.id, skip_date: date, status: 'active' },
+        select: { customer_id: true, meal_type: true },
+      }),
+      loadSkipRules({ created_by: user.id }, date),
+      prisma.deliveryItem.findMany({
+        where: { created_by: user.id, batch_id: { in: sameDayBatches.map((b) => b.id) } },
+        select: { order_id: true, customer_id: true, meal_type: true },
+      }),
+    ]);
+
+    const skippedIds = new Set([
+      ...skips.filter((s) => skipCoversMeal(s.meal_type, meal)).map((s) => s.customer_id),
+      ...rules.filter((r) => rulesSkipMeals([r], date, meal)).map((r) => r.customer_id),
+    ]);
+    const batchedOrderIds = new Set(alreadyBatched.map((i) => i.order_id).filter(Boolean));
+    // Hand-made items carry no order_id; count them as this meal's stop when
+    // their meal names it (or names nothing, for a single-meal customer).
+    const batchedCustomerIds = new Set(
+      alreadyBatched
+        .filter((i) => !i.order_id && (!i.meal_type || i.meal_type.toLowerCase().includes(meal.toLowerCase())))
+        .map((i) => i.customer_id)
+    );
+
+    const excluded = { inactive: 0, skipped: 0, paused: 0, weekend: 0, already_batched: 0 };
+    const eligible: typeof orders = [];
+    for (const order of orders) {
+      const c = order.customerRef;
+      if (c.is_deleted || !c.active) { excluded.inactive++; continue; }
+      if (batchedOrderIds.has(order.id) || batchedCustomerIds.has(c.id)) { excluded.already_batched++; continue; }
+      if (skippedIds.has(c.id)) { excluded.skipped++; continue; }
+      if (isPausedOn(c, date)) { excluded.paused++; continue; }
+      if (isWeekendSkipped(c, date)) { excluded.weekend++; continue; }
+      eligible.push(order);
+    }
+
+    // Area first, then name, so a capacity split still keeps neighbours together
+    // and a run's stops do not depend on the order the merchant added them.
+    eligible.sort((a, b) =>
+      (a.customerRef.area || '').localeCompare(b.customerRef.area || '') ||
+      a.customerRef.full_name.localeCompare(b.customerRef.full_name)
+    );
+
+    const chunk = <T,>(rows: T[], size: number | null): T[][] => {
+      if (!size) return [rows];
+      const out: T[][] = [];
+      for (let i = 0; i < rows.length; i += size) out.push(rows.slice(i, i + size));
+      return out;
+    };
+
+    const runs: { area: string | null; orders: typeof eligible }[] = [];
+    if (groupBy === 'area') {
+      const byArea = new Map<string, typeof eligible>();
+      for (const order of eligible) {
+        const area = order.customerRef.area?.trim() || '';
+        if (!byArea.has(area)) byArea.set(area, []);
+        byArea.get(area)!.push(order);
+      }
+      for (const [area, rows] of byArea) {
+        for (const part of chunk(rows, perRun)) runs.push({ area: area || null, orders: part });
+      }
+    } else {
+      for (const part of chunk(eligible, perRun)) runs.push({ area: null, orders: part });
+    }
+
+    const created: any[] = [];
+    for (let i = 0; i < runs.length; i++) {
+      const run = runs[i];
+      const driver = driverQueue[i] ?? null;
+      const label = run.area || `Run ${i + 1}`;
+      const batch = await prisma.$transaction(async (tx) => {
+        const b = await tx.deliveryBatch.create({
+          data: {
+            name: `${meal} · ${label}`,
+            area: run.area,
+            driver_id: driver?.id ?? null,
+            driver_name: driver?.name ?? null,
+            delivery_date: date,
+            meal_type: meal,
+            status: 'pending',
+            total_orders: run.orders.length,
+            delivered_count: 0,
+            created_by: user.id,
+          },
+        });
+        await tx.deliveryItem.createMany({
+          data: run.orders.map((order) => ({
+            batch_id: b.id,
+            customer_id: order.customer_id,
+            order_id: order.id,
+            meal_type: meal,
+            status: 'pending',
+            created_by: user.id,
+            ...snapshotCustomerForItem(order.customerRef, meal),
+          })),
+        });
+        return b;
+      });
+      created.push({
+        id: batch.id,
+        name: batch.name,
+        area: batch.area,
+        driver_id: batch.driver_id,
+        driver_name: batch.driver_name,
+        total_orders: batch.total_orders,
+      });
+    }
+
+    // Opt-in: planning geocodes every new address, which on the free geocoder
+    // is a second per address the first time a customer is routed.
+    if (optimize) {
+      const budget = lookupBudget();
+      for (const batch of created) {
+        try {
+          const plan = await sequenceBatch(batch.id, user.id, budget);
+          batch.route_distance_m = plan?.route_distance_m ?? null;
+          batch.unlocated = plan?.unlocated ?? [];
+        } catch (err: any) {
+          console.error('[BuildBatches] Route planning failed for', batch.id, err?.message);
+        }
+      }
+    }
+
+    res.json({
+      success: true,
+      date,
+      meal,
+      batches: created,
+      batched: eligible.length,
+      excluded,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Delivery Proof ──────────────────────────────────────────
+// Everything we hold that says a stop happened: photo, where the driver was,
+// when, and who. For answering a dispute, so it reports an expired photo as
+// expired rather than leaving the merchant to wonder whether one was taken.
+router.get('/delivery-proof/:itemId', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const item = await prisma.deliveryItem.findFirst({
+      where: { id: req.params.itemId as string, created_by: user.id },
+    });
+    if (!item) return res.status(404).json({ error: 'Delivery not found' });
+
+    const [batch, merchant] = await Promise.all([
+      prisma.deliveryBatch.findFirst({ where: { id: item.batch_id, created_by: user.id } }),
+      prisma.user.findUnique({
+        where: { id: user.id },
+        select: { pod_retention_days: true, pod_dispute_retention_days: true },
+      }),
+    ]);
+    // The batch row carries a driver_name snapshot; fall back to the driver
+    // record for batches assigned before that was filled in.
+    let driverName = batch?.driver_name || null;
+    if (!driverName && batch?.driver_id) {
+      const driver = await prisma.driver.findFirst({
+        where: { id: batch.driver_id, created_by: user.id },
+        select: { name: true },
+      });
+      driverName = driver?.name || null;
+    }
+
+    res.json({
+      item_id: item.id,
+      customer_id: item.customer_id,
+      customer_name: item.customer_name,
+      customer_address: item.customer_address,
+      status: item.status,
+      arrived_at: item.arrived_at,
+      delivered_at: item.delivered_at,
+      failed_at: item.failed_at,
+      failure_reason: item.failure_reason,
+      failure_label: item.failure_reason ? FAILURE_REASONS[item.failure_reason] || item.failure_reason : null,
+      notes: item.notes,
+      photo_url: item.delivery_photo || null,
+      photo_purged_at: item.photo_purged_at,
+      gps: item.delivery_latitude != null && item.delivery_longitude != null
+        ? { latitude: item.delivery_latitude, longitude: item.delivery_longitude }
+        : null,
+      driver_id: batch?.driver_id || null,
+      driver_name: driverName,
+      batch_id: item.batch_id,
+      delivery_date: batch?.delivery_date || null,
+      disputed_at: item.disputed_at,
+      dispute_note: item.dispute_note,
+      retained_until: item.delivery_photo ? proofRetentionUntil(item, merchant ?? {}) : null,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Flag Delivery Dispute ───────────────────────────────────
+// Marks a stop as disputed so its proof is kept for the longer window. Send
+// { resolved: true } to clear the flag, which puts the photo back on the
+// normal window — if that has already passed, the next nightly run removes it.
+router.post('/flag-delivery-dispute', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { itemId, note, resolved } = req.body;
+    if (!itemId) return res.status(400).json({ error: 'itemId is required' });
+
+    const item = await prisma.deliveryItem.findFirst({ where: { id: itemId, created_by: user.id } });
+    if (!item) return res.status(404).json({ error: 'Delivery not found' });
+
+    const updated = await prisma.deliveryItem.update({
+      where: { id: item.id },
+      data: resolved
+        ? { disputed_at: null, dispute_note: note ?? item.dispute_note }
+        : { disputed_at: new Date(), dispute_note: note ?? null },
+    });
+
+    // A stop can still be flagged after its photo aged out — the record of the
+    // dispute is worth having — but the caller is told the photo is gone.
+    res.json({ success: true, item: updated, photo_available: !!updated.delivery_photo });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Batch Track ─────────────────────────────────────────────
+// Where the driver actually went on a run, for replaying it on a map next to
+// the stops: the planned point (latitude/longitude) and where the driver was
+// when the stop closed (delivery_latitude/longitude), which is what to look
+// at when a customer says nobody came.
+router.get('/batch-track/:batchId', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const batch = await prisma.deliveryBatch.findFirst({
+      where: { id: req.params.batchId as string, created_by: user.id },
+    });
+    if (!batch) return res.status(404).json({ error: 'Batch not found' });
+
+    const items = await prisma.deliveryItem.findMany({
+      where: { batch_id: batch.id, created_by: user.id },
+      orderBy: [{ stop_sequence: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }],
+    });
+    const stopTimes = items
+      .map((i) => i.delivered_at || i.failed_at)
+      .filter((d): d is Date => !!d);
+
+    const track = await loadBatchTrack(batch, stopTimes);
+
+    res.json({
+      batch_id: batch.id,
+      driver_id: batch.driver_id,
+      driver_name: batch.driver_name,
+      delivery_date: batch.delivery_date,
+      planned_distance_m: batch.route_distance_m,
+      ...track,
+      stops: items.map((i) => ({
+        item_id: i.id,
+        customer_name: i.customer_name,
+        stop_sequence: i.stop_sequence,
+        status: i.status,
+        planned: i.latitude != null && i.longitude != null
+          ? { latitude: i.latitude, longitude: i.longitude }
+          : null,
+        actual: i.delivery_latitude != null && i.delivery_longitude != null
+          ? { latitude: i.delivery_latitude, longitude: i.delivery_longitude }
+          : null,
+        arrived_at: i.arrived_at,
+        delivered_at: i.delivered_at,
+        // Minutes between reaching the door and tapping delivered. Large
+        // values are the end-of-run tapping that makes delivered_at unreliable.
+        tap_delay_minutes: i.arrived_at && i.delivered_at
+          ? Math.round((i.delivered_at.getTime() - i.arrived_at.getTime()) / 60000)
+          : null,
+        failed_at: i.failed_at,
+        failure_reason: i.failure_reason,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Driver Performance Report ───────────────────────────────
+// Per-driver runs, drops, punctuality, distance and payout for a date range
+// ("YYYY-MM-DD", inclusive, up to 92 days). Windows and rates come from the
+// merchant's settings (PUT /api/auth/me). format: 'csv' returns a download.
+router.post('/driver-performance-report', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const { from, to, format: outputFormat } = req.body;
+    const isDate = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+    if (!isDate(from) || !isDate(to)) {
+      return res.status(400).json({ error: 'from and to are required as YYYY-MM-DD' });
+    }
+    if (from > to) return res.status(400).json({ error: 'from must not be after to' });
+    const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+    if (days > 92) return res.status(400).json({ error: 'Date range is limited to 92 days' });
+
+    const report = await buildDriverReport(user.id, from, to);
+
+    if (outputFormat === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="driver-report-${from}-to-${to}.csv"`);
+      return res.send(driverReportCsv(report));
+    }
+    res.json(report);
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Trial Funnel ────────────────────────────────────────────
+// Customer trials started in a date range ("YYYY-MM-DD", inclusive, up to 366
+// days; the last 90 by default), by registration_source: started, converted,
+// expired, time to convert and why the rest left (lib/trials.ts).
+router.get('/trial-funnel', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const today = todayInTimezone(user.timezone);
+    const from = (req.query.from as string) || addDaysToDateStr(today, -89);
+    const to = (req.query.to as string) || today;
+    const isDate = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+    if (!isDate(from) || !isDate(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+    if (from > to) return res.status(400).json({ error: 'from must not be after to' });
+    const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+    if (days > 366) return res.status(400).json({ error: 'Date range is limited to 366 days' });
+
+    res.json(await trialFunnel(user.id, from, to));
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// Record or correct why a trial did not convert — what the customer said on
+// the phone, say, when they never answered the offer.
+router.post('/trials/:trialId/drop-off', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const trial = await prisma.customerTrial.findFirst({
+      where: { id: req.params.trialId as string, created_by: user.id },
+    });
+    if (!trial) return res.status(404).json({ error: 'Trial not found' });
+    if (trial.status === 'converted') {
+      return res.status(400).json({ error: 'This trial converted; there is no drop-off to record' });
+    }
+
+    const checked = validateDropOff(req.body);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    const updated = await recordDropOff(trial, checked.reason, checked.note);
+
+    res.json({ success: true, trial: updated });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Churn Risk ──────────────────────────────────────────────
+// Active customers scored nightly from skips, pauses, payments, failed
+// deliveries and portal use (lib/churnRisk.ts). The list is medium and high
+// risk by default, riskiest first, each with the reasons behind the score.
+router.get('/churn-risk', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const level = (req.query.level as string) || 'at_risk';
+    if (level !== 'at_risk' && !isRiskLevel(level)) {
+      return res.status(400).json({ error: `level must be at_risk or one of: ${RISK_LEVELS.join(', ')}` });
+    }
+
+    const [scores, counts] = await Promise.all([
+      prisma.churnRiskScore.findMany({
+        where: { created_by: user.id, level: level === 'at_risk' ? { in: ['medium', 'high'] } : level },
+        orderBy: { score: 'desc' },
+        take: 500,
+      }),
+      prisma.churnRiskScore.groupBy({ by: ['level'], where: { created_by: user.id }, _count: true }),
+    ]);
+    const customers = new Map(
+      (await prisma.customer.findMany({
+        where: { id: { in: scores.map((s) => s.customer_id) }, created_by: user.id },
+        select: { id: true, full_name: true, phone_number: true, end_date: true, days_remaining: true },
+      })).map((c) => [c.id, c])
+    );
+
+    res.json({
+      scored_on: scores[0]?.scored_on ?? null,
+      counts: Object.fromEntries(RISK_LEVELS.map((l) => [l, counts.find((c) => c.level === l)?._count ?? 0])),
+      customers: scores
+        .filter((s) => customers.has(s.customer_id))
+        .map((s) => ({
+          ...customers.get(s.customer_id),
+          customer_id: s.customer_id,
+          score: s.score,
+          level: s.level,
+          reasons: s.reasons,
+        })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// Score now rather than waiting for the night, e.g. after a bad delivery day.
+router.post('/churn-risk/rescore', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    res.json({ success: true, ...(await scoreMerchantCustomers(user.id, user.timezone)) });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// ─── Win-back Campaigns ──────────────────────────────────────
+// One templated message to lapsed customers, and who renewed within the
+// attribution window afterwards (lib/winBack.ts).
+
+router.get('/win-back-campaigns', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    await recordWinBackRenewals(user.id);
+    const campaigns = await prisma.winBackCampaign.findMany({
+      where: { created_by: user.id },
+      orderBy: { created_at: 'desc' },
+      take: 100,
+    });
+    const results = await campaignResults(campaigns.map((c) => c.id));
+
+    res.json({
+      templates: Object.entries(WIN_BACK_TEMPLATES).map(([key, t]) => ({ key, ...t })),
+      campaigns: campaigns.map((c) => ({ ...c, ...results(c) })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// Who a campaign would reach, before sending it.
+router.get('/win-back-campaigns/audience', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const checked = validateCampaign({ template: 'we_miss_you', lapsed_within_days: req.query.lapsed_within_days });
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+
+    const audience = await lapsedAudience(user.id, checked.campaign.lapsed_within_days, null);
+    res.json({
+      lapsed_within_days: checked.campaign.lapsed_within_days,
+      count: audience.customers.length,
+      in_cooldown: audience.in_cooldown,
+      max_recipients: MAX_WIN_BACK_RECIPIENTS,
+      customers: audience.customers,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.post('/win-back-campaigns', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const checked = validateCampaign(req.body);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    const input = checked.campaign;
+
+    const audience = await lapsedAudience(user.id, input.lapsed_within_days, input.customer_ids);
+    if (audience.customers.length === 0) {
+      return res.status(400).json({
+        error: audience.in_cooldown > 0
+          ? `Every lapsed customer in that window was messaged in the last ${WIN_BACK_COOLDOWN_DAYS} days`
+          : 'No lapsed customers in that window',
+      });
+    }
+    if (audience.customers.length > MAX_WIN_BACK_RECIPIENTS) {
+      return res.status(400).json({
+        error: `That reaches ${audience.customers.length} customers; a campaign can reach at most ${MAX_WIN_BACK_RECIPIENTS}. Narrow the window or pick customers.`,
+      });
+    }
+
+    const campaign = await prisma.winBackCampaign.create({
+      data: {
+        name: input.name,
+        template: input.template,
+        message: input.message,
+        channel: input.channel,
+        lapsed_within_days: input.lapsed_within_days,
+        created_by: user.id,
+      },
+    });
+    const sent = await sendCampaign(campaign, user, audience.customers);
+
+    await logActivity({
+      userEmail: user.email,
+      userName: user.full_name,
+      actionType: 'win_back_campaign_sent',
+      entityType: 'WinBackCampaign',
+      entityId: campaign.id,
+      description: `Win-back "${campaign.name}" sent to ${sent.sent} of ${sent.recipients} lapsed customers`,
+      metadata: { channel: campaign.channel, lapsed_within_days: campaign.lapsed_within_days, failed: sent.failed },
+      createdBy: user.id,
+    });
+
+    res.json({ success: true, campaign: sent, in_cooldown: audience.in_cooldown });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+router.get('/win-back-campaigns/:campaignId', async (req: AuthRequest, res) => {
+  try {
+    const user = req.user!;
+    const campaign = await prisma.winBackCampaign.findFirst({
+      where: { id: req.params.campaignId as string, created_by: user.id },
+    });
+    if (!campaign) return res.status(404).json({ error: 'Campaign not found' });
+
+    await recordWinBackRenewals(user.id);
+    const [results, recipients] = await Promise.all([
+      campaignResults([campaign.id]),
+      prisma.winBackRecipient.findMany({ where: { campaign_id: campaign.id }, orderBy: { customer_name: 'asc' } }),
+    ]);
+
+    res.json({ campaign: { ...campaign, ...results(campaign) }, recipients });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -2431,67 +3855,4 @@ router.post('/upload-menu-image', menuImageUpload.single('image'), async (req: A
   }
 });
 
-// ─── Auto-Resume Paused Customers (cron) ─────────────────────────
-export async function runAutoResumePausedCustomers() {
-  const todayStr = format(new Date(), 'yyyy-MM-dd');
-
-  // Find all customers whose pause_resume_date has passed and are still paused
-  const pausedCustomers = await prisma.customer.findMany({
-    where: {
-      is_paused: true,
-      pause_resume_date: { not: null },
-    },
-  });
-
-  // Filter to those whose resume date is today or earlier
-  const toResume = pausedCustomers.filter(c => {
-    if (!c.pause_resume_date) return false;
-    return c.pause_resume_date <= todayStr;
-  });
-
-  let resumedCount = 0;
-  for (const customer of toResume) {
-    try {
-      await prisma.customer.update({
-        where: { id: customer.id },
-        data: {
-          is_paused: false,
-          pause_start_date: null,
-          pause_resume_date: null,
-          status: 'active',
-        },
-      });
-
-      // Find the merchant to notify
-      const merchant = await prisma.user.findUnique({ where: { id: customer.created_by } });
-      if (merchant) {
-        // Create DB notification for merchant
-        await prisma.notification.create({
-          data: {
-            user_email: merchant.email,
-            title: 'Customer Auto-Resumed',
-            message: `${customer.full_name}'s pause period ended and their subscription has been automatically resumed.`,
-            type: 'resume',
-            notification_type: 'info',
-            customer_id: customer.id,
-            customer_name: customer.full_name,
-            phone_number: customer.phone_number,
-          },
-        });
-
-        // Push notification to merchant
-        sendPushToUser(merchant.id, 'Subscription Resumed', `${customer.full_name}'s pause ended — service auto-resumed`, {
-          type: 'delivery', customerId: customer.id,
-        }).catch(() => {});
-      }
-
-      resumedCount++;
-    } catch (err) {
-      console.error(`[AutoResume] Failed for customer ${customer.id}:`, err);
-    }
-  }
-
-  return { success: true, resumed: resumedCount, checked: toResume.length };
-}
-
 export default router;
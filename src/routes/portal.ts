@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { format, addDays, addMonths, differenceInDays, parseISO } from 'date-fns';
+import { addDays } from 'date-fns';
 import { sendEmail } from '../services/email';
 import { stripe } from '../services/stripe';
 import { sendSMS } from '../services/sms';
@@ -9,6 +9,29 @@ import { customerAuthMiddleware, CustomerAuthRequest, generateCustomerToken } fr
 import { sendPushToUserByEmail } from '../services/pushNotification';
 import crypto from 'crypto';
 import { calculatePlatformFee } from '../lib/fees';
+import { OPEN_ITEM_STATUSES } from '../lib/deliveries';
+import { estimateSpeed, etaForStop, recentSpeedSamples } from '../lib/eta';
+import { customerFieldsFromPlan, findPlan, listPlansForSale, publicPlan, renewalTerms } from '../lib/plans';
+import { DROP_OFF_REASONS, recordDropOff, validateDropOff } from '../lib/trials';
+import { walletBalance, walletHistory } from '../lib/wallet';
+import { addDaysToDateStr, recomputeCustomerDays } from '../lib/subscriptionDays';
+import { checkSkipCutoff, lateSkipMessage } from '../lib/skipCutoffs';
+import { countForfeitedDay } from '../lib/orderRuns';
+import { skipCoversMeal } from '../lib/deliveries';
+import { planMeals } from '../lib/proration';
+import { endSkipRule, loadSkipRules, validateSkipRule } from '../lib/skipRules';
+import { todayInTimezone } from '../lib/weekend';
+import { escapeHtml } from '../lib/html';
+import {
+  MAX_SCHEDULED_PAUSES,
+  OPEN_PAUSE_STATUSES,
+  endPause,
+  findOverlappingPause,
+  isPauseEditable,
+  portalPause,
+  startPause,
+  validatePauseDates,
+} from '../lib/pauses';
 
 const router = Router();
 
@@ -21,20 +44,6 @@ function safeError(error: any): string {
   return 'Something went wrong. Please try again.';
 }
 
-// Self-registration is public and unauthenticated, so these values are
-// attacker-controlled. Interpolated raw, a customer named
-// `<a href="...">Click to verify</a>` renders as a live link inside a
-// legitimate platform email to the merchant — a phishing hook with your own
-// branding around it.
-function escapeHtml(value: unknown): string {
-  return String(value ?? '')
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 // ─────────────────────────────────────────────────────────────────
 // OTP AUTHENTICATION ENDPOINTS
 // ─────────────────────────────────────────────────────────────────
@@ -276,7 +285,11 @@ router.post('/auth/verify-otp', async (req: Request, res: Response) => {
 router.get('/me', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
     const customer = req.customer!;
-    const merchant = await prisma.user.findUnique({ where: { id: customer.merchant_id } });
+    const [merchant, renewal, walletMeals] = await Promise.all([
+      prisma.user.findUnique({ where: { id: customer.merchant_id } }),
+      renewalTerms(customer as any),
+      walletBalance(customer.id),
+    ]);
 
     res.json({
       customer: {
@@ -307,7 +320,15 @@ router.get('/me', customerAuthMiddleware, async (req: CustomerAuthRequest, res:
         status: customer.status,
         active: customer.active,
         menu_style: customer.menu_style || 'Set Menu',
+        plan: renewal.plan ? publicPlan(renewal.plan) : null,
+        // Meals held on top of the paid days, summed from the wallet ledger;
+        // GET /wallet lists the entries behind it.
+        wallet_balance: walletMeals,
       },
+      // What renewing costs now. For a customer on a plan this is the plan's
+      // current price, which may differ from the payment_amount of the cycle
+      // they are on.
+      renewal: { amount: renewal.amount, days: renewal.days },
       merchant: {
         id: customer.merchant_id,
         business_name: merchant?.business_name || 'Tiffin Service',
@@ -316,6 +337,9 @@ router.get('/me', customerAuthMiddleware, async (req: CustomerAuthRequest, res:
         brand_primary_color: merchant?.brand_primary_color || '#6366f1',
         brand_accent_color: merchant?.brand_accent_color || '#f97316',
         payment_account_connected: merchant?.payment_account_connected && merchant?.payment_verification_status === 'verified',
+        // So the portal can say when skips close before the customer tries.
+        skip_cutoffs: merchant?.skip_cutoffs ?? null,
+        late_skip_policy: merchant?.late_skip_policy || 'reject',
       },
     });
   } catch (error: any) {
@@ -451,6 +475,100 @@ router.get('/payments', customerAuthMiddleware, async (req: CustomerAuthRequest,
   }
 });
 
+// GET /api/portal/wallet - Wallet balance and the entries that make it up
+router.get('/wallet', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const history = await walletHistory(customer.id);
+
+    res.json({
+      balance: history.balance,
+      entries: history.entries.map((e) => ({
+        id: e.id,
+        entry_type: e.entry_type,
+        meals: e.meals,
+        amount: e.amount,
+        reason: e.reason,
+        balance_after: e.balance_after,
+        created_at: e.created_at,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// GET /api/portal/trial-offer - The plans a trial customer can convert onto (authenticated)
+router.get('/trial-offer', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    if (!customer.is_trial || customer.trial_converted) {
+      return res.status(404).json({ error: 'No trial to convert' });
+    }
+
+    const [merchant, plans, trial] = await Promise.all([
+      prisma.user.findUnique({ where: { id: customer.merchant_id } }),
+      listPlansForSale(customer.merchant_id),
+      prisma.customerTrial.findFirst({ where: { customer_id: customer.id }, orderBy: { created_at: 'desc' } }),
+    ]);
+
+    res.json({
+      trial: trial
+        ? { started_on: trial.started_on, ends_on: trial.ends_on, status: trial.status, offer_sent_at: trial.offer_sent_at }
+        : null,
+      current_plan_id: customer.plan_id,
+      plans,
+      currency: (merchant?.currency || 'USD').toUpperCase(),
+      // Without it /renew refuses; the portal shows "contact us" instead of a button.
+      online_payment: !!merchant?.stripe_connect_account_id && !!merchant.payment_account_connected && merchant.payment_verification_status === 'verified',
+      drop_off_reasons: DROP_OFF_REASONS,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// POST /api/portal/trial-offer/decline - Say why you are not continuing (authenticated)
+router.post('/trial-offer/decline', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const trial = await prisma.customerTrial.findFirst({
+      where: { customer_id: customer.id, status: { in: ['active', 'expired'] } },
+      orderBy: { created_at: 'desc' },
+    });
+    if (!trial) return res.status(404).json({ error: 'No trial to decline' });
+
+    const checked = validateDropOff(req.body);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    await recordDropOff(trial, checked.reason, checked.note);
+
+    const merchant = await prisma.user.findUnique({ where: { id: customer.merchant_id } });
+    if (merchant) {
+      const why = checked.reason.replace(/_/g, ' ') + (checked.note ? ` — "${checked.note}"` : '');
+      await prisma.notification.create({
+        data: {
+          user_email: merchant.email,
+          title: 'Trial Declined',
+          message: `${customer.full_name} will not continue after their trial: ${why}.`,
+          type: 'trial_expiry',
+          notification_type: 'info',
+          customer_id: customer.id,
+          customer_name: customer.full_name,
+          phone_number: customer.phone_number,
+        },
+      });
+      sendPushToUserByEmail(merchant.email, 'Trial Declined', `${customer.full_name} will not continue: ${why}`, {
+        type: 'trial_expiry', customerId: customer.id,
+      }).catch(() => {});
+    }
+
+    // The trial still runs to its last day; the customer is not switched off early.
+    res.json({ success: true, message: 'Thanks for letting us know' });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
 // POST /api/portal/renew - Create subscription renewal checkout
 router.post('/renew', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
@@ -465,7 +583,19 @@ router.post('/renew', customerAuthMiddleware, async (req: CustomerAuthRequest, r
       return res.status(400).json({ error: 'Online payments are not available. Please contact your provider.' });
     }
 
-    const amount = req.body.amount || customer.payment_amount || 0;
+    // A customer on a plan pays the plan's price for the next cycle, whatever
+    // the client sends. Customers without a plan keep the old behaviour.
+    let terms = await renewalTerms(customer as any);
+    // A trial customer picks their first plan from the trial offer (GET
+    // /trial-offer), and pays as a trial conversion rather than a renewal.
+    const trialConversion = !!customer.is_trial && !customer.trial_converted;
+    if (trialConversion && req.body.plan_id) {
+      const picked = await findPlan(req.body.plan_id, customer.merchant_id, { forSale: true });
+      if (!picked) return res.status(400).json({ error: 'That plan is not available' });
+      terms = { plan: picked, amount: picked.price, days: picked.days };
+    }
+    const paymentType = trialConversion ? 'trial_conversion' : 'renewal';
+    const amount = terms.plan ? terms.amount : (req.body.amount || terms.amount);
     if (amount <= 0) {
       return res.status(400).json({ error: 'Invalid payment amount' });
     }
@@ -493,15 +623,16 @@ router.post('/renew', customerAuthMiddleware, async (req: CustomerAuthRequest, r
       ],
       payment_intent_data: {
         application_fee_amount: platformFee.feeMinor,
-        metadata: { customer_id: customer.id, merchant_email: merchant.email, payment_type: 'renewal' },
+        metadata: { customer_id: customer.id, merchant_email: merchant.email, payment_type: paymentType },
       },
       metadata: {
         customer_id: customer.id,
         customer_owner_email: merchant.email,
         amount: amount.toString(),
-        payment_type: 'renewal',
+        payment_type: paymentType,
+        ...(terms.plan ? { plan_id: terms.plan.id, plan_days: String(terms.days) } : {}),
       },
-      success_url: `${appUrl}/portal/payment-success?type=renewal`,
+      success_url: `${appUrl}/portal/payment-success?type=${paymentType}`,
       cancel_url: `${appUrl}/portal/dashboard?cancelled=true`,
     }, { stripeAccount: merchant.stripe_connect_account_id ?? undefined });
 
@@ -512,105 +643,211 @@ router.post('/renew', customerAuthMiddleware, async (req: CustomerAuthRequest, r
         customer_name: customer.full_name,
         amount,
         currency: currency.toUpperCase(),
-        description: `Subscription Renewal`,
+        description: `${trialConversion ? 'Trial Conversion' : 'Subscription Renewal'}${terms.plan ? ` - ${terms.plan.name}` : ''}`,
         status: 'pending',
         stripe_checkout_session_id: session.id,
         checkout_url: session.url,
         expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
         platform_fee_amount: platformFeeAmount,
         net_amount: netAmount,
-        payment_metadata: { payment_type: 'renewal' },
+        payment_metadata: { payment_type: paymentType, plan_id: terms.plan?.id ?? null, plan_days: terms.days },
         created_by: customer.merchant_id,
       },
     });
 
-    res.json({ success: true, checkoutUrl: session.url, amount, currency: currency.toUpperCase() });
+    res.json({ success: true, checkoutUrl: session.url, amount, currency: currency.toUpperCase(), days: terms.days });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
 });
 
-// POST /api/portal/pause - Pause subscription
+// The merchant plans meals from these notices, so booking, moving and
+// cancelling a pause each send one.
+async function notifyMerchantOfPause(
+  customer: { id: string; full_name: string; merchant_id: string },
+  notice: { title: string; message: string; pushTitle: string; pushMessage: string }
+) {
+  const merchant = await prisma.user.findUnique({ where: { id: customer.merchant_id } });
+  if (!merchant) return;
+  await prisma.notification.create({
+    data: {
+      user_email: merchant.email,
+      title: notice.title,
+      message: notice.message,
+      type: 'pause',
+      notification_type: 'info',
+      customer_id: customer.id,
+      customer_name: customer.full_name,
+    },
+  });
+
+  // Push notification to merchant
+  sendPushToUserByEmail(merchant.email, notice.pushTitle, notice.pushMessage, {
+    type: 'delivery', customerId: customer.id,
+  }).catch(() => {});
+}
+
+// POST /api/portal/pause - Book a pause (authenticated). It is held as
+// scheduled until its start date; one starting today takes effect at once.
 router.post('/pause', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
     const customer = req.customer!;
-    const { pause_start, pause_end } = req.body;
-
-    if (!pause_start || !pause_end) {
-      return res.status(400).json({ error: 'Pause start and end dates are required' });
+    const today = await customerToday(customer.merchant_id);
+    const checked = validatePauseDates(req.body.pause_start, req.body.pause_end, today);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    const { start_date, resume_date, days: pauseDays } = checked;
+
+    const overlapping = await findOverlappingPause(customer.id, start_date, resume_date);
+    if (overlapping) {
+      return res.status(400).json({
+        error: `Overlaps your pause from ${overlapping.start_date} to ${overlapping.resume_date}`,
+      });
     }
-
-    const startDate = parseISO(pause_start);
-    const endDate = parseISO(pause_end);
-    const today = new Date();
-
-    if (startDate < today) {
-      return res.status(400).json({ error: 'Pause start date cannot be in the past' });
+    const scheduled = await prisma.customerPause.count({ where: { customer_id: customer.id, status: 'scheduled' } });
+    if (scheduled >= MAX_SCHEDULED_PAUSES) {
+      return res.status(400).json({ error: `You can have at most ${MAX_SCHEDULED_PAUSES} upcoming pauses` });
     }
 
-    if (endDate <= startDate) {
-      return res.status(400).json({ error: 'Pause end date must be after start date' });
-    }
+    let pause = await prisma.customerPause.create({
+      data: {
+        customer_id: customer.id,
+        start_date,
+        resume_date,
+        status: 'scheduled',
+        reason: req.body.reason ? String(req.body.reason).slice(0, 200) : 'Customer portal request',
+        created_by: customer.merchant_id,
+      },
+    });
 
-    const pauseDays = differenceInDays(endDate, startDate);
-    if (pauseDays > 30) {
-      return res.status(400).json({ error: 'Maximum pause duration is 30 days' });
+    // The end date only moves once the pause is in force: until then the
+    // customer may still move or cancel it.
+    let newEndDate: string | null = null;
+    if (start_date <= today && !customer.is_paused) {
+      const days = await startPause(pause);
+      newEndDate = days?.account.end_date ?? null;
+      pause = (await prisma.customerPause.findUnique({ where: { id: pause.id } })) ?? pause;
     }
 
-    // Calculate new end date by extending by pause days
-    const currentEndDate = customer.end_date ? new Date(customer.end_date) : null;
-    const newEndDate = currentEndDate ? addDays(currentEndDate, pauseDays) : null;
+    await notifyMerchantOfPause(customer, {
+      title: 'Customer Paused Subscription',
+      message: `${customer.full_name} has paused their subscription from ${start_date} to ${resume_date}`,
+      pushTitle: 'Subscription Paused',
+      pushMessage: `${customer.full_name} paused from ${start_date} to ${resume_date}`,
+    });
 
-    // Build pause history
-    const pauseHistory = customer.pause_history || [];
-    (pauseHistory as any[]).push({
-      pause_start: pause_start,
-      pause_end: pause_end,
+    res.json({
+      success: true,
+      message: pause.status === 'active'
+        ? `Subscription paused from ${start_date} to ${resume_date}`
+        : `Pause booked from ${start_date} to ${resume_date}`,
       pause_days: pauseDays,
-      created_at: new Date().toISOString(),
+      pause: portalPause(pause, today),
+      new_end_date: newEndDate,
     });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
 
-    await prisma.customer.update({
-      where: { id: customer.id },
-      data: {
-        is_paused: true,
-        pause_start_date: pause_start,
-        pause_resume_date: pause_end,
-        original_end_date: customer.end_date ? format(customer.end_date, 'yyyy-MM-dd') : null,
-        total_pause_days: (customer.total_pause_days || 0) + pauseDays,
-        pause_history: pauseHistory,
-        end_date: newEndDate,
-        status: 'paused',
+// GET /api/portal/pauses - Upcoming, current and recent pauses (authenticated)
+router.get('/pauses', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const today = await customerToday(customer.merchant_id);
+    const pauses = await prisma.customerPause.findMany({
+      where: {
+        customer_id: customer.id,
+        OR: [{ status: { in: OPEN_PAUSE_STATUSES } }, { resume_date: { gte: addDaysToDateStr(today, -90) } }],
       },
+      orderBy: { start_date: 'desc' },
+    });
+    res.json({ pauses: pauses.map((p) => portalPause(p, today)) });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// PUT /api/portal/pauses/:pauseId - Move a pause that has not started (authenticated)
+router.put('/pauses/:pauseId', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const pause = await prisma.customerPause.findFirst({
+      where: { id: req.params.pauseId as string, customer_id: customer.id },
     });
+    if (!pause) return res.status(404).json({ error: 'Pause not found' });
 
-    // Notify merchant
-    const merchant = await prisma.user.findUnique({ where: { id: customer.merchant_id } });
-    if (merchant) {
-      await prisma.notification.create({
-        data: {
-          user_email: merchant.email,
-          title: 'Customer Paused Subscription',
-          message: `${customer.full_name} has paused their subscription from ${pause_start} to ${pause_end}`,
-          type: 'pause',
-          notification_type: 'info',
-          customer_id: customer.id,
-          customer_name: customer.full_name,
-        },
+    const today = await customerToday(customer.merchant_id);
+    if (!isPauseEditable(pause, today)) {
+      return res.status(400).json({ error: 'This pause has already started and can no longer be changed' });
+    }
+    const checked = validatePauseDates(
+      req.body.pause_start ?? pause.start_date,
+      req.body.pause_end ?? pause.resume_date,
+      today
+    );
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+
+    const overlapping = await findOverlappingPause(customer.id, checked.start_date, checked.resume_date, pause.id);
+    if (overlapping) {
+      return res.status(400).json({
+        error: `Overlaps your pause from ${overlapping.start_date} to ${overlapping.resume_date}`,
       });
+    }
 
-      // Push notification to merchant
-      sendPushToUserByEmail(merchant.email, 'Subscription Paused', `${customer.full_name} paused from ${pause_start} to ${pause_end}`, {
-        type: 'delivery', customerId: customer.id,
-      }).catch(() => {});
+    let updated = await prisma.customerPause.update({
+      where: { id: pause.id },
+      data: { start_date: checked.start_date, resume_date: checked.resume_date },
+    });
+    let newEndDate: string | null = null;
+    if (updated.start_date <= today && !customer.is_paused) {
+      const days = await startPause(updated);
+      newEndDate = days?.account.end_date ?? null;
+      updated = (await prisma.customerPause.findUnique({ where: { id: pause.id } })) ?? updated;
     }
 
-    res.json({
-      success: true,
-      message: `Subscription paused from ${pause_start} to ${pause_end}`,
-      pause_days: pauseDays,
-      new_end_date: newEndDate ? format(newEndDate, 'yyyy-MM-dd') : null,
+    if (updated.start_date !== pause.start_date || updated.resume_date !== pause.resume_date) {
+      const was = `${pause.start_date} to ${pause.resume_date}`;
+      const now = `${updated.start_date} to ${updated.resume_date}`;
+      await notifyMerchantOfPause(customer, {
+        title: 'Customer Moved Pause',
+        message: `${customer.full_name} has moved their pause from ${was} to ${now}`,
+        pushTitle: 'Pause Moved',
+        pushMessage: `${customer.full_name} moved their pause to ${now} (was ${was})`,
+      });
+    }
+
+    res.json({ success: true, pause: portalPause(updated, today), new_end_date: newEndDate });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// DELETE /api/portal/pauses/:pauseId - Cancel a pause that has not started (authenticated)
+router.delete('/pauses/:pauseId', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const pause = await prisma.customerPause.findFirst({
+      where: { id: req.params.pauseId as string, customer_id: customer.id },
+    });
+    if (!pause) return res.status(404).json({ error: 'Pause not found' });
+
+    if (!isPauseEditable(pause, await customerToday(customer.merchant_id))) {
+      return res.status(400).json({
+        error: pause.status === 'active'
+          ? 'This pause has started — resume your subscription instead'
+          : 'This pause can no longer be cancelled',
+      });
+    }
+    await prisma.customerPause.update({ where: { id: pause.id }, data: { status: 'cancelled' } });
+
+    await notifyMerchantOfPause(customer, {
+      title: 'Customer Cancelled Pause',
+      message: `${customer.full_name} has cancelled their pause from ${pause.start_date} to ${pause.resume_date}; deliveries go ahead on those days`,
+      pushTitle: 'Pause Cancelled',
+      pushMessage: `${customer.full_name} cancelled their pause from ${pause.start_date} to ${pause.resume_date}`,
     });
+
+    res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -625,15 +862,8 @@ router.post('/resume', customerAuthMiddleware, async (req: CustomerAuthRequest,
       return res.status(400).json({ error: 'Subscription is not paused' });
     }
 
-    await prisma.customer.update({
-      where: { id: customer.id },
-      data: {
-        is_paused: false,
-        pause_start_date: null,
-        pause_resume_date: null,
-        status: 'active',
-      },
-    });
+    // Resuming early brings the end date back in by the days not paused.
+    await endPause(customer.id);
 
     // Notify merchant about resume
     const merchant = await prisma.user.findUnique({ where: { id: customer.created_by } });
@@ -942,6 +1172,81 @@ router.post('/orders', customerAuthMiddleware, async (req: CustomerAuthRequest,
   }
 });
 
+// Both skip routes — the signed-in portal and the portal-link one — place a
+// skip through here, so the merchant's cutoff (lib/skipCutoffs.ts) cannot be
+// walked around by using the other one.
+async function placeSkip(
+  customer: { id: string; full_name: string; meal_type: string | null; created_by: string },
+  body: { skip_date?: unknown; meal_type?: unknown },
+  reason: string
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const skipDate = body.skip_date;
+  if (!skipDate) return { status: 400, body: { error: 'skip_date is required' } };
+  if (typeof skipDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(skipDate)) {
+    return { status: 400, body: { error: 'skip_date must be YYYY-MM-DD' } };
+  }
+  const mealType = (typeof body.meal_type === 'string' && body.meal_type) || customer.meal_type || 'Lunch';
+
+  const existing = await prisma.tiffinSkip.findFirst({
+    where: { customer_id: customer.id, skip_date: skipDate, meal_type: mealType, status: 'active' },
+  });
+  if (existing) return { status: 400, body: { error: 'Already skipped for this date' } };
+
+  const merchant = await prisma.user.findUnique({
+    where: { id: customer.created_by },
+    select: { timezone: true, skip_cutoffs: true, late_skip_policy: true },
+  });
+  const cutoff = merchant
+    ? checkSkipCutoff(merchant, skipDate, mealType, customer.meal_type)
+    : ({ late: false } as const);
+  if (cutoff.late && cutoff.policy === 'reject') {
+    return { status: 400, body: { error: lateSkipMessage(cutoff), late: true, policy: cutoff.policy, cutoff: cutoff.cutoff } };
+  }
+
+  const skip = await prisma.tiffinSkip.create({
+    data: {
+      customer_id: customer.id,
+      customer_name: customer.full_name,
+      skip_date: skipDate,
+      meal_type: mealType,
+      reason,
+      status: 'active',
+      is_late: cutoff.late,
+      created_by: customer.created_by,
+    },
+  });
+
+  // A late skip that leaves nothing to deliver that day uses the day up: the
+  // food was cooked for it.
+  if (cutoff.late) {
+    const sameDay = await prisma.tiffinSkip.findMany({
+      where: { customer_id: customer.id, skip_date: skipDate, status: 'active' },
+      select: { meal_type: true },
+    });
+    const meals = planMeals(customer.meal_type);
+    if (meals.length > 0 && meals.every((meal) => sameDay.some((s) => skipCoversMeal(s.meal_type, meal)))) {
+      await countForfeitedDay(skip);
+    }
+  }
+
+  // A skip of every meal moves the end date out by a day.
+  await recomputeCustomerDays(customer.id);
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      skip: { id: skip.id, skip_date: skip.skip_date, meal_type: skip.meal_type, is_late: skip.is_late },
+      late: cutoff.late,
+      ...(cutoff.late ? { policy: cutoff.policy, cutoff: cutoff.cutoff, message: lateSkipMessage(cutoff) } : {}),
+    },
+  };
+}
+
+// A skip placed after the cutoff was accepted on the terms that the food is
+// cooked; cancelling it would ask for that food back.
+const LATE_SKIP_LOCKED = 'This skip was made after the cutoff and can no longer be cancelled';
+
 // GET /api/portal/skips - Get customer's skips (authenticated)
 router.get('/skips', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
@@ -959,6 +1264,7 @@ router.get('/skips', customerAuthMiddleware, async (req: CustomerAuthRequest, re
         skip_date: s.skip_date,
         meal_type: s.meal_type,
         status: s.status,
+        is_late: s.is_late,
       })),
     });
   } catch (error: any) {
@@ -970,39 +1276,12 @@ router.get('/skips', customerAuthMiddleware, async (req: CustomerAuthRequest, re
 router.post('/skips', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
     const customer = req.customer!;
-    const { skip_date, meal_type } = req.body;
-
-    if (!skip_date) {
-      return res.status(400).json({ error: 'skip_date is required' });
-    }
-
-    // Check if skip already exists
-    const existing = await prisma.tiffinSkip.findFirst({
-      where: {
-        customer_id: customer.id,
-        skip_date,
-        meal_type: meal_type || customer.meal_type || 'Lunch',
-        status: 'active',
-      },
-    });
-
-    if (existing) {
-      return res.status(400).json({ error: 'Already skipped for this date' });
-    }
-
-    const skip = await prisma.tiffinSkip.create({
-      data: {
-        customer_id: customer.id,
-        customer_name: customer.full_name,
-        skip_date,
-        meal_type: meal_type || customer.meal_type || 'Lunch',
-        reason: 'Customer portal request',
-        status: 'active',
-        created_by: customer.merchant_id,
-      },
-    });
-
-    res.json({ success: true, skip: { id: skip.id, skip_date: skip.skip_date, meal_type: skip.meal_type } });
+    const placed = await placeSkip(
+      { id: customer.id, full_name: customer.full_name, meal_type: customer.meal_type ?? null, created_by: customer.merchant_id },
+      req.body,
+      'Customer portal request'
+    );
+    res.status(placed.status).json(placed.body);
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -1020,11 +1299,13 @@ router.delete('/skips/:skipId', customerAuthMiddleware, async (req: CustomerAuth
     if (!skip) {
       return res.status(404).json({ error: 'Skip not found' });
     }
+    if (skip.is_late) return res.status(400).json({ error: LATE_SKIP_LOCKED });
 
     await prisma.tiffinSkip.update({
       where: { id: skip.id },
       data: { status: 'cancelled' },
     });
+    await recomputeCustomerDays(customer.id);
 
     res.json({ success: true });
   } catch (error: any) {
@@ -1032,6 +1313,100 @@ router.delete('/skips/:skipId', customerAuthMiddleware, async (req: CustomerAuth
   }
 });
 
+// A customer's standing skips. Plenty of rules is still a handful; a client
+// posting one per request in a loop is not.
+const MAX_SKIP_RULES = 20;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function portalSkipRule(rule: Awaited<ReturnType<typeof loadSkipRules>>[number]) {
+  return {
+    id: rule.id,
+    weekday: rule.weekday,
+    weekday_name: WEEKDAY_NAMES[rule.weekday],
+    meal_type: rule.meal_type,
+    start_date: rule.start_date,
+    end_date: rule.end_date,
+    interval_weeks: rule.interval_weeks,
+    reason: rule.reason,
+  };
+}
+
+async function customerToday(merchantId: string) {
+  const merchant = await prisma.user.findUnique({ where: { id: merchantId }, select: { timezone: true } });
+  return todayInTimezone(merchant?.timezone);
+}
+
+// GET /api/portal/skip-rules - Recurring skips still in force (authenticated)
+router.get('/skip-rules', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const rules = await loadSkipRules({ customer_id: customer.id }, await customerToday(customer.merchant_id));
+    res.json({ rules: rules.map(portalSkipRule) });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// POST /api/portal/skip-rules - Skip a weekday (and meal) every week or every N weeks (authenticated)
+router.post('/skip-rules', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+    const today = await customerToday(customer.merchant_id);
+    const checked = validateSkipRule(req.body, customer.meal_type ?? null, today);
+    if (!checked.ok) return res.status(400).json({ error: checked.error });
+    const { rule } = checked;
+
+    const existing = await loadSkipRules({ customer_id: customer.id }, today);
+    if (existing.length >= MAX_SKIP_RULES) {
+      return res.status(400).json({ error: `A customer can have at most ${MAX_SKIP_RULES} skip rules` });
+    }
+    const duplicate = existing.some((r) =>
+      r.weekday === rule.weekday &&
+      r.meal_type === rule.meal_type &&
+      r.interval_weeks === rule.interval_weeks &&
+      r.start_date === rule.start_date &&
+      r.end_date === rule.end_date
+    );
+    if (duplicate) return res.status(400).json({ error: 'This skip rule already exists' });
+
+    const created = await prisma.skipRule.create({
+      data: {
+        ...rule,
+        reason: rule.reason || 'Customer portal request',
+        customer_id: customer.id,
+        created_by: customer.merchant_id,
+      },
+    });
+
+    // A rule covering every meal moves the end date out by each day it falls on.
+    const days = await recomputeCustomerDays(customer.id);
+
+    res.json({ success: true, rule: portalSkipRule(created), new_end_date: days?.account.end_date ?? null });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
+// DELETE /api/portal/skip-rules/:ruleId - Stop a recurring skip from today (authenticated)
+router.delete('/skip-rules/:ruleId', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
+  try {
+    const customer = req.customer!;
+
+    const rule = await prisma.skipRule.findFirst({
+      where: { id: req.params.ruleId as string, customer_id: customer.id },
+    });
+    if (!rule) return res.status(404).json({ error: 'Skip rule not found' });
+
+    await endSkipRule(rule, await customerToday(customer.merchant_id));
+    const days = await recomputeCustomerDays(customer.id);
+
+    res.json({ success: true, new_end_date: days?.account.end_date ?? null });
+  } catch (error: any) {
+    res.status(500).json({ error: safeError(error) });
+  }
+});
+
 // GET /api/portal/driver-location — get current driver location for customer's active delivery
 router.get('/driver-location', customerAuthMiddleware, async (req: CustomerAuthRequest, res: Response) => {
   try {
@@ -1042,7 +1417,7 @@ router.get('/driver-location', customerAuthMiddleware, async (req: CustomerAuthR
     const deliveryItem = await prisma.deliveryItem.findFirst({
       where: {
         customer_id: customer.id,
-        status: 'pending',
+        status: { in: OPEN_ITEM_STATUSES },
         created_by: customer.merchant_id,
       },
       orderBy: { created_at: 'desc' },
@@ -1080,6 +1455,17 @@ router.get('/driver-location', customerAuthMiddleware, async (req: CustomerAuthR
       select: { name: true, phone: true },
     });
 
+    // Where this customer sits in the run and roughly how long until the
+    // driver reaches them — see lib/eta.ts for how rough.
+    const [batchItems, samples] = await Promise.all([
+      prisma.deliveryItem.findMany({
+        where: { batch_id: batch.id },
+        select: { id: true, status: true, stop_sequence: true, latitude: true, longitude: true, customer_address: true },
+      }),
+      recentSpeedSamples(batch.driver_id),
+    ]);
+    const eta = await etaForStop(deliveryItem, batchItems, location, estimateSpeed(samples));
+
     res.json({
       latitude: location.latitude,
       longitude: location.longitude,
@@ -1088,6 +1474,7 @@ router.get('/driver-location', customerAuthMiddleware, async (req: CustomerAuthR
       updated_at: location.updated_at,
       driver_name: driver?.name || 'Driver',
       driver_phone: driver?.phone || null,
+      ...eta,
     });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
@@ -1108,6 +1495,7 @@ router.get('/join/:merchantId', async (req: Request, res: Response) => {
       business_name: merchant.business_name || 'Tiffin Service',
       currency: merchant.currency || 'USD',
       payment_account_connected: merchant.payment_account_connected && merchant.payment_verification_status === 'verified',
+      plans: await listPlansForSale(merchant.id),
     });
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
@@ -1120,12 +1508,19 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
     const merchant = await prisma.user.findUnique({ where: { id: req.params.merchantId as string } });
     if (!merchant) return res.status(404).json({ error: 'Merchant not found' });
 
-    const { full_name, phone_number, address, area, meal_type, roti_quantity, rice_type, dietary_preference, special_notes, registration_type } = req.body;
+    const { full_name, phone_number, address, area, meal_type, roti_quantity, rice_type, dietary_preference, special_notes, registration_type, plan_id } = req.body;
 
     if (!full_name || !phone_number) {
       return res.status(400).json({ error: 'Name and phone number are required' });
     }
 
+    // A plan picked on the form sets the meals, days and price; the form's own
+    // meal_type and payment_amount are only used when no plan is chosen.
+    const plan = plan_id ? await findPlan(plan_id, merchant.id, { forSale: true }) : null;
+    if (plan_id && !plan) {
+      return res.status(400).json({ error: 'That plan is no longer available' });
+    }
+
     // Check for duplicate phone
     const existing = await prisma.customer.findFirst({
       where: { created_by: merchant.id, phone_number, is_deleted: false },
@@ -1135,6 +1530,13 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
     }
 
     const isTrial = registration_type === 'trial';
+    // A trial takes the plan's meals but not its days: the trial length is
+    // decided by the trial flow, and the plan's cycle starts at conversion.
+    const planFields: Record<string, unknown> = plan ? customerFieldsFromPlan(plan) : {};
+    if (isTrial) {
+      delete planFields.paid_days;
+      delete planFields.days_remaining;
+    }
 
     const customer = await prisma.customer.create({
       data: {
@@ -1151,6 +1553,7 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
         rice_type: (!rice_type || String(rice_type).toLowerCase() === 'no') ? 'None' : rice_type,
         dietary_preference: dietary_preference || 'Both',
         special_notes: special_notes || null,
+        ...(plan ? planFields : {}),
         status: 'pending_verification',
         active: false,
         is_trial: isTrial,
@@ -1163,7 +1566,7 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
 
     // If pay-now and merchant has Stripe connected
     if (!isTrial && merchant.stripe_connect_account_id && merchant.payment_account_connected && merchant.payment_verification_status === 'verified') {
-      const amount = req.body.payment_amount || 0;
+      const amount = plan ? plan.price : (req.body.payment_amount || 0);
       if (amount > 0) {
         const currency = (merchant.currency || 'usd').toLowerCase();
         const platformFee = calculatePlatformFee(amount, merchant.fee_percentage);
@@ -1191,6 +1594,7 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
             customer_owner_email: merchant.email,
             amount: amount.toString(),
             registration: 'true',
+            ...(plan ? { plan_id: plan.id, plan_days: String(plan.days) } : {}),
           },
           success_url: `${appUrl}/registration-success?type=paid`,
           cancel_url: `${appUrl}/join/${merchant.id}?cancelled=true`,
@@ -1200,7 +1604,8 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
       }
     }
 
-    // Send merchant email notification
+    // Send merchant email notification. Self-registration is public and
+    // unauthenticated, so every value in it is attacker-controlled.
     try {
       await sendEmail({
         to: merchant.email,
@@ -1209,7 +1614,8 @@ router.post('/join/:merchantId', async (req: Request, res: Response) => {
 <p><strong>${escapeHtml(full_name)}</strong> has registered via your public link.</p>
 <p><strong>Phone:</strong> ${escapeHtml(phone_number)}</p>
 <p><strong>Type:</strong> ${isTrial ? '3-Day Free Trial' : 'Direct Registration'}</p>
-<p><strong>Meal:</strong> ${escapeHtml(meal_type || 'Lunch')}</p>
+<p><strong>Meal:</strong> ${escapeHtml(plan?.meal_type || meal_type || 'Lunch')}</p>
+${plan ? `<p><strong>Plan:</strong> ${escapeHtml(plan.name)}</p>` : ''}
 ${address ? `<p><strong>Address:</strong> ${escapeHtml(address)}</p>` : ''}
 <p>Please log in to your dashboard to approve or reject this registration.</p>`,
       });
@@ -1304,6 +1710,7 @@ router.get('/:token', async (req: Request, res: Response) => {
         skip_date: s.skip_date,
         meal_type: s.meal_type,
         status: s.status,
+        is_late: s.is_late,
       })),
       pendingPayments: paymentLinks.map(p => ({
         amount: p.amount,
@@ -1325,33 +1732,8 @@ router.post('/:token/skip', async (req: Request, res: Response) => {
     });
     if (!customer) return res.status(404).json({ error: 'Not found' });
 
-    const { skip_date, meal_type } = req.body;
-    if (!skip_date) return res.status(400).json({ error: 'skip_date required' });
-
-    // Check if skip already exists
-    const existing = await prisma.tiffinSkip.findFirst({
-      where: {
-        customer_id: customer.id,
-        skip_date,
-        meal_type: meal_type || customer.meal_type || 'Lunch',
-        status: 'active',
-      },
-    });
-    if (existing) return res.status(400).json({ error: 'Already skipped for this date' });
-
-    const skip = await prisma.tiffinSkip.create({
-      data: {
-        customer_id: customer.id,
-        customer_name: customer.full_name,
-        skip_date,
-        meal_type: meal_type || customer.meal_type || 'Lunch',
-        reason: 'Customer self-service portal',
-        status: 'active',
-        created_by: customer.created_by,
-      },
-    });
-
-    res.json({ success: true, skip: { id: skip.id, skip_date: skip.skip_date, meal_type: skip.meal_type } });
+    const placed = await placeSkip(customer, req.body, 'Customer self-service portal');
+    res.status(placed.status).json(placed.body);
   } catch (error: any) {
     res.status(500).json({ error: safeError(error) });
   }
@@ -1369,11 +1751,13 @@ router.delete('/:token/skip/:skipId', async (req: Request, res: Response) => {
       where: { id: req.params.skipId as string, customer_id: customer.id },
     });
     if (!skip) return res.status(404).json({ error: 'Skip not found' });
+    if (skip.is_late) return res.status(400).json({ error: LATE_SKIP_LOCKED });
 
     await prisma.tiffinSkip.update({
       where: { id: skip.id },
       data: { status: 'cancelled' },
     });
+    await recomputeCustomerDays(customer.id);
 
     res.json({ success: true });
   } catch (error: any) {
@@ -4,7 +4,11 @@ import { stripe, STRIPE_WEBHOOK_SECRET } from '../services/stripe';
 import { sendEmail } from '../services/email';
 import { sendSMS } from '../services/sms';
 import { sendMerchantWhatsApp } from '../services/whatsapp';
-import { addMonths, format } from 'date-fns';
+import { format } from 'date-fns';
+import { applyPlanChange, findPlan } from '../lib/plans';
+import { paidDaysOf, recomputeCustomerDays } from '../lib/subscriptionDays';
+import { postWalletEntry } from '../lib/wallet';
+import { recordTrialConversion } from '../lib/trials';
 
 const router = Router();
 
@@ -17,6 +21,23 @@ function safeError(error: any): string {
   return 'Something went wrong. Please try again.';
 }
 
+/**
+ * After a payment has set paid_days and delivered_days, derive where the paid
+ * days end (lib/subscriptionDays.ts) and make that the due date too. Returns
+ * the end date for the confirmation messages.
+ */
+async function settleTerm(customerId: string, timezone: string | null) {
+  const result = await recomputeCustomerDays(customerId, { timezone });
+  const endDate = result?.customer.end_date ?? new Date();
+  await prisma.customer.update({ where: { id: customerId }, data: { due_date: endDate } });
+  return endDate;
+}
+
+/** Paid days not yet delivered, carried into a cycle that restarts the counters. */
+function unusedDays(customer: { paid_days: number | null; delivered_days: number | null; is_trial: boolean | null }) {
+  return Math.max(paidDaysOf(customer) - (customer.delivered_days || 0), 0);
+}
+
 // POST /api/webhooks/stripe
 router.post('/stripe', async (req: Request, res: Response) => {
   const signature = req.headers['stripe-signature'] as string;
@@ -65,6 +86,11 @@ router.post('/stripe', async (req: Request, res: Response) => {
           if (customer) {
             const amount = session.amount_total / 100;
             console.log(`[Webhook] Updating registration payment for customer ${customer.full_name} — amount: ${amount}`);
+            // The plan's day count was fixed when the checkout was created, so a
+            // plan edited while the customer was paying does not change what
+            // they bought.
+            const planDays = parseInt(session.metadata?.plan_days, 10);
+            const days = Number.isFinite(planDays) && planDays > 0 ? planDays : 30;
             await prisma.customer.update({
               where: { id: customer.id },
               data: {
@@ -73,13 +99,12 @@ router.post('/stripe', async (req: Request, res: Response) => {
                 last_payment_amount: amount,
                 payment_amount: amount,
                 start_date: new Date(),
-                end_date: addMonths(new Date(), 1),
-                paid_days: 30,
+                paid_days: days,
                 delivered_days: 0,
-                days_remaining: 30,
                 // Still pending_verification until merchant approves
               },
             });
+            await settleTerm(customer.id, ownerUser.timezone);
 
             await sendEmail({
               to: customerOwnerEmail,
@@ -184,9 +209,17 @@ router.post('/stripe', async (req: Request, res: Response) => {
               break;
             }
 
-            const baseDate = customer.end_date && new Date(customer.end_date) > new Date() ? new Date(customer.end_date) : new Date();
-            const newEndDate = addMonths(baseDate, 1);
-            const newDaysRemaining = Math.max(Math.ceil((newEndDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)), 0);
+            // A renewal buys days on top of whatever the customer had not yet
+            // used: the plan's days, fixed when the checkout was created, or 30
+            // without a plan. They go on paid_days, and lib/subscriptionDays.ts
+            // lays them out after the days already paid for. A plan renewal's
+            // price becomes the customer's payment_amount from this cycle.
+            const planDays = parseInt(session.metadata?.plan_days, 10);
+            const plan = Number.isFinite(planDays) && planDays > 0
+              ? await findPlan(session.metadata?.plan_id, ownerUser.id)
+              : null;
+            const boughtDays = plan ? planDays : 30;
+            const delivered = customer.delivered_days || 0;
 
             await prisma.customer.update({
               where: { id: customer.id },
@@ -200,12 +233,25 @@ router.post('/stripe', async (req: Request, res: Response) => {
                 inactive_reason: null,
                 reminder_before_sent: false,
                 reminder_after_sent: false,
-                end_date: newEndDate,
-                due_date: newEndDate,
-                paid_days: 30,
-                days_remaining: newDaysRemaining,
+                paid_days: Math.max(paidDaysOf(customer), delivered) + boughtDays,
+                ...(plan ? { payment_amount: amount } : {}),
               },
             });
+            const newEndDate = await settleTerm(customer.id, ownerUser.timezone);
+
+            // The payment goes on the wallet history so the customer's
+            // statement shows it between the meals it paid for. It buys days,
+            // not balance meals, so it moves the balance by zero.
+            await postWalletEntry({
+              customer_id: customer.id,
+              created_by: ownerUser.id,
+              entry_type: 'renewal',
+              meals: 0,
+              amount,
+              reason: plan ? `Renewed on ${plan.name}: ${boughtDays} days` : `Renewed for ${boughtDays} days`,
+              reference_type: 'stripe_checkout_session',
+              reference_id: session.id,
+            });
 
             const endFormatted = format(newEndDate, 'dd MMM yyyy');
 
@@ -245,6 +291,48 @@ router.post('/stripe', async (req: Request, res: Response) => {
           break;
         }
 
+        // Handle mid-cycle plan change payment (/functions/prorate-plan-change)
+        if (customerId && session.metadata?.payment_type === 'plan_change') {
+          const customerOwnerEmail = session.metadata?.customer_owner_email;
+          if (!customerOwnerEmail) { console.log('[Webhook] Missing customer_owner_email for plan change, skipping'); break; }
+
+          const ownerUser = await prisma.user.findUnique({ where: { email: customerOwnerEmail } });
+          if (!ownerUser) { console.log(`[Webhook] Owner user not found for plan change: ${customerOwnerEmail}`); break; }
+
+          const link = await prisma.paymentLink.findFirst({
+            where: { stripe_checkout_session_id: session.id, created_by: ownerUser.id },
+          });
+          if (!link || link.status === 'paid') {
+            console.log(`[Webhook] Plan change already processed or unknown for session ${session.id} — skipping`);
+            break;
+          }
+          const customer = await prisma.customer.findFirst({
+            where: { id: customerId, created_by: ownerUser.id, is_deleted: false },
+          });
+          if (!customer) { console.log(`[Webhook] Customer not found for plan change — customerId: ${customerId}`); break; }
+
+          const plan = await findPlan(session.metadata?.plan_id, ownerUser.id);
+          const stored = (link.payment_metadata ?? {}) as { skip_ids?: string[] };
+          await applyPlanChange(customer.id, {
+            plan,
+            meal_type: session.metadata?.meal_type || customer.meal_type || 'Lunch',
+            cycle_price: parseFloat(session.metadata?.cycle_price) || customer.payment_amount || 0,
+            skip_ids: Array.isArray(stored.skip_ids) ? stored.skip_ids : [],
+          });
+          await prisma.paymentLink.update({
+            where: { id: link.id },
+            data: { status: 'paid', paid_at: new Date(), stripe_payment_intent_id: session.payment_intent },
+          });
+
+          await sendEmail({
+            to: customerOwnerEmail,
+            subject: `Plan Changed - ${customer.full_name}`,
+            body: `<h2>Plan Change Paid</h2>
+<p><strong>${customer.full_name}</strong> paid <strong>${(session.currency || 'usd').toUpperCase()} ${session.amount_total / 100}</strong> and is now on <strong>${plan?.name || session.metadata?.meal_type}</strong>.</p>`,
+          });
+          break;
+        }
+
         // Handle trial conversion payment
         if (customerId && session.metadata?.payment_type === 'trial_conversion') {
           const customerOwnerEmail = session.metadata?.customer_owner_email;
@@ -264,7 +352,14 @@ router.post('/stripe', async (req: Request, res: Response) => {
             console.log(`[Webhook] Processing trial conversion for ${customer.full_name} — ${currency} ${amount}`);
 
             const newStartDate = new Date();
-            const newEndDate = addMonths(newStartDate, 1);
+
+            // The plan picked on the portal's trial offer, fixed when the
+            // checkout was created; payment links from the dashboard carry none
+            // and buy 30 days on the customer's own terms, as they always have.
+            const planDays = parseInt(session.metadata?.plan_days, 10);
+            const plan = Number.isFinite(planDays) && planDays > 0
+              ? await findPlan(session.metadata?.plan_id, ownerUser.id)
+              : null;
 
             await prisma.customer.update({
               where: { id: customer.id },
@@ -280,13 +375,21 @@ router.post('/stripe', async (req: Request, res: Response) => {
                 reminder_before_sent: false,
                 reminder_after_sent: false,
                 start_date: newStartDate,
-                end_date: newEndDate,
-                due_date: newEndDate,
-                paid_days: 30,
+                paid_days: plan ? planDays : 30,
                 delivered_days: 0,
-                days_remaining: 30,
+                ...(plan
+                  ? {
+                      plan_id: plan.id,
+                      meal_type: plan.meal_type,
+                      menu_style: plan.menu_style,
+                      skip_weekends: plan.skip_weekends,
+                      payment_amount: amount,
+                    }
+                  : {}),
               },
             });
+            const newEndDate = await settleTerm(customer.id, ownerUser.timezone);
+            await recordTrialConversion(customer.id, plan?.id ?? null);
 
             const endFormatted = format(newEndDate, 'dd MMM yyyy');
 
@@ -340,10 +443,9 @@ router.post('/stripe', async (req: Request, res: Response) => {
             const currency = (session.currency || 'usd').toUpperCase();
             console.log(`[Webhook] Processing legacy payment for ${customer.full_name} — ${currency} ${amount}`);
 
-            // Extend subscription by 1 month from current end_date (or from today if no end_date)
-            const baseDate = customer.end_date && new Date(customer.end_date) > new Date() ? new Date(customer.end_date) : new Date();
+            // A new cycle from today: 30 days plus whatever of the last cycle
+            // was paid for and not yet delivered.
             const newStartDate = new Date();
-            const newEndDate = addMonths(baseDate, 1);
 
             await prisma.customer.update({
               where: { id: customer.id },
@@ -357,13 +459,11 @@ router.post('/stripe', async (req: Request, res: Response) => {
                 reminder_before_sent: false,
                 reminder_after_sent: false,
                 start_date: newStartDate,
-                end_date: newEndDate,
-                due_date: newEndDate,
-                paid_days: 30,
+                paid_days: unusedDays(customer) + 30,
                 delivered_days: 0,
-                days_remaining: 30,
               },
             });
+            const newEndDate = await settleTerm(customer.id, ownerUser.timezone);
 
             const endFormatted = format(newEndDate, 'dd MMM yyyy');
 
@@ -571,8 +671,7 @@ router.post('/stripe', async (req: Request, res: Response) => {
                 }
 
                 const amount = invoice.amount_paid / 100;
-                const baseDate = customer.end_date && new Date(customer.end_date) > new Date() ? new Date(customer.end_date) : new Date();
-                const newEndDate = addMonths(baseDate, 1);
+                // Same as the legacy checkout: a new cycle keeping unused days.
 
                 await prisma.customer.update({
                   where: { id: customer.id },
@@ -586,13 +685,11 @@ router.post('/stripe', async (req: Request, res: Response) => {
                     reminder_before_sent: false,
                     reminder_after_sent: false,
                     start_date: new Date(),
-                    end_date: newEndDate,
-                    due_date: newEndDate,
-                    paid_days: 30,
+                    paid_days: unusedDays(customer) + 30,
                     delivered_days: 0,
-                    days_remaining: 30,
                   },
                 });
+                await settleTerm(customer.id, ownerUser.timezone);
               }
             }
           }
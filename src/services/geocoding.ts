@@ -0,0 +1,126 @@
+/**
+ * Address → coordinates, for planning delivery routes.
+ *
+ * Google's Geocoding API is used when GOOGLE_MAPS_API_KEY is set; otherwise
+ * OpenStreetMap's public Nominatim, which is free but allows one request per
+ * second and asks for an identifying User-Agent. Either way results go through
+ * the GeocodeCache table first, so a customer's address is looked up once, not
+ * once per morning.
+ *
+ * Never throws: a failed lookup returns null and the stop is left unsequenced
+ * at the end of the run, which is exactly where it sat before routing existed.
+ */
+
+import { prisma } from '../lib/prisma';
+import { LatLng, isValidLatLng } from '../lib/geo';
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const GOOGLE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+const NOMINATIM_MIN_INTERVAL_MS = 1100;
+const LOOKUP_TIMEOUT_MS = 8000;
+// A cached miss is retried after this long, in case the geocoder learned the
+// building since.
+const MISS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// About twenty seconds of the free geocoder's one-a-second, the most one
+// request should spend waiting on it.
+const MAX_LOOKUPS_PER_REQUEST = 20;
+
+/** Network lookups a request may still make. Answers from the cache are free. */
+export interface LookupBudget {
+  remaining: number;
+}
+
+export function lookupBudget(max = MAX_LOOKUPS_PER_REQUEST): LookupBudget {
+  return { remaining: max };
+}
+
+let lastNominatimCall = 0;
+
+/** Lower-cased, whitespace- and punctuation-collapsed — the cache key. */
+export function normaliseAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[\s,]+/g, ' ')
+    .replace(/\s*-\s*/g, '-')
+    .trim();
+}
+
+async function lookupGoogle(address: string, apiKey: string): Promise<LatLng | null> {
+  const url = `${GOOGLE_URL}?address=${encodeURIComponent(address)}&key=${apiKey}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Google geocoder answered ${response.status}`);
+  const result: any = await response.json();
+  // OVER_QUERY_LIMIT, REQUEST_DENIED and the rest come back as 200 with no
+  // results; only ZERO_RESULTS says the address is not there.
+  if (result?.status === 'ZERO_RESULTS') return null;
+  if (result?.status !== 'OK') throw new Error(`Google geocoder answered ${result?.status}`);
+  const loc = result.results?.[0]?.geometry?.location;
+  if (!loc) return null;
+  return { latitude: Number(loc.lat), longitude: Number(loc.lng) };
+}
+
+async function lookupNominatim(address: string): Promise<LatLng | null> {
+  const wait = lastNominatimCall + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+  if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+  lastNominatimCall = Date.now();
+
+  const contact = process.env.SUPER_ADMIN_EMAIL || 'support@tiffinhub.me';
+  const url = `${NOMINATIM_URL}?format=json&limit=1&q=${encodeURIComponent(address)}`;
+  const response = await fetch(url, {
+    headers: { 'User-Agent': `TiffinHub/1.0 (${contact})`, 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Nominatim answered ${response.status}`);
+  const result: any = await response.json();
+  if (!Array.isArray(result)) throw new Error('Nominatim answered with something other than a list');
+  const hit = result[0];
+  if (!hit) return null;
+  return { latitude: Number(hit.lat), longitude: Number(hit.lon) };
+}
+
+/**
+ * Geocode one address, cache first. `allowLookup: false` answers from the cache
+ * only; a `budget` allows lookups until it runs out, and is spent only by
+ * addresses that actually go to the network.
+ */
+export async function geocodeAddress(
+  address: string | null | undefined,
+  options: { allowLookup?: boolean; budget?: LookupBudget } = {}
+): Promise<LatLng | null> {
+  if (!address || !address.trim()) return null;
+  const key = normaliseAddress(address);
+
+  const cached = await prisma.geocodeCache.findUnique({ where: { address_key: key } });
+  if (cached) {
+    if (isValidLatLng(cached.latitude, cached.longitude)) {
+      return { latitude: cached.latitude!, longitude: cached.longitude! };
+    }
+    if (Date.now() - cached.created_at.getTime() < MISS_TTL_MS) return null;
+  }
+  if (options.allowLookup === false) return null;
+  if (options.budget) {
+    if (options.budget.remaining <= 0) return null;
+    options.budget.remaining--;
+  }
+
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  const provider = apiKey ? 'google' : 'nominatim';
+  let point: LatLng | null = null;
+  try {
+    point = apiKey ? await lookupGoogle(address, apiKey) : await lookupNominatim(address);
+    if (point && !isValidLatLng(point.latitude, point.longitude)) point = null;
+  } catch (err: any) {
+    // A timeout, rate limit or outage is not a verdict on the address — do
+    // not cache it. Only the geocoder saying "no such place" is.
+    console.error('[Geocode] Lookup failed:', err?.message || err);
+    return null;
+  }
+
+  await prisma.geocodeCache.upsert({
+    where: { address_key: key },
+    create: { address_key: key, latitude: point?.latitude ?? null, longitude: point?.longitude ?? null, provider },
+    update: { latitude: point?.latitude ?? null, longitude: point?.longitude ?? null, provider, created_at: new Date() },
+  }).catch((err) => console.error('[Geocode] Cache write failed:', err?.message || err));
+
+  return point;
+}